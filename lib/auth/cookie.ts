@@ -0,0 +1,6 @@
+// lib/auth/cookie.ts
+// Session cookie name, kept apart from session.ts so src/middleware.ts (edge
+// runtime, no Prisma) can import it.
+export const SESSION_COOKIE = "sbd_session";
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
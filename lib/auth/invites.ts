@@ -0,0 +1,95 @@
+// lib/auth/invites.ts
+// Invite codes for signup. An invite is single-use and expires;
+// admins can revoke one before it is redeemed.
+import { randomBytes } from "crypto";
+import { Invite, Prisma, User } from "@prisma/client";
+
+export const DEFAULT_INVITE_TTL_DAYS = 7;
+
+// No 0/O/1/I so codes survive being read out loud
+const CODE_ALPHABET = "23456789ABCDEFGHJKLMNPQRSTUVWXYZ";
+
+// e.g. "K7QM-3XPA"
+export function generateInviteCode(): string {
+  const chars = Array.from(
+    randomBytes(8),
+    (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]
+  );
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+export type InviteStatus = "PENDING" | "USED" | "REVOKED" | "EXPIRED";
+
+export function getInviteStatus(
+  invite: Pick<Invite, "usedAt" | "revokedAt" | "expiresAt">,
+  now: Date = new Date()
+): InviteStatus {
+  if (invite.usedAt) return "USED";
+  if (invite.revokedAt) return "REVOKED";
+  if (invite.expiresAt <= now) return "EXPIRED";
+  return "PENDING";
+}
+
+// Mark an invite used by userId. Throws "Invalid invite code" unless it is
+// pending and (if addressed) issued to this email. The conditional update
+// makes a code redeemable only once even under concurrent signups.
+export async function redeemInvite(
+  tx: Prisma.TransactionClient,
+  code: string,
+  email: string,
+  userId: string
+): Promise<Invite> {
+  const now = new Date();
+  const invite = await tx.invite.findUnique({
+    where: { code: code.trim().toUpperCase() },
+  });
+
+  if (
+    !invite ||
+    getInviteStatus(invite, now) !== "PENDING" ||
+    (invite.email !== null && invite.email !== email)
+  ) {
+    throw new Error("Invalid invite code");
+  }
+
+  const { count } = await tx.invite.updateMany({
+    where: { id: invite.id, usedAt: null, revokedAt: null },
+    data: { usedAt: now, usedById: userId },
+  });
+
+  if (count !== 1) {
+    throw new Error("Invalid invite code");
+  }
+
+  return invite;
+}
+
+// Accounts from before sign-in existed got a random UUID as their email, so
+// the admin the roles migration promoted can't sign in. SIGNUP_INVITE_CODE
+// claims it once: it gets a real email (and password) and keeps its balance
+// and history. Returns null when there is no such admin.
+export async function claimPromotedAdmin(
+  tx: Prisma.TransactionClient,
+  data: { email: string; displayName: string; passwordHash: string | null }
+): Promise<User | null> {
+  const unclaimed: Prisma.UserWhereInput = {
+    role: "ADMIN",
+    passwordHash: null,
+    email: { not: { contains: "@" } },
+  };
+
+  const admin = await tx.user.findFirst({
+    where: unclaimed,
+    orderBy: { createdAt: "asc" },
+  });
+  if (!admin) return null;
+
+  // Conditional, so two signups can't both claim it
+  const { count } = await tx.user.updateMany({
+    where: { id: admin.id, ...unclaimed },
+    data,
+  });
+  if (count !== 1) return null;
+
+  return tx.user.findUniqueOrThrow({ where: { id: admin.id } });
+}
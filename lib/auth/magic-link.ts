@@ -0,0 +1,32 @@
+// lib/auth/magic-link.ts
+// Mail a one-time sign-in link through the mail stand-in.
+import { sendMail } from "../mail/send";
+import { createLoginToken } from "./session";
+
+export const MAGIC_LINK_PATH = "/api/auth/magic-link/verify";
+
+// The app's public base URL. Links are never built from the request's Host
+// header, which the sender controls, so without APP_URL no link is sent.
+export function getAppUrl(): string {
+  const appUrl = process.env.APP_URL;
+  if (!appUrl) {
+    throw new Error("APP_URL is not configured");
+  }
+  return appUrl.replace(/\/+$/, "");
+}
+
+export async function sendMagicLink(user: {
+  id: string;
+  email: string;
+  displayName: string;
+}): Promise<void> {
+  const appUrl = getAppUrl();
+  const token = await createLoginToken(user.id);
+  const link = `${appUrl}${MAGIC_LINK_PATH}?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: user.email,
+    subject: "Your Sports Betting Degens sign-in link",
+    text: `Hi ${user.displayName},\n\nSign in with this link (valid for 15 minutes, works once):\n\n${link}\n`,
+  });
+}
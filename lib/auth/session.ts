@@ -0,0 +1,179 @@
+// lib/auth/session.ts
+// Cookie sessions and magic-link tokens. Random tokens go to the browser (or
+// the login email); the database only keeps their SHA-256 hashes.
+import { createHash, randomBytes } from "crypto";
+import { Role } from "@prisma/client";
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../db";
+import { SESSION_COOKIE, SESSION_TTL_MS } from "./cookie";
+
+const LOGIN_TOKEN_TTL_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface SessionUser {
+  id: string;
+  email: string;
+  displayName: string;
+  balanceCents: number;
+  role: Role;
+}
+
+const sessionUserSelect = {
+  id: true,
+  email: true,
+  displayName: true,
+  balanceCents: true,
+  role: true,
+} as const;
+
+const newToken = () => randomBytes(32).toString("base64url");
+
+const hashToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+// Start a session for userId and put its cookie on the response
+export async function startSession(
+  response: NextResponse,
+  userId: string
+): Promise<NextResponse> {
+  const token = newToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, expiresAt },
+  });
+
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  });
+
+  return response;
+}
+
+// Delete the request's session (if any) and clear the cookie
+export async function endSession(
+  request: NextRequest,
+  response: NextResponse
+): Promise<NextResponse> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+
+  if (token) {
+    await prisma.session.deleteMany({
+      where: { tokenHash: hashToken(token) },
+    });
+  }
+
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
+
+// The signed-in user, or null if the cookie is missing, unknown or expired
+export async function getSessionUser(
+  request: NextRequest
+): Promise<SessionUser | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getUserBySessionToken(token) : null;
+}
+
+// Session lookup by raw cookie value, for server components using cookies()
+export async function getUserBySessionToken(
+  token: string
+): Promise<SessionUser | null> {
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: sessionUserSelect } },
+  });
+
+  if (!session || session.expiresAt <= new Date()) return null;
+
+  return session.user;
+}
+
+// Like getSessionUser but throws; pair with authErrorResponse in the catch
+export async function requireUser(request: NextRequest): Promise<SessionUser> {
+  const user = await getSessionUser(request);
+  if (!user) {
+    throw new Error("Authentication required");
+  }
+  return user;
+}
+
+// requireUser, and also throws unless the user is an ADMIN
+export async function requireAdmin(request: NextRequest): Promise<SessionUser> {
+  const user = await requireUser(request);
+  if (user.role !== "ADMIN") {
+    throw new Error("Admin access required");
+  }
+  return user;
+}
+
+// Map errors thrown by requireUser / requireAdmin onto the API error envelope
+export function authErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof Error && error.message === "Authentication required") {
+    return NextResponse.json(
+      {
+        error: {
+          code: "UNAUTHENTICATED",
+          message: "You must be signed in",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  if (error instanceof Error && error.message === "Admin access required") {
+    return NextResponse.json(
+      {
+        error: {
+          code: "FORBIDDEN",
+          message: "Only admins can do this",
+        },
+      },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Issue a one-time login token for a magic link
+export async function createLoginToken(userId: string): Promise<string> {
+  const token = newToken();
+
+  await prisma.loginToken.create({
+    data: {
+      tokenHash: hashToken(token),
+      userId,
+      expiresAt: new Date(Date.now() + LOGIN_TOKEN_TTL_MS),
+    },
+  });
+
+  return token;
+}
+
+// Redeem a magic-link token; returns its user id, or null if it is unknown,
+// expired or already used
+export async function consumeLoginToken(token: string): Promise<string | null> {
+  const loginToken = await prisma.loginToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+
+  if (
+    !loginToken ||
+    loginToken.usedAt !== null ||
+    loginToken.expiresAt <= new Date()
+  ) {
+    return null;
+  }
+
+  // Conditional update so two clicks on the same link can't both sign in
+  const { count } = await prisma.loginToken.updateMany({
+    where: { id: loginToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  return count === 1 ? loginToken.userId : null;
+}
@@ -0,0 +1,202 @@
+// lib/clv/record.ts
+// Snapshot each wager's closing line (the last Line captured before kickoff
+// for its market and selection, from the same book when that book quoted it)
+// and store the resulting CLV.
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { MarketKind, SelectionKey } from "../grading/rules";
+import { optionKey } from "../odds/best-price";
+import { calculateClv } from "./rules";
+
+export interface ClvRecordingResult {
+  eventId: string;
+  wagersRecorded: number;
+  legsRecorded: number;
+}
+
+interface ClosingLine {
+  price: number;
+  point: Prisma.Decimal | null;
+}
+
+const toNumber = (value: Prisma.Decimal | null): number | null =>
+  value !== null ? Number(value) : null;
+
+// Record CLV for every wager and parlay leg on a started event that doesn't
+// have it yet. Accepts a transaction client so grading can call it in-line.
+export async function recordClosingLines(
+  db: Prisma.TransactionClient,
+  eventId: string
+): Promise<ClvRecordingResult> {
+  const event = await db.event.findUnique({
+    where: { id: eventId },
+    include: {
+      markets: {
+        include: {
+          lines: {
+            orderBy: { capturedAt: "desc" },
+          },
+        },
+      },
+    },
+  });
+
+  if (!event) {
+    throw new Error("Event not found");
+  }
+
+  // The closing line isn't known until kickoff
+  if (event.startsAt > new Date()) {
+    return { eventId, wagersRecorded: 0, legsRecorded: 0 };
+  }
+
+  // Latest pre-kickoff line per market + option, and per book as well
+  const closingLines = new Map<string, ClosingLine>();
+  const marketTypes = new Map<string, MarketKind>();
+
+  for (const market of event.markets) {
+    marketTypes.set(market.id, market.type as MarketKind);
+
+    for (const line of market.lines) {
+      if (line.capturedAt >= event.startsAt) continue;
+
+      const closing = { price: line.price, point: line.point };
+      const key = `${market.id}:${optionKey(market.type, {
+        ...line,
+        point: toNumber(line.point),
+      })}`;
+      const bookKey = `${key}:${line.source}`;
+      if (!closingLines.has(key)) closingLines.set(key, closing);
+      if (!closingLines.has(bookKey)) closingLines.set(bookKey, closing);
+    }
+  }
+
+  const clvFor = (
+    line: {
+      marketId: string;
+      selectionKey: string;
+      label: string | null;
+      participant: string | null;
+      point: Prisma.Decimal | null;
+      source: string;
+    },
+    accepted: { acceptedPrice: number; acceptedPoint: Prisma.Decimal | null }
+  ) => {
+    const marketType = marketTypes.get(line.marketId);
+    if (!marketType) return null;
+
+    const key = `${line.marketId}:${optionKey(marketType, {
+      ...line,
+      point: toNumber(line.point),
+    })}`;
+    const closing =
+      closingLines.get(`${key}:${line.source}`) ?? closingLines.get(key);
+    if (!closing) return null;
+
+    const clv = calculateClv(
+      marketType,
+      line.selectionKey as SelectionKey,
+      {
+        price: accepted.acceptedPrice,
+        point: toNumber(accepted.acceptedPoint),
+      },
+      { price: closing.price, point: toNumber(closing.point) }
+    );
+
+    return {
+      closingPrice: closing.price,
+      closingPoint: closing.point,
+      clvCents: clv.clvCents,
+      clvPoints: clv.clvPoints,
+    };
+  };
+
+  // Cancelled wagers were never really bet, so they get no CLV
+  const wagers = await db.wager.findMany({
+    where: {
+      closingPrice: null,
+      status: { not: "CANCELLED" },
+      line: { market: { eventId } },
+    },
+    include: { line: true },
+  });
+
+  let wagersRecorded = 0;
+
+  for (const wager of wagers) {
+    if (!wager.line) continue;
+
+    const data = clvFor(wager.line, wager);
+    if (!data) continue;
+
+    await db.wager.update({ where: { id: wager.id }, data });
+    wagersRecorded++;
+  }
+
+  const legs = await db.wagerLeg.findMany({
+    where: {
+      closingPrice: null,
+      status: { not: "CANCELLED" },
+      line: { market: { eventId } },
+    },
+    include: { line: true },
+  });
+
+  let legsRecorded = 0;
+
+  for (const leg of legs) {
+    const data = clvFor(leg.line, leg);
+    if (!data) continue;
+
+    await db.wagerLeg.update({ where: { id: leg.id }, data });
+    legsRecorded++;
+  }
+
+  return { eventId, wagersRecorded, legsRecorded };
+}
+
+// Record CLV for every started event that still has wagers without it
+export async function recordStartedEventClosingLines(): Promise<
+  ClvRecordingResult[]
+> {
+  const events = await prisma.event.findMany({
+    where: {
+      startsAt: { lte: new Date() },
+      markets: {
+        some: {
+          lines: {
+            some: {
+              OR: [
+                {
+                  wagers: {
+                    some: { closingPrice: null, status: { not: "CANCELLED" } },
+                  },
+                },
+                {
+                  wagerLegs: {
+                    some: { closingPrice: null, status: { not: "CANCELLED" } },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+    select: { id: true },
+    orderBy: { startsAt: "asc" },
+  });
+
+  const results: ClvRecordingResult[] = [];
+
+  for (const event of events) {
+    try {
+      results.push(await recordClosingLines(prisma, event.id));
+    } catch (error) {
+      console.error(`Error recording CLV for event ${event.id}:`, error);
+      // Continue with other events
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,70 @@
+// lib/clv/rules.ts
+// Pure closing line value math: how a wager's accepted price/point compares
+// with the closing line. Positive numbers mean the bettor beat the close.
+import { MarketKind, SelectionKey } from "../grading/rules";
+
+export interface ClosingLineValue {
+  clvCents: number;
+  clvPoints: number | null;
+}
+
+// American odds -> implied probability (vig included), e.g. -110 -> 0.5238
+export function impliedProbability(americanOdds: number): number {
+  if (americanOdds > 0) {
+    return 100 / (americanOdds + 100);
+  }
+  return Math.abs(americanOdds) / (Math.abs(americanOdds) + 100);
+}
+
+// Probability edge in cents (1 cent = 1 percentage point), rounded to 0.01.
+// Taking +150 (40.0%) when it closed +130 (43.5%) is +3.48 cents.
+export function clvProbabilityCents(
+  acceptedPrice: number,
+  closingPrice: number
+): number {
+  const edge =
+    impliedProbability(closingPrice) - impliedProbability(acceptedPrice);
+  return Math.round(edge * 10000) / 100;
+}
+
+// Points gained against the closing number. Spreads: a bigger number is
+// better for either side. Totals and props: over wants lower, under wants
+// higher.
+export function clvPoints(
+  marketType: MarketKind,
+  selection: SelectionKey,
+  acceptedPoint: number | null,
+  closingPoint: number | null
+): number | null {
+  if (
+    marketType === "MONEYLINE" ||
+    acceptedPoint === null ||
+    closingPoint === null
+  ) {
+    return null;
+  }
+
+  if (
+    marketType === "TOTAL" ||
+    marketType === "ALT_TOTAL" ||
+    marketType === "PLAYER_PROP"
+  ) {
+    return selection === "OVER"
+      ? closingPoint - acceptedPoint
+      : acceptedPoint - closingPoint;
+  }
+
+  return acceptedPoint - closingPoint;
+}
+
+export function calculateClv(
+  marketType: MarketKind,
+  selection: SelectionKey,
+  accepted: { price: number; point: number | null },
+  closing: { price: number; point: number | null }
+): ClosingLineValue {
+  return {
+    clvCents: clvProbabilityCents(accepted.price, closing.price),
+    clvPoints: clvPoints(marketType, selection, accepted.point, closing.point),
+  };
+}
@@ -1,16 +1,33 @@
 // app/lib/db.ts
-import { PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient } from "@prisma/client";
 
 // Use a pooled URL at runtime if provided (e.g., Neon/Supabase pooler).
 // Fall back to DATABASE_URL for local and migrations.
 const RUNTIME_DB_URL =
   process.env.DATABASE_URL_RUNTIME || process.env.DATABASE_URL;
 
-// Keep a single client instance in dev to avoid "too many clients" hot-reload issues.
-const globalForPrisma = global as unknown as { prisma?: PrismaClient };
+// Ledger rows are never rewritten: a correction is a new entry posted
+// through lib/ledger/service.ts, so the history in /ledger stays intact
+const rejectLedgerMutation = () => {
+  throw new Error("Ledger entries are immutable");
+};
+
+const appendOnlyLedger = Prisma.defineExtension({
+  name: "append-only-ledger",
+  query: {
+    ledgerEntry: {
+      update: rejectLedgerMutation,
+      updateMany: rejectLedgerMutation,
+      upsert: rejectLedgerMutation,
+      delete: rejectLedgerMutation,
+      deleteMany: rejectLedgerMutation,
+    },
+  },
+});
 
-export const prisma =
-  globalForPrisma.prisma ??
+// The extension only intercepts queries, so the client keeps the plain
+// PrismaClient type that Prisma.TransactionClient parameters expect
+const createPrismaClient = () =>
   new PrismaClient({
     datasources: RUNTIME_DB_URL ? { db: { url: RUNTIME_DB_URL } } : undefined,
     log:
@@ -22,6 +39,11 @@ export const prisma =
       maxWait: 5000, // 5 seconds max wait to get a transaction
       isolationLevel: "ReadCommitted", // More relaxed isolation for better performance
     },
-  });
+  }).$extends(appendOnlyLedger) as unknown as PrismaClient;
+
+// Keep a single client instance in dev to avoid "too many clients" hot-reload issues.
+const globalForPrisma = global as unknown as { prisma?: PrismaClient };
+
+export const prisma = globalForPrisma.prisma ?? createPrismaClient();
 
 if (process.env.NODE_ENV !== "production") globalForPrisma.prisma = prisma;
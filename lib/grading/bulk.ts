@@ -0,0 +1,247 @@
+// lib/grading/bulk.ts
+// Settle every pending wager on an event, market or selection with one
+// result. The preview runs the same selection and payout math as the
+// settlement itself, without writing anything.
+import { MarketType, Prisma, Selection } from "@prisma/client";
+import { evaluateParlay } from "./parlay";
+import {
+  calculatePayout,
+  settleParlayLeg,
+  settleWager,
+  SettlementResult,
+} from "./settle";
+
+export interface BulkSettlementTarget {
+  eventId: string;
+  marketId?: string;
+  selectionKey?: Selection;
+  label?: string; // one named selection of a CUSTOM or OUTRIGHT market
+  participant?: string; // one player on a PLAYER_PROP market
+  point?: number | null; // one number, e.g. a player's over/under line
+  marketTypes?: MarketType[]; // only markets of these types
+}
+
+export interface BulkSettlementItem {
+  wagerId: string;
+  legId: string | null; // set when the wager is a parlay
+  userId: string;
+  displayName: string;
+  selection: string; // e.g. "SPREAD HOME -3.5"
+  stakeCents: number;
+  // credited to the bettor; null while the parlay still has open legs
+  payoutCents: number | null;
+  wagerResult: SettlementResult | null; // null while the parlay stays open
+}
+
+export interface BulkSettlement {
+  result: SettlementResult;
+  items: BulkSettlementItem[];
+  totalStakeCents: number;
+  totalPayoutCents: number;
+}
+
+const pendingInclude = {
+  user: { select: { displayName: true } },
+  line: { include: { market: true } },
+} satisfies Prisma.WagerInclude;
+
+const legInclude = {
+  line: { include: { market: true } },
+  wager: {
+    include: {
+      user: { select: { displayName: true } },
+      legs: true,
+    },
+  },
+} satisfies Prisma.WagerLegInclude;
+
+function lineWhere({
+  eventId,
+  marketId,
+  selectionKey,
+  label,
+  participant,
+  point,
+  marketTypes,
+}: BulkSettlementTarget): Prisma.LineWhereInput {
+  return {
+    ...(selectionKey && { selectionKey }),
+    ...(label && { label }),
+    ...(participant && { participant }),
+    ...(point !== undefined && { point }),
+    market: {
+      eventId,
+      ...(marketId && { id: marketId }),
+      ...(marketTypes && { type: { in: marketTypes } }),
+    },
+  };
+}
+
+function describeLine(
+  line: {
+    selectionKey: string;
+    label: string | null;
+    participant: string | null;
+    market: { type: string; name: string | null };
+  },
+  acceptedPoint: Prisma.Decimal | null
+): string {
+  if (line.market.type === "CUSTOM" || line.market.type === "OUTRIGHT") {
+    return `${line.market.name}: ${line.label}`;
+  }
+  if (line.market.type === "PLAYER_PROP") {
+    return `${line.market.name}: ${line.participant} ${
+      line.selectionKey
+    } ${acceptedPoint?.toString() ?? ""}`.trim();
+  }
+  return [line.market.type, line.selectionKey, acceptedPoint?.toString()]
+    .filter(Boolean)
+    .join(" ");
+}
+
+// Balance credit for a settled wager, as settleWager() would post it
+function payoutFor(
+  result: SettlementResult,
+  stakeCents: number,
+  price: number
+): number {
+  switch (result) {
+    case "WON":
+      return calculatePayout(stakeCents, price);
+    case "PUSH":
+    case "VOID":
+      return stakeCents;
+    default:
+      return 0;
+  }
+}
+
+// Everything the target would settle, with the payout each bettor gets
+export async function previewBulkSettlement(
+  tx: Prisma.TransactionClient,
+  target: BulkSettlementTarget,
+  result: SettlementResult
+): Promise<BulkSettlement> {
+  const [wagers, legs] = await Promise.all([
+    tx.wager.findMany({
+      where: { status: "PENDING", line: lineWhere(target) },
+      include: pendingInclude,
+      orderBy: { placedAt: "asc" },
+    }),
+    tx.wagerLeg.findMany({
+      where: {
+        status: "PENDING",
+        wager: { status: "PENDING" },
+        line: lineWhere(target),
+      },
+      include: legInclude,
+      orderBy: { wager: { placedAt: "asc" } },
+    }),
+  ]);
+
+  const items: BulkSettlementItem[] = [];
+
+  for (const wager of wagers) {
+    if (!wager.line) continue;
+
+    items.push({
+      wagerId: wager.id,
+      legId: null,
+      userId: wager.userId,
+      displayName: wager.user.displayName,
+      selection: describeLine(wager.line, wager.acceptedPoint),
+      stakeCents: wager.stakeCents,
+      payoutCents: payoutFor(result, wager.stakeCents, wager.acceptedPrice),
+      wagerResult: result,
+    });
+  }
+
+  // A parlay can have several legs in the target; evaluate them together
+  const legsByWager = new Map<string, typeof legs>();
+  for (const leg of legs) {
+    legsByWager.set(leg.wagerId, [
+      ...(legsByWager.get(leg.wagerId) ?? []),
+      leg,
+    ]);
+  }
+
+  for (const parlayLegs of legsByWager.values()) {
+    const parlay = parlayLegs[0].wager;
+    const settledIds = new Set(parlayLegs.map((leg) => leg.id));
+    const evaluation = evaluateParlay(
+      parlay.legs.map((leg) =>
+        settledIds.has(leg.id) ? { ...leg, status: result } : leg
+      )
+    );
+
+    const wagerResult =
+      evaluation.status === "PENDING" ? null : evaluation.status;
+    const payoutCents =
+      evaluation.status === "PENDING"
+        ? null
+        : payoutFor(
+            evaluation.status,
+            parlay.stakeCents,
+            evaluation.status === "WON"
+              ? evaluation.price
+              : parlay.acceptedPrice
+          );
+
+    parlayLegs.forEach((leg, index) => {
+      items.push({
+        wagerId: parlay.id,
+        legId: leg.id,
+        userId: parlay.userId,
+        displayName: parlay.user.displayName,
+        selection: `Parlay leg: ${describeLine(leg.line, leg.acceptedPoint)}`,
+        stakeCents: parlay.stakeCents,
+        // Count the parlay's payout once, on its first leg in the target
+        payoutCents: index === 0 ? payoutCents : null,
+        wagerResult,
+      });
+    });
+  }
+
+  // Parlays appear once per leg but their stake counts once
+  const stakes = new Map(items.map((item) => [item.wagerId, item.stakeCents]));
+
+  return {
+    result,
+    items,
+    totalStakeCents: Array.from(stakes.values()).reduce(
+      (sum, stake) => sum + stake,
+      0
+    ),
+    totalPayoutCents: items.reduce(
+      (sum, item) => sum + (item.payoutCents ?? 0),
+      0
+    ),
+  };
+}
+
+// Settle everything in the target. Must be called with a transaction client
+// so the whole batch commits or none of it does.
+export async function applyBulkSettlement(
+  tx: Prisma.TransactionClient,
+  target: BulkSettlementTarget,
+  result: SettlementResult
+): Promise<BulkSettlement> {
+  const settlement = await previewBulkSettlement(tx, target, result);
+
+  for (const item of settlement.items) {
+    if (item.legId) {
+      // An earlier leg may already have decided the parlay
+      const parlay = await tx.wager.findUnique({
+        where: { id: item.wagerId },
+        select: { status: true },
+      });
+      if (parlay?.status !== "PENDING") continue;
+
+      await settleParlayLeg(tx, item.legId, result);
+    } else {
+      await settleWager(tx, item.wagerId, result);
+    }
+  }
+
+  return settlement;
+}
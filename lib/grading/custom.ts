@@ -0,0 +1,110 @@
+// lib/grading/custom.ts
+// Settle a CUSTOM or OUTRIGHT market by hand. There's no score to grade it
+// from, so an admin names the winning selections (or voids the market) and
+// each selection's pending wagers and parlay legs settle through the bulk
+// settlement path, ledger entries and all.
+import { Prisma } from "@prisma/client";
+import {
+  applyBulkSettlement,
+  BulkSettlement,
+  BulkSettlementItem,
+} from "./bulk";
+
+export interface CustomMarketSettlement {
+  marketId: string;
+  winners: string[]; // empty when the market was voided
+  items: BulkSettlementItem[];
+  totalStakeCents: number;
+  totalPayoutCents: number;
+}
+
+// `winners` are selection labels; null voids every wager on the market.
+// Must be called with a transaction client so the whole market settles or
+// none of it does.
+export async function settleCustomMarket(
+  tx: Prisma.TransactionClient,
+  marketId: string,
+  winners: string[] | null
+): Promise<CustomMarketSettlement> {
+  // Lock the market so it can't be settled twice at once
+  await tx.$queryRaw`SELECT id FROM "Market" WHERE id = ${marketId} FOR UPDATE`;
+
+  const market = await tx.market.findUnique({
+    where: { id: marketId },
+    include: {
+      event: true,
+      lines: { select: { label: true }, distinct: ["label"] },
+    },
+  });
+
+  if (!market || (market.type !== "CUSTOM" && market.type !== "OUTRIGHT")) {
+    throw new Error("Custom market not found");
+  }
+
+  if (market.settledAt) {
+    throw new Error("Market is already settled");
+  }
+
+  const labels = market.lines
+    .map((line) => line.label)
+    .filter((label): label is string => label !== null);
+
+  const unknown = (winners ?? []).find((label) => !labels.includes(label));
+  if (unknown !== undefined) {
+    throw new Error(`Unknown selection: ${unknown}`);
+  }
+
+  const target = { eventId: market.eventId, marketId };
+  const settlements: BulkSettlement[] = [];
+
+  if (winners === null) {
+    settlements.push(await applyBulkSettlement(tx, target, "VOID"));
+  } else {
+    for (const label of labels) {
+      settlements.push(
+        await applyBulkSettlement(
+          tx,
+          { ...target, label },
+          winners.includes(label) ? "WON" : "LOST"
+        )
+      );
+    }
+  }
+
+  await tx.market.update({
+    where: { id: marketId },
+    data: { settledAt: new Date() },
+  });
+
+  // A standalone event or future is over once its last market is settled
+  if (market.event.title !== null) {
+    const openMarkets = await tx.market.count({
+      where: { eventId: market.eventId, settledAt: null },
+    });
+
+    if (openMarkets === 0) {
+      await tx.event.update({
+        where: { id: market.eventId },
+        data: {
+          status: "FINAL",
+          completedAt: new Date(),
+          gradedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  return {
+    marketId,
+    winners: winners ?? [],
+    items: settlements.flatMap((settlement) => settlement.items),
+    totalStakeCents: settlements.reduce(
+      (sum, settlement) => sum + settlement.totalStakeCents,
+      0
+    ),
+    totalPayoutCents: settlements.reduce(
+      (sum, settlement) => sum + settlement.totalPayoutCents,
+      0
+    ),
+  };
+}
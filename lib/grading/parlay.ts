@@ -0,0 +1,78 @@
+// lib/grading/parlay.ts
+// Pure parlay math: combining American prices and resolving a parlay from its legs.
+
+// CANCELLED only appears on legs of a cancelled parlay, which is never
+// evaluated again; like a void leg it wouldn't count
+export type LegStatus =
+  | "PENDING"
+  | "WON"
+  | "LOST"
+  | "PUSH"
+  | "VOID"
+  | "CANCELLED";
+
+export interface ParlayLegState {
+  status: LegStatus;
+  acceptedPrice: number;
+}
+
+export type ParlayEvaluation =
+  | { status: "PENDING" }
+  | { status: "LOST" }
+  | { status: "PUSH" } // every leg pushed or voided
+  | { status: "WON"; price: number; legsCounted: number };
+
+// American odds -> decimal odds (e.g. -110 -> 1.909, +150 -> 2.5)
+export function americanToDecimal(americanOdds: number): number {
+  if (americanOdds > 0) {
+    return 1 + americanOdds / 100;
+  }
+  return 1 + 100 / Math.abs(americanOdds);
+}
+
+// Decimal odds -> American odds, rounded to the nearest whole price
+export function decimalToAmerican(decimalOdds: number): number {
+  if (decimalOdds <= 1) {
+    throw new Error(`Invalid decimal odds: ${decimalOdds}`);
+  }
+  if (decimalOdds >= 2) {
+    return Math.round((decimalOdds - 1) * 100);
+  }
+  return Math.round(-100 / (decimalOdds - 1));
+}
+
+// Combined American price of a parlay: multiply the legs' decimal odds
+export function combineAmericanPrices(prices: number[]): number {
+  if (prices.length === 0) {
+    throw new Error("Cannot combine an empty set of prices");
+  }
+  const combinedDecimal = prices.reduce(
+    (product, price) => product * americanToDecimal(price),
+    1
+  );
+  return decimalToAmerican(combinedDecimal);
+}
+
+// Resolve a parlay from its legs. Any lost leg loses the parlay; pushed and
+// voided legs are dropped and the price is recomputed from the legs that won.
+export function evaluateParlay(legs: ParlayLegState[]): ParlayEvaluation {
+  if (legs.some((leg) => leg.status === "LOST")) {
+    return { status: "LOST" };
+  }
+
+  if (legs.some((leg) => leg.status === "PENDING")) {
+    return { status: "PENDING" };
+  }
+
+  const winningLegs = legs.filter((leg) => leg.status === "WON");
+
+  if (winningLegs.length === 0) {
+    return { status: "PUSH" };
+  }
+
+  return {
+    status: "WON",
+    price: combineAmericanPrices(winningLegs.map((leg) => leg.acceptedPrice)),
+    legsCounted: winningLegs.length,
+  };
+}
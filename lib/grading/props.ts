@@ -0,0 +1,92 @@
+// lib/grading/props.ts
+// Settle one player's PLAYER_PROP wagers from their final stat. The scores
+// feed only has team scores, so an admin enters the stat; every over/under
+// number taken on the player is graded against it and settled through the
+// bulk settlement path, ledger entries and all.
+import { Prisma } from "@prisma/client";
+import {
+  applyBulkSettlement,
+  BulkSettlement,
+  BulkSettlementItem,
+} from "./bulk";
+import { gradePlayerProp, SelectionKey } from "./rules";
+
+export interface PlayerPropSettlement {
+  marketId: string;
+  participant: string;
+  statValue: number | null; // null when the player's wagers were voided
+  items: BulkSettlementItem[];
+  totalStakeCents: number;
+  totalPayoutCents: number;
+}
+
+// `statValue` null voids the player's wagers (e.g. they didn't play). Must
+// be called with a transaction client so the player settles as a whole.
+export async function settlePlayerProp(
+  tx: Prisma.TransactionClient,
+  marketId: string,
+  participant: string,
+  statValue: number | null
+): Promise<PlayerPropSettlement> {
+  // Lock the market so a player can't be settled twice at once
+  await tx.$queryRaw`SELECT id FROM "Market" WHERE id = ${marketId} FOR UPDATE`;
+
+  const market = await tx.market.findUnique({
+    where: { id: marketId },
+    include: {
+      lines: {
+        where: { participant },
+        select: { selectionKey: true, point: true },
+        distinct: ["selectionKey", "point"],
+      },
+    },
+  });
+
+  if (!market || market.type !== "PLAYER_PROP") {
+    throw new Error("Player prop market not found");
+  }
+
+  if (market.lines.length === 0) {
+    throw new Error(`Unknown player: ${participant}`);
+  }
+
+  const target = { eventId: market.eventId, marketId, participant };
+  const settlements: BulkSettlement[] = [];
+
+  if (statValue === null) {
+    settlements.push(await applyBulkSettlement(tx, target, "VOID"));
+  } else {
+    for (const line of market.lines) {
+      const point = line.point !== null ? Number(line.point) : null;
+
+      settlements.push(
+        await applyBulkSettlement(
+          tx,
+          { ...target, selectionKey: line.selectionKey, point },
+          point !== null
+            ? gradePlayerProp(
+                line.selectionKey as SelectionKey,
+                point,
+                statValue
+              )
+            : "VOID"
+        )
+      );
+    }
+  }
+
+  return {
+    marketId,
+    participant,
+    statValue,
+    items: settlements.flatMap((settlement) => settlement.items),
+    totalStakeCents: settlements.reduce(
+      (sum, settlement) => sum + settlement.totalStakeCents,
+      0
+    ),
+    totalPayoutCents: settlements.reduce(
+      (sum, settlement) => sum + settlement.totalPayoutCents,
+      0
+    ),
+  };
+}
@@ -0,0 +1,139 @@
+// lib/grading/regrade.ts
+// Correct the result of an already-settled wager: take back what the old
+// result credited, settle it again with the new one and log the change.
+import { Prisma, WagerGradeChange } from "@prisma/client";
+import { postLedgerEntry } from "../ledger/service";
+import { evaluateParlay } from "./parlay";
+import { SettlementResult, settleWager } from "./settle";
+
+const SETTLED_STATUSES = ["WON", "LOST", "PUSH", "VOID"];
+
+export interface RegradeOptions {
+  changedById: string;
+  reason: string;
+  // A parlay's corrected legs; its new result must follow from them
+  legResults?: { legId: string; result: SettlementResult }[];
+}
+
+export interface RegradeResult {
+  gradeChange: WagerGradeChange;
+  balanceChange: number; // net effect on the bettor's balance
+}
+
+// Must be called with a transaction client so the reversal, the new
+// settlement and the history row commit together.
+export async function regradeWager(
+  tx: Prisma.TransactionClient,
+  wagerId: string,
+  result: SettlementResult,
+  { changedById, reason, legResults = [] }: RegradeOptions
+): Promise<RegradeResult> {
+  // Lock the wager so two regrades can't both reverse the same settlement
+  await tx.$queryRaw`SELECT id FROM "Wager" WHERE id = ${wagerId} FOR UPDATE`;
+
+  const wager = await tx.wager.findUnique({
+    where: { id: wagerId },
+    include: { ledgerEntries: true, legs: true },
+  });
+
+  if (!wager) {
+    throw new Error("Wager not found");
+  }
+
+  if (!SETTLED_STATUSES.includes(wager.status)) {
+    throw new Error(
+      `Cannot regrade wager: it is ${wager.status.toLowerCase()}, not settled`
+    );
+  }
+
+  if (wager.status === result) {
+    throw new Error(`Cannot regrade wager: it is already ${result}`);
+  }
+
+  const corrected = new Map(legResults.map((leg) => [leg.legId, leg.result]));
+  if (wager.type !== "PARLAY" && corrected.size > 0) {
+    throw new Error("Cannot regrade wager: only parlays have legs");
+  }
+  if (legResults.some((leg) => !wager.legs.some((l) => l.id === leg.legId))) {
+    throw new Error("Cannot regrade wager: a leg isn't on this parlay");
+  }
+
+  const legs = wager.legs.map((leg) => ({
+    ...leg,
+    status: corrected.get(leg.id) ?? leg.status,
+  }));
+
+  // A parlay's result comes from its legs, so they're corrected with it. A
+  // parlay of pushed and voided legs may be settled either way.
+  const evaluation = wager.type === "PARLAY" ? evaluateParlay(legs) : null;
+  if (
+    evaluation &&
+    evaluation.status !== result &&
+    !(evaluation.status === "PUSH" && result === "VOID")
+  ) {
+    throw new Error(
+      `Cannot regrade wager: its legs grade it ${evaluation.status}, not ${result}`
+    );
+  }
+
+  // Whatever settlement (and earlier regrades) credited, net of reversals
+  const reversedCents = wager.ledgerEntries
+    .filter((entry) => entry.type !== "WAGER_STAKE")
+    .reduce((sum, entry) => sum + entry.amountCents, 0);
+
+  if (reversedCents > 0) {
+    // The winnings may already be staked elsewhere, so this can overdraw
+    await postLedgerEntry(
+      tx,
+      {
+        userId: wager.userId,
+        wagerId: wager.id,
+        type: "SETTLEMENT_REVERSAL",
+        amountCents: -reversedCents,
+        description: `Reversed ${wager.status} settlement of wager ${wager.id}`,
+      },
+      { allowOverdraft: true }
+    );
+  }
+
+  await tx.wager.update({
+    where: { id: wager.id },
+    data: { status: "PENDING", settledAt: null },
+  });
+
+  for (const leg of wager.legs) {
+    const legResult = corrected.get(leg.id);
+    if (legResult && legResult !== leg.status) {
+      await tx.wagerLeg.update({
+        where: { id: leg.id },
+        data: { status: legResult, settledAt: new Date() },
+      });
+    }
+  }
+
+  // A parlay regraded to WON pays at the price of the legs that won, as
+  // it would have when graded leg by leg
+  const settlement = await settleWager(
+    tx,
+    wager.id,
+    result,
+    evaluation?.status === "WON" ? { payoutPrice: evaluation.price } : {}
+  );
+
+  const gradeChange = await tx.wagerGradeChange.create({
+    data: {
+      wagerId: wager.id,
+      fromStatus: wager.status,
+      toStatus: result,
+      reason,
+      changedById,
+      reversedCents: Math.max(reversedCents, 0),
+      paidCents: settlement.balanceChange,
+    },
+  });
+
+  return {
+    gradeChange,
+    balanceChange: settlement.balanceChange - Math.max(reversedCents, 0),
+  };
+}
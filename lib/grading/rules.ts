@@ -0,0 +1,139 @@
+// lib/grading/rules.ts
+// Pure grading rules: given a final score and a wager's selection/point,
+// decide whether it won, lost or pushed. No IO in here.
+
+// CUSTOM and OUTRIGHT markets have no rule: an admin settles them by hand.
+// PLAYER_PROP markets are graded from the player's stat, which the scores
+// feed lacks.
+export type MarketKind =
+  | "MONEYLINE"
+  | "SPREAD"
+  | "TOTAL"
+  | "CUSTOM"
+  | "PLAYER_PROP"
+  | "ALT_SPREAD"
+  | "ALT_TOTAL"
+  | "OUTRIGHT";
+export type SelectionKey =
+  | "HOME"
+  | "AWAY"
+  | "DRAW"
+  | "OVER"
+  | "UNDER"
+  | "CUSTOM";
+export type GradeOutcome = "WON" | "LOST" | "PUSH";
+
+export interface FinalScore {
+  homeScore: number;
+  awayScore: number;
+}
+
+// Moneyline: the selected side must win outright. A tie is a push, unless
+// the market is three-way (it quotes a DRAW), where only the draw wins.
+export function gradeMoneyline(
+  selection: SelectionKey,
+  score: FinalScore,
+  threeWay = false
+): GradeOutcome {
+  const tied = score.homeScore === score.awayScore;
+
+  if (selection === "DRAW") {
+    if (!threeWay) {
+      throw new Error("Invalid moneyline selection: DRAW on a two-way market");
+    }
+    return tied ? "WON" : "LOST";
+  }
+
+  if (selection !== "HOME" && selection !== "AWAY") {
+    throw new Error(`Invalid moneyline selection: ${selection}`);
+  }
+
+  if (tied) return threeWay ? "LOST" : "PUSH";
+
+  const homeWon = score.homeScore > score.awayScore;
+  return (selection === "HOME") === homeWon ? "WON" : "LOST";
+}
+
+// Spread: add the accepted point to the selected team's margin
+export function gradeSpread(
+  selection: SelectionKey,
+  point: number,
+  score: FinalScore
+): GradeOutcome {
+  if (selection !== "HOME" && selection !== "AWAY") {
+    throw new Error(`Invalid spread selection: ${selection}`);
+  }
+
+  const margin =
+    selection === "HOME"
+      ? score.homeScore - score.awayScore
+      : score.awayScore - score.homeScore;
+  const adjustedMargin = margin + point;
+
+  if (adjustedMargin > 0) return "WON";
+  if (adjustedMargin < 0) return "LOST";
+  return "PUSH";
+}
+
+// Total: compare combined points against the accepted point
+export function gradeTotal(
+  selection: SelectionKey,
+  point: number,
+  score: FinalScore
+): GradeOutcome {
+  if (selection !== "OVER" && selection !== "UNDER") {
+    throw new Error(`Invalid total selection: ${selection}`);
+  }
+
+  const totalPoints = score.homeScore + score.awayScore;
+
+  if (totalPoints === point) return "PUSH";
+
+  const wentOver = totalPoints > point;
+  return (selection === "OVER") === wentOver ? "WON" : "LOST";
+}
+
+// Player prop: compare the player's stat against the accepted point
+export function gradePlayerProp(
+  selection: SelectionKey,
+  point: number,
+  statValue: number
+): GradeOutcome {
+  if (selection !== "OVER" && selection !== "UNDER") {
+    throw new Error(`Invalid player prop selection: ${selection}`);
+  }
+
+  if (statValue === point) return "PUSH";
+
+  const wentOver = statValue > point;
+  return (selection === "OVER") === wentOver ? "WON" : "LOST";
+}
+
+// Dispatch on market type. Spread and total wagers need their accepted point;
+// threeWay says whether a moneyline market quotes a draw.
+export function gradeSelection(
+  marketType: MarketKind,
+  selection: SelectionKey,
+  point: number | null,
+  score: FinalScore,
+  threeWay = false
+): GradeOutcome {
+  switch (marketType) {
+    case "MONEYLINE":
+      return gradeMoneyline(selection, score, threeWay);
+    case "SPREAD":
+    case "ALT_SPREAD":
+      if (point === null) {
+        throw new Error("Spread wager is missing its accepted point");
+      }
+      return gradeSpread(selection, point, score);
+    case "TOTAL":
+    case "ALT_TOTAL":
+      if (point === null) {
+        throw new Error("Total wager is missing its accepted point");
+      }
+      return gradeTotal(selection, point, score);
+    default:
+      throw new Error(`Unsupported market type: ${marketType}`);
+  }
+}
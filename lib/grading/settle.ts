@@ -0,0 +1,426 @@
+// lib/grading/settle.ts
+// Settlement: wager status + ledger entry (which moves the balance), always
+// inside a transaction.
+import { LedgerEntry, MarketType, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { postLedgerEntry } from "../ledger/service";
+import { gradeSelection, MarketKind, SelectionKey } from "./rules";
+import { evaluateParlay } from "./parlay";
+import { recordClosingLines } from "../clv/record";
+import { gradeEventPeerBets } from "../peer-bets/escrow";
+
+export type SettlementResult = "WON" | "LOST" | "PUSH" | "VOID";
+
+// Settled by an admin rather than from the final score
+const MANUAL_MARKETS: MarketType[] = ["CUSTOM", "PLAYER_PROP", "OUTRIGHT"];
+
+// Moneyline markets on an event that quote a draw (soccer). On these a tie
+// loses HOME and AWAY instead of pushing them.
+async function threeWayMarketIds(
+  tx: Prisma.TransactionClient,
+  eventId: string
+): Promise<Set<string>> {
+  const drawLines = await tx.line.findMany({
+    where: { selectionKey: "DRAW", market: { eventId, type: "MONEYLINE" } },
+    select: { marketId: true },
+    distinct: ["marketId"],
+  });
+  return new Set(drawLines.map((line) => line.marketId));
+}
+
+// Calculate payout (stake + winnings) based on American odds
+export function calculatePayout(
+  stakeCents: number,
+  americanOdds: number
+): number {
+  if (americanOdds > 0) {
+    // Positive odds: (stake * odds) / 100 + stake
+    return Math.round((stakeCents * americanOdds) / 100 + stakeCents);
+  } else {
+    // Negative odds: (stake * 100) / |odds| + stake
+    return Math.round((stakeCents * 100) / Math.abs(americanOdds) + stakeCents);
+  }
+}
+
+export interface SettleOptions {
+  // Price to pay a WON wager at, when it differs from the accepted price
+  // (e.g. a parlay whose pushed legs were dropped)
+  payoutPrice?: number;
+}
+
+// Settle a single PENDING wager. Must be called with a transaction client so
+// the status change, ledger entry and balance update commit together.
+export async function settleWager(
+  tx: Prisma.TransactionClient,
+  wagerId: string,
+  result: SettlementResult,
+  { payoutPrice }: SettleOptions = {}
+) {
+  // First, fetch the current wager to validate it exists and check status
+  const existingWager = await tx.wager.findUnique({
+    where: { id: wagerId },
+  });
+
+  if (!existingWager) {
+    throw new Error("Wager not found");
+  }
+
+  // Check if wager is already settled
+  if (existingWager.status !== "PENDING") {
+    throw new Error(
+      `Wager is already settled with status: ${existingWager.status}`
+    );
+  }
+
+  // Conditional update, so a concurrent settle, cancel or regrade that got
+  // there first isn't overwritten (and paid again)
+  const { count } = await tx.wager.updateMany({
+    where: { id: wagerId, status: "PENDING" },
+    data: { status: result, settledAt: new Date() },
+  });
+
+  if (count !== 1) {
+    throw new Error("Wager is already settled");
+  }
+
+  const wager = await tx.wager.findUniqueOrThrow({
+    where: { id: wagerId },
+    include: {
+      user: true,
+      line: true,
+    },
+  });
+
+  let ledgerEntry: LedgerEntry | null = null;
+  let balanceChange = 0;
+
+  // Create appropriate ledger entry based on result
+  switch (result) {
+    case "WON": {
+      // Calculate payout (stake + winnings)
+      const price = payoutPrice ?? wager.acceptedPrice;
+      const payoutCents = calculatePayout(wager.stakeCents, price);
+      balanceChange = payoutCents;
+
+      ({ entry: ledgerEntry } = await postLedgerEntry(tx, {
+        userId: wager.userId,
+        wagerId: wager.id,
+        type: "WAGER_PAYOUT",
+        amountCents: payoutCents,
+        description:
+          price === wager.acceptedPrice
+            ? `Payout for winning wager ${wager.id}`
+            : `Payout for winning wager ${wager.id} (repriced to ${
+                price > 0 ? "+" : ""
+              }${price} after dropped legs)`,
+      }));
+      break;
+    }
+
+    case "PUSH": {
+      // Refund the original stake
+      balanceChange = wager.stakeCents;
+
+      ({ entry: ledgerEntry } = await postLedgerEntry(tx, {
+        userId: wager.userId,
+        wagerId: wager.id,
+        type: "WAGER_REFUND",
+        amountCents: wager.stakeCents,
+        description: `Refund for pushed wager ${wager.id}`,
+      }));
+      break;
+    }
+
+    case "VOID": {
+      // Refund the original stake (same as push)
+      balanceChange = wager.stakeCents;
+
+      ({ entry: ledgerEntry } = await postLedgerEntry(tx, {
+        userId: wager.userId,
+        wagerId: wager.id,
+        type: "WAGER_REFUND",
+        amountCents: wager.stakeCents,
+        description: `Refund for voided wager ${wager.id}`,
+      }));
+      break;
+    }
+
+    case "LOST":
+      // No payout or refund needed - stake was already deducted when wager was placed
+      break;
+
+    default:
+      throw new Error(`Unexpected result type: ${result}`);
+  }
+
+  return {
+    wager,
+    ledgerEntry,
+    balanceChange,
+  };
+}
+
+// Settle one leg of a PENDING parlay, then settle the parlay itself once its
+// outcome is decided by the legs.
+export async function settleParlayLeg(
+  tx: Prisma.TransactionClient,
+  legId: string,
+  result: SettlementResult
+) {
+  const existingLeg = await tx.wagerLeg.findUnique({
+    where: { id: legId },
+    include: { wager: true },
+  });
+
+  if (!existingLeg) {
+    throw new Error("Wager leg not found");
+  }
+
+  if (existingLeg.wager.status !== "PENDING") {
+    throw new Error(
+      `Wager is already settled with status: ${existingLeg.wager.status}`
+    );
+  }
+
+  if (existingLeg.status !== "PENDING") {
+    throw new Error(
+      `Wager leg is already settled with status: ${existingLeg.status}`
+    );
+  }
+
+  // Conditional update, as for wagers in settleWager
+  const { count } = await tx.wagerLeg.updateMany({
+    where: { id: legId, status: "PENDING", wager: { status: "PENDING" } },
+    data: { status: result, settledAt: new Date() },
+  });
+
+  if (count !== 1) {
+    throw new Error("Wager leg is already settled");
+  }
+
+  const leg = await tx.wagerLeg.findUniqueOrThrow({ where: { id: legId } });
+
+  const legs = await tx.wagerLeg.findMany({
+    where: { wagerId: leg.wagerId },
+  });
+
+  const evaluation = evaluateParlay(legs);
+
+  if (evaluation.status === "PENDING") {
+    return { leg, settlement: null };
+  }
+
+  const settlement = await settleWager(
+    tx,
+    leg.wagerId,
+    evaluation.status,
+    evaluation.status === "WON" ? { payoutPrice: evaluation.price } : {}
+  );
+
+  return { leg, settlement };
+}
+
+export interface GradedWager {
+  wagerId: string;
+  userId: string;
+  result: SettlementResult;
+  balanceChange: number;
+}
+
+export interface GradedLeg {
+  legId: string;
+  wagerId: string;
+  result: SettlementResult;
+  parlayResult: SettlementResult | null;
+}
+
+export interface EventGradingResult {
+  eventId: string;
+  wagersGraded: number;
+  legsGraded: number;
+  peerBetsSettled: number;
+  peerBetsCancelled: number;
+  wagers: GradedWager[];
+  legs: GradedLeg[];
+}
+
+// Grade every PENDING wager on a FINAL event from its recorded score.
+// Safe to re-run: settled wagers are skipped and the event row is locked
+// for the duration of the transaction.
+export async function gradeEvent(eventId: string): Promise<EventGradingResult> {
+  return prisma.$transaction(
+    async (tx: Prisma.TransactionClient) => {
+      await tx.$queryRaw`SELECT id FROM "Event" WHERE id = ${eventId} FOR UPDATE`;
+
+      const event = await tx.event.findUnique({
+        where: { id: eventId },
+      });
+
+      if (!event) {
+        throw new Error("Event not found");
+      }
+
+      if (event.status !== "FINAL") {
+        throw new Error(`Event is not final (status: ${event.status})`);
+      }
+
+      if (event.homeScore === null || event.awayScore === null) {
+        throw new Error("Event has no final score recorded");
+      }
+
+      const score = {
+        homeScore: event.homeScore,
+        awayScore: event.awayScore,
+      };
+
+      // Snapshot closing lines before the wagers are settled
+      await recordClosingLines(tx, eventId);
+
+      const threeWay = await threeWayMarketIds(tx, eventId);
+
+      // Custom markets and player props are settled by an admin
+      const pendingWagers = await tx.wager.findMany({
+        where: {
+          status: "PENDING",
+          line: { market: { eventId, type: { notIn: MANUAL_MARKETS } } },
+        },
+        include: {
+          line: { include: { market: true } },
+        },
+      });
+
+      const graded: GradedWager[] = [];
+
+      for (const wager of pendingWagers) {
+        if (!wager.line) continue;
+
+        const outcome = gradeSelection(
+          wager.line.market.type as MarketKind,
+          wager.line.selectionKey as SelectionKey,
+          wager.acceptedPoint !== null ? Number(wager.acceptedPoint) : null,
+          score,
+          threeWay.has(wager.line.marketId)
+        );
+
+        const settlement = await settleWager(tx, wager.id, outcome);
+        graded.push({
+          wagerId: wager.id,
+          userId: wager.userId,
+          result: outcome,
+          balanceChange: settlement.balanceChange,
+        });
+      }
+
+      // Parlay legs on this event; the parlay settles once its last leg does
+      const pendingLegs = await tx.wagerLeg.findMany({
+        where: {
+          status: "PENDING",
+          wager: { status: "PENDING" },
+          line: { market: { eventId, type: { notIn: MANUAL_MARKETS } } },
+        },
+        include: {
+          line: { include: { market: true } },
+        },
+      });
+
+      const gradedLegs: GradedLeg[] = [];
+
+      for (const leg of pendingLegs) {
+        const outcome = gradeSelection(
+          leg.line.market.type as MarketKind,
+          leg.line.selectionKey as SelectionKey,
+          leg.acceptedPoint !== null ? Number(leg.acceptedPoint) : null,
+          score,
+          threeWay.has(leg.line.marketId)
+        );
+
+        // An earlier leg in this loop may already have settled the parlay
+        const parlay = await tx.wager.findUnique({
+          where: { id: leg.wagerId },
+          select: { status: true },
+        });
+        if (parlay?.status !== "PENDING") continue;
+
+        const { settlement } = await settleParlayLeg(tx, leg.id, outcome);
+        gradedLegs.push({
+          legId: leg.id,
+          wagerId: leg.wagerId,
+          result: outcome,
+          parlayResult: settlement
+            ? (settlement.wager.status as SettlementResult)
+            : null,
+        });
+      }
+
+      // Peer bets pay out of escrow; offers nobody took are refunded
+      const peerBetGrading = await gradeEventPeerBets(tx, eventId, score);
+
+      await tx.event.update({
+        where: { id: eventId },
+        data: { gradedAt: new Date() },
+      });
+
+      return {
+        eventId,
+        wagersGraded: graded.length,
+        legsGraded: gradedLegs.length,
+        ...peerBetGrading,
+        wagers: graded,
+        legs: gradedLegs,
+      };
+    },
+    {
+      timeout: 30000, // 30 seconds timeout per event
+    }
+  );
+}
+
+// Grade all FINAL events that still have PENDING wagers or parlay legs, or
+// open or matched peer bets
+export async function gradeFinalEvents(): Promise<EventGradingResult[]> {
+  const events = await prisma.event.findMany({
+    where: {
+      status: "FINAL",
+      homeScore: { not: null },
+      awayScore: { not: null },
+      markets: {
+        some: {
+          type: { notIn: MANUAL_MARKETS },
+          lines: {
+            some: {
+              OR: [
+                { wagers: { some: { status: "PENDING" } } },
+                // Legs of a parlay that already lost stay PENDING
+                {
+                  wagerLegs: {
+                    some: { status: "PENDING", wager: { status: "PENDING" } },
+                  },
+                },
+                {
+                  peerBets: {
+                    some: { status: { in: ["OPEN", "MATCHED"] } },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+    select: { id: true },
+    orderBy: { startsAt: "asc" },
+  });
+
+  const results: EventGradingResult[] = [];
+
+  for (const event of events) {
+    try {
+      results.push(await gradeEvent(event.id));
+    } catch (error) {
+      console.error(`Error grading event ${event.id}:`, error);
+      // Continue grading other events
+    }
+  }
+
+  return results;
+}
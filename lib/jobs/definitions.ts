@@ -0,0 +1,152 @@
+// lib/jobs/definitions.ts
+// The worker's scheduled jobs. Schedules are cron expressions and can be
+// overridden per job through the env var named in `scheduleEnv`.
+import { gradeFinalEvents } from "../grading/settle";
+import { reconcileLedger } from "../ledger/reconcile";
+import { getOddsFetcher } from "../odds/fetcher";
+import { markStartedEventsLive, syncScores } from "../odds/scores";
+import { syncOdds } from "../odds/sync";
+
+export interface JobDefinition {
+  name: string;
+  description: string;
+  defaultSchedule: string;
+  scheduleEnv: string;
+  run: () => Promise<object>;
+}
+
+// Sports to sync, e.g. WORKER_SPORTS=americanfootball_nfl,baseball_mlb
+export function getWorkerSports(): string[] {
+  return (process.env.WORKER_SPORTS || "americanfootball_nfl")
+    .split(",")
+    .map((sport) => sport.trim())
+    .filter(Boolean);
+}
+
+// Futures to sync outrights for, e.g.
+// WORKER_FUTURES=americanfootball_nfl_super_bowl_winner; none by default
+export function getWorkerFutures(): string[] {
+  return (process.env.WORKER_FUTURES || "")
+    .split(",")
+    .map((sport) => sport.trim())
+    .filter(Boolean);
+}
+
+// Run fn for every configured sport; one sport failing fails the run, but
+// only after the others have had their turn
+async function forEachSport<T>(
+  fn: (sport: string) => Promise<T>,
+  sports: string[] = getWorkerSports()
+): Promise<Record<string, T>> {
+  const results: Record<string, T> = {};
+  const failures: string[] = [];
+
+  for (const sport of sports) {
+    try {
+      results[sport] = await fn(sport);
+    } catch (error) {
+      console.error(`Job step failed for ${sport}:`, error);
+      failures.push(
+        `${sport}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(failures.join("; "));
+  }
+
+  return results;
+}
+
+export const JOBS: JobDefinition[] = [
+  {
+    name: "odds-sync",
+    description: "Pull the latest lines for the configured sports and futures",
+    defaultSchedule: "*/15 * * * *",
+    scheduleEnv: "ODDS_SYNC_CRON",
+    run: async () => {
+      const fetcher = getOddsFetcher();
+      const futures = getWorkerFutures();
+      return forEachSport(
+        (sport) =>
+          syncOdds(
+            sport,
+            futures.includes(sport) ? { markets: "outrights" } : {},
+            fetcher
+          ),
+        [...getWorkerSports(), ...futures]
+      );
+    },
+  },
+  {
+    name: "scores-sync",
+    description:
+      "Mark started events LIVE, apply scores and grade newly final events",
+    defaultSchedule: "*/5 * * * *",
+    scheduleEnv: "SCORES_SYNC_CRON",
+    run: async () => {
+      const eventsStarted = await markStartedEventsLive();
+      const fetcher = getOddsFetcher();
+      const sports = await forEachSport(async (sport) => {
+        const result = await syncScores(sport, { fetcher });
+        return {
+          eventsMatched: result.eventsMatched,
+          eventsLive: result.eventsLive,
+          eventsFinalized: result.eventsFinalized,
+          wagersGraded: result.grading.reduce(
+            (sum, event) => sum + event.wagersGraded,
+            0
+          ),
+        };
+      });
+      return { eventsStarted: eventsStarted.length, sports };
+    },
+  },
+  {
+    name: "grade",
+    description: "Grade pending wagers on FINAL events",
+    defaultSchedule: "* * * * *",
+    scheduleEnv: "GRADE_CRON",
+    run: async () => {
+      const results = await gradeFinalEvents();
+      return {
+        eventsGraded: results.length,
+        wagersGraded: results.reduce((sum, r) => sum + r.wagersGraded, 0),
+        legsGraded: results.reduce((sum, r) => sum + r.legsGraded, 0),
+        peerBetsSettled: results.reduce(
+          (sum, r) => sum + r.peerBetsSettled,
+          0
+        ),
+      };
+    },
+  },
+  {
+    name: "ledger-reconcile",
+    description: "Check every user's ledger entries against their balance",
+    defaultSchedule: "0 4 * * *",
+    scheduleEnv: "LEDGER_RECONCILE_CRON",
+    run: async () => {
+      const report = await reconcileLedger();
+      const byKind: Record<string, number> = {};
+      for (const discrepancy of report.discrepancies) {
+        byKind[discrepancy.kind] = (byKind[discrepancy.kind] ?? 0) + 1;
+      }
+      if (report.discrepancies.length > 0) {
+        console.warn(
+          `Ledger reconciliation found ${report.discrepancies.length} discrepancies`
+        );
+      }
+      return {
+        usersChecked: report.usersChecked,
+        wagersChecked: report.wagersChecked,
+        discrepancies: report.discrepancies.length,
+        byKind,
+      };
+    },
+  },
+];
+
+export function getJobSchedule(job: JobDefinition): string {
+  return process.env[job.scheduleEnv] || job.defaultSchedule;
+}
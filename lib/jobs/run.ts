@@ -0,0 +1,65 @@
+// lib/jobs/run.ts
+// Wraps a background job so every execution leaves a JobRun record.
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db";
+
+export interface JobRunResult<T> {
+  jobRunId: string;
+  status: "SUCCEEDED" | "FAILED";
+  result: T | null;
+  error: string | null;
+}
+
+// Run fn as job `name`. Failures are recorded and returned, not thrown, so a
+// scheduler can keep going.
+export async function runJob<T extends object>(
+  name: string,
+  fn: () => Promise<T>
+): Promise<JobRunResult<T>> {
+  const jobRun = await prisma.jobRun.create({
+    data: { job: name },
+  });
+  const startedAt = Date.now();
+
+  console.log(`[${name}] started (run ${jobRun.id})`);
+
+  try {
+    const result = await fn();
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "SUCCEEDED",
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedAt,
+        // Round-trip through JSON so Dates etc. become plain values
+        summary: JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue,
+      },
+    });
+
+    console.log(`[${name}] succeeded in ${Date.now() - startedAt}ms`);
+
+    return { jobRunId: jobRun.id, status: "SUCCEEDED", result, error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+
+    console.error(`[${name}] failed:`, error);
+
+    await prisma.jobRun.update({
+      where: { id: jobRun.id },
+      data: {
+        status: "FAILED",
+        finishedAt: new Date(),
+        durationMs: Date.now() - startedAt,
+        error: message,
+      },
+    });
+
+    return {
+      jobRunId: jobRun.id,
+      status: "FAILED",
+      result: null,
+      error: message,
+    };
+  }
+}
@@ -0,0 +1,87 @@
+// lib/ledger/locked.ts
+// Money a user has riding on bets that haven't settled. Stakes leave
+// User.balanceCents when a bet is placed, so this is on top of the balance,
+// not part of it. Futures can stay open for months, so their share is
+// reported on its own.
+import { Prisma } from "@prisma/client";
+
+export interface LockedBalance {
+  lockedCents: number; // pending wager stakes plus peer bet stakes in escrow
+  futuresLockedCents: number; // the part of lockedCents on OUTRIGHT markets
+}
+
+export async function getLockedBalances(
+  tx: Prisma.TransactionClient,
+  userIds: string[]
+): Promise<Map<string, LockedBalance>> {
+  const marketTypeSelect = {
+    select: { market: { select: { type: true } } },
+  } as const;
+
+  const [pendingWagers, peerBets] = await Promise.all([
+    tx.wager.findMany({
+      where: { userId: { in: userIds }, status: "PENDING" },
+      select: {
+        userId: true,
+        stakeCents: true,
+        line: marketTypeSelect,
+        legs: { select: { line: marketTypeSelect } },
+      },
+    }),
+    // Peer bets with a stake still in escrow
+    tx.peerBet.findMany({
+      where: {
+        OR: [
+          { proposerId: { in: userIds }, status: { in: ["OPEN", "MATCHED"] } },
+          { takerId: { in: userIds }, status: "MATCHED" },
+        ],
+      },
+      select: {
+        proposerId: true,
+        takerId: true,
+        status: true,
+        proposerStakeCents: true,
+        takerStakeCents: true,
+      },
+    }),
+  ]);
+
+  const balances = new Map<string, LockedBalance>(
+    userIds.map((userId) => [userId, { lockedCents: 0, futuresLockedCents: 0 }])
+  );
+
+  for (const wager of pendingWagers) {
+    const balance = balances.get(wager.userId)!;
+    balance.lockedCents += wager.stakeCents;
+
+    // A parlay with a futures leg is held until that leg settles
+    const marketTypes = wager.line
+      ? [wager.line.market.type]
+      : wager.legs.map((leg) => leg.line.market.type);
+    if (marketTypes.includes("OUTRIGHT")) {
+      balance.futuresLockedCents += wager.stakeCents;
+    }
+  }
+
+  // Peer bets are never on futures
+  for (const peerBet of peerBets) {
+    const proposer = balances.get(peerBet.proposerId);
+    if (proposer) {
+      proposer.lockedCents += peerBet.proposerStakeCents;
+    }
+
+    const taker = peerBet.takerId ? balances.get(peerBet.takerId) : undefined;
+    if (taker && peerBet.status === "MATCHED") {
+      taker.lockedCents += peerBet.takerStakeCents;
+    }
+  }
+
+  return balances;
+}
+
+export async function getLockedBalance(
+  tx: Prisma.TransactionClient,
+  userId: string
+): Promise<LockedBalance> {
+  return (await getLockedBalances(tx, [userId])).get(userId)!;
+}
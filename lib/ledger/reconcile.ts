@@ -0,0 +1,252 @@
+// lib/ledger/reconcile.ts
+// Integrity check for the ledger: every user's entries should sum to their
+// balance, and every wager should have exactly one stake and at most one
+// settlement credit that hasn't been reversed. Each discrepancy comes with
+// the entry that would correct it, which an admin can review and apply.
+import { LedgerEntry, LedgerType, Prisma } from "@prisma/client";
+import { prisma } from "../db";
+import { postLedgerEntry } from "./service";
+
+export type DiscrepancyKind =
+  | "BALANCE_MISMATCH"
+  | "MISSING_STAKE"
+  | "DUPLICATE_PAYOUT";
+
+export interface ProposedEntry {
+  userId: string;
+  wagerId: string | null;
+  type: LedgerType;
+  amountCents: number;
+  description: string;
+  // false: the balance is already right and only the ledger is missing the
+  // entry; true: post it through the ledger service so the balance moves too
+  movesBalance: boolean;
+}
+
+export interface LedgerDiscrepancy {
+  kind: DiscrepancyKind;
+  userId: string;
+  displayName: string;
+  wagerId: string | null;
+  message: string;
+  proposedEntry: ProposedEntry;
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  usersChecked: number;
+  wagersChecked: number;
+  discrepancies: LedgerDiscrepancy[];
+}
+
+// Settlement credits a wager should receive at most once
+const SETTLEMENT_CREDIT_TYPES: LedgerType[] = ["WAGER_PAYOUT", "WAGER_REFUND"];
+
+const formatCents = (cents: number) =>
+  `${cents < 0 ? "-" : ""}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+// Reads everything from one snapshot, so a bet or settlement landing
+// mid-check can't show up as a mismatch
+export async function reconcileLedger(): Promise<ReconciliationReport> {
+  return prisma.$transaction((tx) => checkLedger(tx), {
+    isolationLevel: Prisma.TransactionIsolationLevel.RepeatableRead,
+  });
+}
+
+// The check itself, for every user or just one
+async function checkLedger(
+  tx: Prisma.TransactionClient,
+  userId?: string
+): Promise<ReconciliationReport> {
+  const checkedAt = new Date();
+
+  const [users, sums, wagers] = await Promise.all([
+    tx.user.findMany({
+      where: userId ? { id: userId } : {},
+      select: { id: true, displayName: true, balanceCents: true },
+      orderBy: { createdAt: "asc" },
+    }),
+    tx.ledgerEntry.groupBy({
+      by: ["userId"],
+      where: userId ? { userId } : {},
+      _sum: { amountCents: true },
+    }),
+    tx.wager.findMany({
+      where: userId ? { userId } : {},
+      select: {
+        id: true,
+        userId: true,
+        stakeCents: true,
+        ledgerEntries: {
+          select: { type: true, amountCents: true, createdAt: true },
+          orderBy: { createdAt: "asc" },
+        },
+      },
+      orderBy: { placedAt: "asc" },
+    }),
+  ]);
+
+  const ledgerSums = new Map(
+    sums.map((sum) => [sum.userId, sum._sum.amountCents ?? 0])
+  );
+  const displayNames = new Map(
+    users.map((user) => [user.id, user.displayName])
+  );
+
+  const discrepancies: LedgerDiscrepancy[] = [];
+
+  // Ledger sum per user once the ledger-only proposals below are posted, so
+  // the balance check only reports what they don't already explain.
+  // Balance-moving proposals shift both sides equally and don't count.
+  const projectedSums = new Map(ledgerSums);
+
+  const propose = (discrepancy: Omit<LedgerDiscrepancy, "displayName">) => {
+    discrepancies.push({
+      ...discrepancy,
+      displayName: displayNames.get(discrepancy.userId) ?? "Unknown user",
+    });
+
+    const { userId, amountCents, movesBalance } = discrepancy.proposedEntry;
+    if (!movesBalance) {
+      projectedSums.set(userId, (projectedSums.get(userId) ?? 0) + amountCents);
+    }
+  };
+
+  for (const wager of wagers) {
+    const stakes = wager.ledgerEntries.filter(
+      (entry) => entry.type === "WAGER_STAKE"
+    );
+
+    // Placing a wager always debited the balance, so only the entry is missing
+    if (stakes.length === 0) {
+      propose({
+        kind: "MISSING_STAKE",
+        userId: wager.userId,
+        wagerId: wager.id,
+        message: `Wager ${wager.id} has no stake entry`,
+        proposedEntry: {
+          userId: wager.userId,
+          wagerId: wager.id,
+          type: "WAGER_STAKE",
+          amountCents: -wager.stakeCents,
+          description: `Missing stake for wager ${wager.id}`,
+          movesBalance: false,
+        },
+      });
+    }
+
+    const credits = wager.ledgerEntries.filter((entry) =>
+      SETTLEMENT_CREDIT_TYPES.includes(entry.type)
+    );
+    const reversals = wager.ledgerEntries.filter(
+      (entry) => entry.type === "SETTLEMENT_REVERSAL"
+    );
+
+    // A regrade reverses the previous credit before paying the new one, so
+    // only the latest credit should be left standing; the rest were paid twice
+    if (credits.length - reversals.length > 1) {
+      const excessCents =
+        [...credits, ...reversals].reduce(
+          (sum, entry) => sum + entry.amountCents,
+          0
+        ) - credits[credits.length - 1].amountCents;
+
+      propose({
+        kind: "DUPLICATE_PAYOUT",
+        userId: wager.userId,
+        wagerId: wager.id,
+        message: `Wager ${wager.id} was credited ${credits.length} times (${formatCents(
+          excessCents
+        )} extra)`,
+        proposedEntry: {
+          userId: wager.userId,
+          wagerId: wager.id,
+          type: "ADJUSTMENT",
+          amountCents: -excessCents,
+          description: `Reverse duplicate settlement of wager ${wager.id}`,
+          movesBalance: true,
+        },
+      });
+    }
+  }
+
+  for (const user of users) {
+    const ledgerSum = ledgerSums.get(user.id) ?? 0;
+    const differenceCents =
+      user.balanceCents - (projectedSums.get(user.id) ?? 0);
+
+    if (differenceCents === 0) continue;
+
+    discrepancies.push({
+      kind: "BALANCE_MISMATCH",
+      userId: user.id,
+      displayName: user.displayName,
+      wagerId: null,
+      message: `Balance is ${formatCents(
+        user.balanceCents
+      )} but ledger entries sum to ${formatCents(ledgerSum)}`,
+      proposedEntry: {
+        userId: user.id,
+        wagerId: null,
+        type: "ADJUSTMENT",
+        amountCents: differenceCents,
+        description: "Reconcile ledger with balance",
+        movesBalance: false,
+      },
+    });
+  }
+
+  return {
+    checkedAt,
+    usersChecked: users.length,
+    wagersChecked: wagers.length,
+    discrepancies,
+  };
+}
+
+// Which discrepancy to correct; a user has at most one of each kind per wager
+export interface DiscrepancyRef {
+  kind: DiscrepancyKind;
+  userId: string;
+  wagerId: string | null;
+}
+
+// Post a discrepancy's proposed entry, if the user's ledger still needs it.
+// The user is locked first, so nothing moves their balance mid-check.
+export async function applyProposedEntry(
+  tx: Prisma.TransactionClient,
+  { kind, userId, wagerId }: DiscrepancyRef,
+  appliedBy: string
+): Promise<LedgerEntry> {
+  await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+
+  const { discrepancies } = await checkLedger(tx, userId);
+  const discrepancy = discrepancies.find(
+    (discrepancy) =>
+      discrepancy.kind === kind && discrepancy.wagerId === wagerId
+  );
+
+  if (!discrepancy) {
+    throw new Error("Discrepancy not found");
+  }
+
+  const { proposedEntry } = discrepancy;
+  const posting = {
+    userId,
+    wagerId,
+    type: proposedEntry.type,
+    amountCents: proposedEntry.amountCents,
+    description: `${proposedEntry.description} (by ${appliedBy})`,
+  };
+
+  if (proposedEntry.movesBalance) {
+    // Like a settlement reversal, the extra credit may already be spent
+    const { entry } = await postLedgerEntry(tx, posting, {
+      allowOverdraft: true,
+    });
+    return entry;
+  }
+
+  // The balance is already right; only the ledger is missing the entry
+  return tx.ledgerEntry.create({ data: posting });
+}
@@ -0,0 +1,114 @@
+// lib/ledger/service.ts
+// The only place a user's balance changes. Every change is a LedgerEntry
+// written in the same transaction as the balance update, so the entries
+// always sum to User.balanceCents.
+import { LedgerEntry, LedgerType, Prisma } from "@prisma/client";
+
+// Credited to every new account as a DEPOSIT
+export const STARTING_BANKROLL_CENTS = parseInt(
+  process.env.STARTING_BANKROLL_CENTS || "10000", // $100.00
+  10
+);
+
+// Which way each entry type moves the balance; ADJUSTMENT goes either way
+const CREDIT_TYPES: LedgerType[] = [
+  "WAGER_PAYOUT",
+  "WAGER_REFUND",
+  "DEPOSIT",
+  "ESCROW_PAYOUT",
+  "ESCROW_REFUND",
+];
+const DEBIT_TYPES: LedgerType[] = [
+  "WAGER_STAKE",
+  "WITHDRAWAL",
+  "SETTLEMENT_REVERSAL",
+  "ESCROW_STAKE",
+];
+
+export interface LedgerPosting {
+  userId: string;
+  type: LedgerType;
+  amountCents: number; // positive for credits, negative for debits
+  description: string;
+  wagerId?: string | null;
+  peerBetId?: string | null;
+}
+
+export interface PostedEntry {
+  entry: LedgerEntry;
+  balanceCents: number; // balance after the entry
+}
+
+export interface PostingOptions {
+  // Let a debit take the balance below zero. Only for corrections that must
+  // go through even if the money was already spent (settlement reversals).
+  allowOverdraft?: boolean;
+}
+
+// Write one entry and apply it to the balance. Debits never take a balance
+// below zero unless allowOverdraft is set: they throw "Insufficient balance".
+export async function postLedgerEntry(
+  tx: Prisma.TransactionClient,
+  {
+    userId,
+    type,
+    amountCents,
+    description,
+    wagerId = null,
+    peerBetId = null,
+  }: LedgerPosting,
+  { allowOverdraft = false }: PostingOptions = {}
+): Promise<PostedEntry> {
+  if (!Number.isInteger(amountCents) || amountCents === 0) {
+    throw new Error("Ledger amount must be a non-zero whole number of cents");
+  }
+
+  if (CREDIT_TYPES.includes(type) && amountCents < 0) {
+    throw new Error(`${type} entries must be credits`);
+  }
+
+  if (DEBIT_TYPES.includes(type) && amountCents > 0) {
+    throw new Error(`${type} entries must be debits`);
+  }
+
+  // Conditional update so concurrent debits can't overdraw the account
+  const { count } = await tx.user.updateMany({
+    where:
+      amountCents < 0 && !allowOverdraft
+        ? { id: userId, balanceCents: { gte: -amountCents } }
+        : { id: userId },
+    data: { balanceCents: { increment: amountCents } },
+  });
+
+  if (count !== 1) {
+    const exists = await tx.user.count({ where: { id: userId } });
+    throw new Error(exists ? "Insufficient balance" : "User not found");
+  }
+
+  const entry = await tx.ledgerEntry.create({
+    data: { userId, wagerId, peerBetId, type, amountCents, description },
+  });
+
+  const { balanceCents } = await tx.user.findUniqueOrThrow({
+    where: { id: userId },
+    select: { balanceCents: true },
+  });
+
+  return { entry, balanceCents };
+}
+
+// Credit a new account's opening bankroll
+export async function grantStartingBankroll(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  amountCents: number = STARTING_BANKROLL_CENTS
+): Promise<PostedEntry | null> {
+  if (amountCents === 0) return null;
+
+  return postLedgerEntry(tx, {
+    userId,
+    type: "DEPOSIT",
+    amountCents,
+    description: "Starting bankroll",
+  });
+}
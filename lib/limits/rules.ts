@@ -0,0 +1,160 @@
+// lib/limits/rules.ts
+// Pure betting-limit checks, shared by the wager API and the bet form so the
+// form can warn before submitting. No IO in here.
+
+// null means no limit
+export interface BettingLimits {
+  maxStakeCents: number | null;
+  maxEventExposureCents: number | null;
+  dailyLossLimitCents: number | null;
+  weeklyLossLimitCents: number | null;
+}
+
+export type LimitName = keyof BettingLimits;
+
+export const LIMIT_NAMES: LimitName[] = [
+  "maxStakeCents",
+  "maxEventExposureCents",
+  "dailyLossLimitCents",
+  "weeklyLossLimitCents",
+];
+
+// A user's limits and how much of them is already used
+export interface BettingStatus {
+  limits: BettingLimits; // the stricter of the user's and the group's
+  exposureByEvent: Record<string, number>; // pending stakes per event id
+  lossTodayCents: number; // net wager losses since 00:00 UTC
+  lossThisWeekCents: number; // net wager losses since Monday 00:00 UTC
+  selfExcludedUntil: string | null; // ISO timestamp
+}
+
+export type LimitViolationCode =
+  | "SELF_EXCLUDED"
+  | "STAKE_LIMIT_EXCEEDED"
+  | "EVENT_EXPOSURE_LIMIT_EXCEEDED"
+  | "DAILY_LOSS_LIMIT_EXCEEDED"
+  | "WEEKLY_LOSS_LIMIT_EXCEEDED";
+
+export interface LimitViolation {
+  code: LimitViolationCode;
+  message: string;
+}
+
+export interface ProposedWager {
+  stakeCents: number;
+  eventIds: string[]; // every event the wager is on (one per parlay leg)
+}
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// The stricter of two limits, treating null as no limit
+const stricter = (a: number | null, b: number | null): number | null =>
+  a === null ? b : b === null ? a : Math.min(a, b);
+
+// Combine group-wide and per-user limits; the lower one always wins
+export function mergeLimits(
+  group: BettingLimits,
+  user: BettingLimits
+): BettingLimits {
+  return {
+    maxStakeCents: stricter(group.maxStakeCents, user.maxStakeCents),
+    maxEventExposureCents: stricter(
+      group.maxEventExposureCents,
+      user.maxEventExposureCents
+    ),
+    dailyLossLimitCents: stricter(
+      group.dailyLossLimitCents,
+      user.dailyLossLimitCents
+    ),
+    weeklyLossLimitCents: stricter(
+      group.weeklyLossLimitCents,
+      user.weeklyLossLimitCents
+    ),
+  };
+}
+
+// Loss windows are calendar days and ISO weeks (Monday start), in UTC
+export function startOfDay(now: Date): Date {
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+}
+
+export function startOfWeek(now: Date): Date {
+  const day = startOfDay(now);
+  const daysSinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - daysSinceMonday * 24 * 60 * 60 * 1000);
+}
+
+// The first limit the wager would break, or null if it's allowed. A new
+// stake counts as a loss until it is settled.
+export function checkWagerLimits(
+  status: BettingStatus,
+  { stakeCents, eventIds }: ProposedWager,
+  now: Date = new Date()
+): LimitViolation | null {
+  const { limits } = status;
+
+  if (status.selfExcludedUntil && new Date(status.selfExcludedUntil) > now) {
+    return {
+      code: "SELF_EXCLUDED",
+      message: `You are self-excluded from betting until ${new Date(
+        status.selfExcludedUntil
+      ).toLocaleString()}`,
+    };
+  }
+
+  if (limits.maxStakeCents !== null && stakeCents > limits.maxStakeCents) {
+    return {
+      code: "STAKE_LIMIT_EXCEEDED",
+      message: `The most you can stake on one wager is ${formatCents(
+        limits.maxStakeCents
+      )}`,
+    };
+  }
+
+  if (limits.maxEventExposureCents !== null) {
+    const limit = limits.maxEventExposureCents;
+    const overExposed = eventIds.find(
+      (eventId) => (status.exposureByEvent[eventId] ?? 0) + stakeCents > limit
+    );
+
+    if (overExposed) {
+      const remaining = limit - (status.exposureByEvent[overExposed] ?? 0);
+      return {
+        code: "EVENT_EXPOSURE_LIMIT_EXCEEDED",
+        message: `You can have at most ${formatCents(
+          limit
+        )} pending on one event (${formatCents(
+          Math.max(remaining, 0)
+        )} left)`,
+      };
+    }
+  }
+
+  if (
+    limits.dailyLossLimitCents !== null &&
+    status.lossTodayCents + stakeCents > limits.dailyLossLimitCents
+  ) {
+    return {
+      code: "DAILY_LOSS_LIMIT_EXCEEDED",
+      message: `This wager could take you past your daily loss limit of ${formatCents(
+        limits.dailyLossLimitCents
+      )}`,
+    };
+  }
+
+  if (
+    limits.weeklyLossLimitCents !== null &&
+    status.lossThisWeekCents + stakeCents > limits.weeklyLossLimitCents
+  ) {
+    return {
+      code: "WEEKLY_LOSS_LIMIT_EXCEEDED",
+      message: `This wager could take you past your weekly loss limit of ${formatCents(
+        limits.weeklyLossLimitCents
+      )}`,
+    };
+  }
+
+  return null;
+}
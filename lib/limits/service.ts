@@ -0,0 +1,141 @@
+// lib/limits/service.ts
+// Loads a user's betting limits and how much of them is used, for
+// checkWagerLimits() in ./rules.
+import { LedgerType, Prisma } from "@prisma/client";
+import {
+  BettingLimits,
+  BettingStatus,
+  mergeLimits,
+  startOfDay,
+  startOfWeek,
+} from "./rules";
+
+// Unset means no group-wide limit
+const limitFromEnv = (name: string): number | null => {
+  const value = process.env[name];
+  return value ? parseInt(value, 10) : null;
+};
+
+// Group-wide limits; a user's own limits can only make these stricter
+export const GROUP_LIMITS: BettingLimits = {
+  maxStakeCents: limitFromEnv("MAX_STAKE_CENTS"),
+  maxEventExposureCents: limitFromEnv("MAX_EVENT_EXPOSURE_CENTS"),
+  dailyLossLimitCents: limitFromEnv("DAILY_LOSS_LIMIT_CENTS"),
+  weeklyLossLimitCents: limitFromEnv("WEEKLY_LOSS_LIMIT_CENTS"),
+};
+
+// Entries that make up a bet's win or loss (deposits etc. don't count)
+const BETTING_LEDGER_TYPES: LedgerType[] = [
+  "WAGER_STAKE",
+  "WAGER_PAYOUT",
+  "WAGER_REFUND",
+  "SETTLEMENT_REVERSAL",
+  "ESCROW_STAKE",
+  "ESCROW_PAYOUT",
+  "ESCROW_REFUND",
+];
+
+export const userLimitsSelect = {
+  maxStakeCents: true,
+  maxEventExposureCents: true,
+  dailyLossLimitCents: true,
+  weeklyLossLimitCents: true,
+  selfExcludedUntil: true,
+} satisfies Prisma.UserSelect;
+
+// Net wager losses since `since`; a net win counts as no loss
+async function lossSince(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  since: Date
+): Promise<number> {
+  const { _sum } = await tx.ledgerEntry.aggregate({
+    where: {
+      userId,
+      type: { in: BETTING_LEDGER_TYPES },
+      createdAt: { gte: since },
+    },
+    _sum: { amountCents: true },
+  });
+
+  return Math.max(-(_sum.amountCents ?? 0), 0);
+}
+
+export async function getBettingStatus(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<BettingStatus> {
+  const user = await tx.user.findUnique({
+    where: { id: userId },
+    select: userLimitsSelect,
+  });
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const eventIdSelect = {
+    select: { market: { select: { eventId: true } } },
+  } as const;
+
+  const [pendingWagers, peerBets, lossTodayCents, lossThisWeekCents] =
+    await Promise.all([
+      tx.wager.findMany({
+        where: { userId, status: "PENDING" },
+        select: {
+          stakeCents: true,
+          line: eventIdSelect,
+          legs: { select: { line: eventIdSelect } },
+        },
+      }),
+      // Peer bets with the user's stake still in escrow
+      tx.peerBet.findMany({
+        where: {
+          OR: [
+            { proposerId: userId, status: { in: ["OPEN", "MATCHED"] } },
+            { takerId: userId, status: "MATCHED" },
+          ],
+        },
+        select: {
+          proposerId: true,
+          proposerStakeCents: true,
+          takerStakeCents: true,
+          line: eventIdSelect,
+        },
+      }),
+      lossSince(tx, userId, startOfDay(now)),
+      lossSince(tx, userId, startOfWeek(now)),
+    ]);
+
+  // A parlay's whole stake is exposed on every event it has a leg on
+  const exposureByEvent: Record<string, number> = {};
+  for (const wager of pendingWagers) {
+    const eventIds = new Set(
+      wager.line
+        ? [wager.line.market.eventId]
+        : wager.legs.map((leg) => leg.line.market.eventId)
+    );
+    for (const eventId of eventIds) {
+      exposureByEvent[eventId] =
+        (exposureByEvent[eventId] ?? 0) + wager.stakeCents;
+    }
+  }
+
+  for (const peerBet of peerBets) {
+    const eventId = peerBet.line.market.eventId;
+    exposureByEvent[eventId] =
+      (exposureByEvent[eventId] ?? 0) +
+      (peerBet.proposerId === userId
+        ? peerBet.proposerStakeCents
+        : peerBet.takerStakeCents);
+  }
+
+  return {
+    limits: mergeLimits(GROUP_LIMITS, user),
+    exposureByEvent,
+    lossTodayCents,
+    lossThisWeekCents,
+    selfExcludedUntil: user.selfExcludedUntil?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,33 @@
+// lib/mail/send.ts
+// Local mail stand-in: every message is written to MAIL_DIR (default .mail/)
+// as a text file instead of being sent. Swap this out for a real transport.
+import { promises as fs } from "fs";
+import path from "path";
+
+export const MAIL_DIR =
+  process.env.MAIL_DIR || path.join(process.cwd(), ".mail");
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Returns the path of the written message
+export async function sendMail(message: MailMessage): Promise<string> {
+  await fs.mkdir(MAIL_DIR, { recursive: true });
+
+  const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+  const filePath = path.join(
+    MAIL_DIR,
+    `${new Date().toISOString().replace(/[:.]/g, "-")}-${safeRecipient}.txt`
+  );
+
+  await fs.writeFile(
+    filePath,
+    `To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`
+  );
+
+  console.log(`Mail to ${message.to} written to ${filePath}`);
+  return filePath;
+}
@@ -0,0 +1,14 @@
+// lib/markets/betting-window.ts
+// When an event stops taking bets. Wagers, peer bets and the futures list
+// share this so nothing is listed as open that can't be bet.
+
+// Betting closes this long before an event starts
+export const BETTING_CUTOFF_MS = 5 * 60 * 1000;
+
+// Too close to (or past) the start to take bets
+export function isPastBettingCutoff(
+  startsAt: Date,
+  now: Date = new Date()
+): boolean {
+  return startsAt.getTime() - now.getTime() < BETTING_CUTOFF_MS;
+}
@@ -0,0 +1,113 @@
+// lib/markets/custom.ts
+// Admin-created CUSTOM markets: named selections priced by hand, on an
+// existing event or on a standalone one (e.g. "Halftime show runs long").
+// Prices are never edited in place; a new price is a new Line, so line
+// history and PRICE_CHANGED work as they do for the odds feed.
+import { Market, Prisma } from "@prisma/client";
+
+// Line.source for prices set by an admin
+export const CUSTOM_LINE_SOURCE = "admin";
+
+export interface CustomSelectionPrice {
+  label: string;
+  price: number; // American odds
+}
+
+// Either an existing event, or the details of a standalone one to create
+export type CustomMarketEvent =
+  | { eventId: string }
+  | { leagueId: string; title: string; startsAt: Date };
+
+export interface CustomMarketInput {
+  event: CustomMarketEvent;
+  name: string;
+  selections: CustomSelectionPrice[];
+}
+
+export async function createCustomMarket(
+  tx: Prisma.TransactionClient,
+  { event, name, selections }: CustomMarketInput
+): Promise<Market> {
+  let eventId: string;
+
+  if ("eventId" in event) {
+    const existing = await tx.event.findUnique({
+      where: { id: event.eventId },
+    });
+
+    if (!existing) {
+      throw new Error("Event not found");
+    }
+
+    if (existing.status !== "SCHEDULED") {
+      throw new Error("Event is no longer open for betting");
+    }
+
+    eventId = existing.id;
+  } else {
+    const league = await tx.league.findUnique({
+      where: { id: event.leagueId },
+    });
+
+    if (!league) {
+      throw new Error("League not found");
+    }
+
+    const created = await tx.event.create({
+      data: {
+        leagueId: league.id,
+        title: event.title,
+        homeTeam: "",
+        awayTeam: "",
+        startsAt: event.startsAt,
+      },
+    });
+    eventId = created.id;
+  }
+
+  return tx.market.create({
+    data: {
+      eventId,
+      type: "CUSTOM",
+      name,
+      lines: {
+        create: selections.map(({ label, price }) => ({
+          selectionKey: "CUSTOM" as const,
+          label,
+          price,
+          source: CUSTOM_LINE_SOURCE,
+        })),
+      },
+    },
+  });
+}
+
+// Post new prices for some of a market's selections. A label the market
+// doesn't have yet adds that selection.
+export async function repriceCustomMarket(
+  tx: Prisma.TransactionClient,
+  marketId: string,
+  selections: CustomSelectionPrice[]
+): Promise<Market> {
+  const market = await tx.market.findUnique({ where: { id: marketId } });
+
+  if (!market || market.type !== "CUSTOM") {
+    throw new Error("Custom market not found");
+  }
+
+  if (market.settledAt) {
+    throw new Error("Market is already settled");
+  }
+
+  await tx.line.createMany({
+    data: selections.map(({ label, price }) => ({
+      marketId,
+      selectionKey: "CUSTOM" as const,
+      label,
+      price,
+      source: CUSTOM_LINE_SOURCE,
+    })),
+  });
+
+  return market;
+}
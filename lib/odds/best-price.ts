@@ -0,0 +1,146 @@
+// lib/odds/best-price.ts
+// Pure helpers for markets quoted by several bookmakers: reduce a market's
+// line history to each book's current quote and pick the best one per
+// option for the bettor.
+import { clvPoints, impliedProbability } from "../clv/rules";
+import { MarketKind, SelectionKey } from "../grading/rules";
+
+export interface QuotedLine {
+  selectionKey: string;
+  label?: string | null; // names the selection on CUSTOM markets
+  participant?: string | null; // the player on PLAYER_PROP markets
+  source: string;
+  price: number;
+  point: number | null;
+  capturedAt: Date;
+}
+
+// Alternate markets offer each number as its own option
+export function isAlternateMarket(marketType: string): boolean {
+  return marketType === "ALT_SPREAD" || marketType === "ALT_TOTAL";
+}
+
+// Tells a market's options apart: the selection, plus the name on custom
+// markets, the player on props and the number on alternate lines. A book's
+// quotes for one option over time share the key.
+export function optionKey(
+  marketType: string,
+  line: Pick<QuotedLine, "selectionKey" | "label" | "participant" | "point">
+): string {
+  const point = isAlternateMarket(marketType) ? line.point ?? "" : "";
+  return `${line.selectionKey}:${line.label ?? ""}:${
+    line.participant ?? ""
+  }:${point}`;
+}
+
+// Latest line per option + source, newest first
+export function latestLinesBySource<T extends QuotedLine>(
+  marketType: string,
+  lines: T[]
+): T[] {
+  const latest = new Map<string, T>();
+
+  for (const line of lines) {
+    const key = `${optionKey(marketType, line)}:${line.source}`;
+    const current = latest.get(key);
+    if (!current || line.capturedAt > current.capturedAt) {
+      latest.set(key, line);
+    }
+  }
+
+  return Array.from(latest.values()).sort(
+    (a, b) => b.capturedAt.getTime() - a.capturedAt.getTime()
+  );
+}
+
+// Positive when a is better for the bettor than b. The number comes first
+// (a half point beats a few cents of juice), then the price.
+export function compareQuotes(
+  marketType: MarketKind,
+  selection: SelectionKey,
+  a: { price: number; point: number | null },
+  b: { price: number; point: number | null }
+): number {
+  const points = clvPoints(marketType, selection, a.point, b.point);
+  if (points !== null && points !== 0) {
+    return points;
+  }
+
+  return impliedProbability(b.price) - impliedProbability(a.price);
+}
+
+// Best current quote for one selection, or null if no book has it
+export function pickBestLine<T extends QuotedLine>(
+  marketType: MarketKind,
+  selection: SelectionKey,
+  lines: T[]
+): T | null {
+  let best: T | null = null;
+
+  for (const line of lines) {
+    if (line.selectionKey !== selection) continue;
+    if (!best || compareQuotes(marketType, selection, line, best) > 0) {
+      best = line;
+    }
+  }
+
+  return best;
+}
+
+// Best current quote per option, for markets without a fixed pair of
+// selections (props and alternate lines), in the order options first appear
+export function pickBestLines<T extends QuotedLine>(
+  marketType: MarketKind,
+  lines: T[]
+): T[] {
+  const best = new Map<string, T>();
+
+  for (const line of lines) {
+    const key = optionKey(marketType, line);
+    const current = best.get(key);
+    if (
+      !current ||
+      compareQuotes(
+        marketType,
+        line.selectionKey as SelectionKey,
+        line,
+        current
+      ) > 0
+    ) {
+      best.set(key, line);
+    }
+  }
+
+  return Array.from(best.values());
+}
+
+// How far a line may have moved from the quote the bettor saw
+export type PriceTolerance = "ANY" | "BETTER" | "EXACT";
+
+export const PRICE_TOLERANCES: PriceTolerance[] = ["EXACT", "BETTER", "ANY"];
+
+// Whether the current quote can be taken in place of the expected one
+export function acceptsQuote(
+  tolerance: PriceTolerance,
+  marketType: MarketKind,
+  selection: SelectionKey,
+  current: { price: number; point: number | null },
+  expected: { price: number; point: number | null }
+): boolean {
+  switch (tolerance) {
+    case "ANY":
+      return true;
+    case "BETTER":
+      return compareQuotes(marketType, selection, current, expected) >= 0;
+    case "EXACT":
+      return (
+        current.price === expected.price && current.point === expected.point
+      );
+  }
+}
+
+// "draftkings:DraftKings" -> "DraftKings"; other sources are shown as-is
+export function formatSource(source: string): string {
+  const separator = source.indexOf(":");
+  return separator >= 0 ? source.slice(separator + 1) : source;
+}
@@ -0,0 +1,107 @@
+// lib/odds/fetcher.ts
+// Odds provider interface. Sync and scores code only talks to an OddsFetcher;
+// ODDS_PROVIDER picks the implementation ("http" or "mock").
+import { MarketKind, SelectionKey } from "../grading/rules";
+import { HttpOddsFetcher } from "./http";
+import { MockOddsFetcher } from "./mock";
+
+export interface FetchedLine {
+  selectionKey: SelectionKey;
+  label?: string; // the named selection, on OUTRIGHT markets
+  participant?: string; // the player, on PLAYER_PROP markets
+  point: number | null;
+  price: number; // American odds
+  source: string;
+  capturedAt: Date;
+}
+
+export interface FetchedMarket {
+  type: MarketKind;
+  // PLAYER_PROP markets: the feed's market key and a display name
+  // (OUTRIGHT markets only have the name)
+  propKey?: string;
+  name?: string;
+  lines: FetchedLine[];
+}
+
+export interface FetchedEvent {
+  externalId: string;
+  leagueName: string;
+  title?: string; // futures only; their teams are empty
+  homeTeam: string;
+  awayTeam: string;
+  startsAt: Date;
+  markets: FetchedMarket[];
+}
+
+export interface FetchedScore {
+  externalId: string;
+  homeTeam: string;
+  awayTeam: string;
+  startsAt: Date;
+  completed: boolean;
+  homeScore: number | null;
+  awayScore: number | null;
+  lastUpdate: Date | null;
+}
+
+// Request quota reported by the provider; null when it doesn't have one
+export interface ProviderQuota {
+  apiRemainingRequests: string | null;
+  apiUsedRequests: string | null;
+}
+
+export interface FetchOddsOptions {
+  markets?: string; // e.g. "h2h,spreads,totals,player_pass_yds"
+  regions?: string;
+  oddsFormat?: string;
+}
+
+export interface FetchScoresOptions {
+  daysFrom?: number;
+}
+
+export interface FetchOddsResult extends ProviderQuota {
+  events: FetchedEvent[];
+}
+
+export interface FetchScoresResult extends ProviderQuota {
+  scores: FetchedScore[];
+}
+
+export interface OddsFetcher {
+  readonly name: string;
+  isConfigured(): boolean;
+  fetchOdds(
+    sport: string,
+    options?: FetchOddsOptions
+  ): Promise<FetchOddsResult>;
+  fetchScores(
+    sport: string,
+    options?: FetchScoresOptions
+  ): Promise<FetchScoresResult>;
+}
+
+export type OddsProviderName = "http" | "mock";
+
+// The mock only runs when asked for; otherwise the live API is used, and
+// fails with "Odds API key not configured" when ODDS_API_KEY is missing
+export function getOddsProviderName(): OddsProviderName {
+  const configured = process.env.ODDS_PROVIDER?.toLowerCase();
+
+  if (configured === "http" || configured === "mock") {
+    return configured;
+  }
+
+  if (configured) {
+    console.warn(`Unknown ODDS_PROVIDER "${configured}", using http`);
+  }
+
+  return "http";
+}
+
+export function getOddsFetcher(): OddsFetcher {
+  return getOddsProviderName() === "http"
+    ? new HttpOddsFetcher()
+    : new MockOddsFetcher();
+}
@@ -0,0 +1,152 @@
+// lib/odds/http.ts
+// OddsFetcher backed by The Odds API over HTTP (ODDS_API_URL, ODDS_API_KEY).
+import {
+  FetchOddsOptions,
+  FetchOddsResult,
+  FetchScoresOptions,
+  FetchScoresResult,
+  OddsFetcher,
+} from "./fetcher";
+import {
+  OddsApiGame,
+  OddsApiScore,
+  parseOddsApiGame,
+  parseOddsApiScore,
+} from "./the-odds-api";
+
+const DEFAULT_ODDS_API_URL = "https://api.the-odds-api.com/v4";
+
+// The sport-wide odds endpoint only serves these; alternate lines and player
+// props have to be requested one event at a time. Outrights are only offered
+// on futures sports (e.g. americanfootball_nfl_super_bowl_winner).
+const FEATURED_MARKETS = ["h2h", "spreads", "totals", "outrights"];
+
+// Add an event's extra markets to the bookmakers it already has
+function mergeBookmakers(game: OddsApiGame, extra: OddsApiGame): OddsApiGame {
+  const bookmakers = game.bookmakers.map((bookmaker) => ({ ...bookmaker }));
+
+  for (const bookmaker of extra.bookmakers) {
+    const existing = bookmakers.find((b) => b.key === bookmaker.key);
+    if (existing) {
+      existing.markets = [...existing.markets, ...bookmaker.markets];
+    } else {
+      bookmakers.push(bookmaker);
+    }
+  }
+
+  return { ...game, bookmakers };
+}
+
+export class HttpOddsFetcher implements OddsFetcher {
+  readonly name = "http";
+  private baseUrl: string;
+  private apiKey: string | undefined;
+
+  constructor(
+    baseUrl: string = process.env.ODDS_API_URL || DEFAULT_ODDS_API_URL,
+    apiKey: string | undefined = process.env.ODDS_API_KEY
+  ) {
+    this.baseUrl = baseUrl.replace(/\/$/, "");
+    this.apiKey = apiKey;
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async fetchOdds(
+    sport: string,
+    {
+      markets = "h2h,spreads,totals",
+      regions = "us",
+      oddsFormat = "american",
+    }: FetchOddsOptions = {}
+  ): Promise<FetchOddsResult> {
+    const marketKeys = markets.split(",").map((key) => key.trim());
+    const featured = marketKeys.filter((key) => FEATURED_MARKETS.includes(key));
+    const perEvent = marketKeys.filter(
+      (key) => !FEATURED_MARKETS.includes(key)
+    );
+
+    // The slate itself comes from the featured endpoint, even when only
+    // per-event markets were asked for
+    let response = await this.get(`/sports/${sport}/odds`, {
+      regions,
+      markets: featured.length > 0 ? featured.join(",") : "h2h",
+      oddsFormat,
+    });
+
+    let games: OddsApiGame[] = await response.json();
+    console.log(`Received ${games.length} games from Odds API`);
+
+    if (perEvent.length > 0) {
+      const merged: OddsApiGame[] = [];
+
+      for (const game of games) {
+        try {
+          response = await this.get(`/sports/${sport}/events/${game.id}/odds`, {
+            regions,
+            markets: perEvent.join(","),
+            oddsFormat,
+          });
+          merged.push(mergeBookmakers(game, await response.json()));
+        } catch (error) {
+          // Keep the game's featured markets
+          console.error(`Error fetching extra markets for ${game.id}:`, error);
+          merged.push(game);
+        }
+      }
+
+      games = merged;
+    }
+
+    return {
+      events: games.map((game) => parseOddsApiGame(game, marketKeys)),
+      apiRemainingRequests: response.headers.get("x-requests-remaining"),
+      apiUsedRequests: response.headers.get("x-requests-used"),
+    };
+  }
+
+  async fetchScores(
+    sport: string,
+    { daysFrom = 3 }: FetchScoresOptions = {}
+  ): Promise<FetchScoresResult> {
+    const response = await this.get(`/sports/${sport}/scores`, {
+      daysFrom: daysFrom.toString(),
+    });
+
+    const games: OddsApiScore[] = await response.json();
+
+    return {
+      scores: games.map(parseOddsApiScore),
+      apiRemainingRequests: response.headers.get("x-requests-remaining"),
+      apiUsedRequests: response.headers.get("x-requests-used"),
+    };
+  }
+
+  private async get(
+    path: string,
+    params: Record<string, string>
+  ): Promise<Response> {
+    if (!this.apiKey) {
+      throw new Error("Odds API key not configured");
+    }
+
+    const url = new URL(`${this.baseUrl}${path}`);
+    url.searchParams.set("apiKey", this.apiKey);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, value);
+    }
+    url.searchParams.set("dateFormat", "iso");
+
+    console.log("Fetching from Odds API:", `${this.baseUrl}${path}`);
+
+    const response = await fetch(url.toString());
+
+    if (!response.ok) {
+      throw new Error(`Odds API responded with status: ${response.status}`);
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,144 @@
+// lib/odds/mock.ts
+// OddsFetcher that replays JSON fixtures in The Odds API format, so syncs are
+// deterministic and work offline. Files are looked up per sport:
+//   <ODDS_FIXTURES_DIR>/<sport>.odds.json and <sport>.scores.json
+// Fixture dates are moved forward by whole weeks so the slate is still ahead.
+import { promises as fs } from "fs";
+import path from "path";
+import {
+  FetchOddsOptions,
+  FetchOddsResult,
+  FetchScoresResult,
+  FetchedEvent,
+  FetchedScore,
+  OddsFetcher,
+} from "./fetcher";
+import {
+  OddsApiGame,
+  OddsApiScore,
+  parseOddsApiGame,
+  parseOddsApiScore,
+} from "./the-odds-api";
+
+export const ODDS_FIXTURES_DIR =
+  process.env.ODDS_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "odds");
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// How far to move a fixture's dates: the whole weeks that put its first
+// game at or after now, keeping kickoff days and times. Fixtures already
+// in the future (e.g. futures) are left alone.
+function fixtureOffsetMs(startTimes: Date[], now = new Date()): number {
+  if (startTimes.length === 0) return 0;
+
+  const first = Math.min(...startTimes.map((date) => date.getTime()));
+  return Math.max(0, Math.ceil((now.getTime() - first) / WEEK_MS)) * WEEK_MS;
+}
+
+function shiftDate(date: Date, offsetMs: number): Date {
+  return new Date(date.getTime() + offsetMs);
+}
+
+// Prices and scores can't have been captured after now
+function shiftCaptureDate(date: Date, offsetMs: number): Date {
+  return new Date(Math.min(date.getTime() + offsetMs, Date.now()));
+}
+
+function shiftEvent(event: FetchedEvent, offsetMs: number): FetchedEvent {
+  return {
+    ...event,
+    startsAt: shiftDate(event.startsAt, offsetMs),
+    markets: event.markets.map((market) => ({
+      ...market,
+      lines: market.lines.map((line) => ({
+        ...line,
+        capturedAt: shiftCaptureDate(line.capturedAt, offsetMs),
+      })),
+    })),
+  };
+}
+
+function shiftScore(score: FetchedScore, offsetMs: number): FetchedScore {
+  return {
+    ...score,
+    startsAt: shiftDate(score.startsAt, offsetMs),
+    lastUpdate:
+      score.lastUpdate && shiftCaptureDate(score.lastUpdate, offsetMs),
+  };
+}
+
+export interface MockOddsFetcherOptions {
+  fixturesDir?: string;
+  // Override the per-sport file names (resolved inside fixturesDir)
+  oddsFile?: string;
+  scoresFile?: string;
+}
+
+export class MockOddsFetcher implements OddsFetcher {
+  readonly name = "mock";
+  private fixturesDir: string;
+  private oddsFile?: string;
+  private scoresFile?: string;
+
+  constructor({
+    fixturesDir = ODDS_FIXTURES_DIR,
+    oddsFile,
+    scoresFile,
+  }: MockOddsFetcherOptions = {}) {
+    this.fixturesDir = fixturesDir;
+    this.oddsFile = oddsFile;
+    this.scoresFile = scoresFile;
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async fetchOdds(
+    sport: string,
+    { markets = "h2h,spreads,totals" }: FetchOddsOptions = {}
+  ): Promise<FetchOddsResult> {
+    const games = await this.readFixture<OddsApiGame[]>(
+      this.oddsFile ?? `${sport}.odds.json`
+    );
+    const marketKeys = markets.split(",").map((key) => key.trim());
+    const events = games.map((game) => parseOddsApiGame(game, marketKeys));
+    const offsetMs = fixtureOffsetMs(events.map((event) => event.startsAt));
+
+    return {
+      events: events.map((event) => shiftEvent(event, offsetMs)),
+      apiRemainingRequests: null,
+      apiUsedRequests: null,
+    };
+  }
+
+  async fetchScores(sport: string): Promise<FetchScoresResult> {
+    const games = await this.readFixture<OddsApiScore[]>(
+      this.scoresFile ?? `${sport}.scores.json`
+    );
+
+    const scores = games.map(parseOddsApiScore);
+    const offsetMs = fixtureOffsetMs(scores.map((score) => score.startsAt));
+
+    return {
+      scores: scores.map((score) => shiftScore(score, offsetMs)),
+      apiRemainingRequests: null,
+      apiUsedRequests: null,
+    };
+  }
+
+  private async readFixture<T>(fileName: string): Promise<T> {
+    // Only allow files inside the fixtures directory
+    const fixturePath = path.join(this.fixturesDir, path.basename(fileName));
+    console.log("Reading odds fixture:", fixturePath);
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(fixturePath, "utf8");
+    } catch {
+      throw new Error(`Fixture not found: ${path.basename(fileName)}`);
+    }
+
+    return JSON.parse(contents) as T;
+  }
+}
@@ -0,0 +1,201 @@
+// lib/odds/scores.ts
+// Pulls game scores from the configured OddsFetcher and applies them to
+// existing Event rows.
+import { prisma } from "../db";
+import { gradeEvent, EventGradingResult } from "../grading/settle";
+import { recordClosingLines } from "../clv/record";
+import {
+  FetchedScore,
+  FetchScoresOptions,
+  getOddsFetcher,
+  OddsFetcher,
+} from "./fetcher";
+
+// How far apart a stored kickoff and the feed's commence_time may be and still match
+const MATCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+export interface SyncScoresOptions extends FetchScoresOptions {
+  grade?: boolean;
+  fetcher?: OddsFetcher;
+}
+
+export interface SyncScoresResult {
+  provider: string;
+  gamesReceived: number;
+  eventsMatched: number;
+  eventsLive: number;
+  eventsFinalized: number;
+  unmatchedGames: string[];
+  grading: EventGradingResult[];
+  apiRemainingRequests: string | null;
+  apiUsedRequests: string | null;
+}
+
+// Match a feed game to an Event by provider id, falling back to teams with
+// a small allowance for kickoff shifts
+async function findMatchingEvent(game: FetchedScore) {
+  // Events synced from the same provider carry its game id
+  const linked = await prisma.event.findUnique({
+    where: { externalRef: game.externalId },
+  });
+  if (linked) return linked;
+
+  const commenceTime = game.startsAt;
+
+  const candidates = await prisma.event.findMany({
+    where: {
+      homeTeam: game.homeTeam,
+      awayTeam: game.awayTeam,
+      startsAt: {
+        gte: new Date(commenceTime.getTime() - MATCH_WINDOW_MS),
+        lte: new Date(commenceTime.getTime() + MATCH_WINDOW_MS),
+      },
+    },
+  });
+
+  // Prefer the closest kickoff if more than one event matches
+  return (
+    candidates.sort(
+      (a, b) =>
+        Math.abs(a.startsAt.getTime() - commenceTime.getTime()) -
+        Math.abs(b.startsAt.getTime() - commenceTime.getTime())
+    )[0] ?? null
+  );
+}
+
+// Apply feed scores to matching events: in-progress games become LIVE,
+// completed games become FINAL and (optionally) get graded.
+export async function syncScores(
+  sport: string,
+  options: SyncScoresOptions = {}
+): Promise<SyncScoresResult> {
+  const {
+    grade = true,
+    fetcher = getOddsFetcher(),
+    ...fetchOptions
+  } = options;
+  const {
+    scores: games,
+    apiRemainingRequests,
+    apiUsedRequests,
+  } = await fetcher.fetchScores(sport, fetchOptions);
+
+  console.log(`Received ${games.length} score entries for ${sport}`);
+
+  let eventsMatched = 0;
+  let eventsLive = 0;
+  const unmatchedGames: string[] = [];
+  const finalizedEventIds: string[] = [];
+
+  for (const game of games) {
+    try {
+      const event = await findMatchingEvent(game);
+
+      if (!event) {
+        unmatchedGames.push(game.externalId);
+        continue;
+      }
+
+      eventsMatched++;
+
+      const { homeScore, awayScore } = game;
+      const hasScores = homeScore !== null && awayScore !== null;
+
+      // Never move an event backwards once it has been marked FINAL
+      if (event.status === "FINAL") continue;
+
+      // Scores for a game that hasn't kicked off are ignored; the mock
+      // replays finished fixtures onto upcoming games
+      if (event.startsAt > new Date()) continue;
+
+      if (game.completed && hasScores) {
+        await prisma.event.update({
+          where: { id: event.id },
+          data: {
+            homeScore,
+            awayScore,
+            status: "FINAL",
+            completedAt: game.lastUpdate ?? new Date(),
+          },
+        });
+        finalizedEventIds.push(event.id);
+      } else if (hasScores) {
+        await prisma.event.update({
+          where: { id: event.id },
+          data: {
+            homeScore,
+            awayScore,
+            status: "LIVE",
+          },
+        });
+        eventsLive++;
+
+        // The game has kicked off, so its closing lines are known
+        await recordClosingLines(prisma, event.id);
+      }
+    } catch (gameError) {
+      console.error(
+        `Error applying scores for game ${game.externalId}:`,
+        gameError
+      );
+      // Continue processing other games
+    }
+  }
+
+  const grading: EventGradingResult[] = [];
+
+  if (grade) {
+    for (const eventId of finalizedEventIds) {
+      try {
+        grading.push(await gradeEvent(eventId));
+      } catch (gradeError) {
+        console.error(`Error grading event ${eventId}:`, gradeError);
+      }
+    }
+  }
+
+  return {
+    provider: fetcher.name,
+    gamesReceived: games.length,
+    eventsMatched,
+    eventsLive,
+    eventsFinalized: finalizedEventIds.length,
+    unmatchedGames,
+    grading,
+    apiRemainingRequests,
+    apiUsedRequests,
+  };
+}
+
+// Time-based transition: anything past kickoff without a score yet is LIVE.
+// Closing lines are known at that point, so CLV is recorded too.
+export async function markStartedEventsLive(
+  now: Date = new Date()
+): Promise<string[]> {
+  const started = await prisma.event.findMany({
+    where: {
+      status: "SCHEDULED",
+      startsAt: { lte: now },
+    },
+    select: { id: true },
+  });
+
+  if (started.length === 0) return [];
+
+  const eventIds = started.map((event) => event.id);
+
+  await prisma.event.updateMany({
+    where: { id: { in: eventIds }, status: "SCHEDULED" },
+    data: { status: "LIVE" },
+  });
+
+  for (const eventId of eventIds) {
+    try {
+      await recordClosingLines(prisma, eventId);
+    } catch (error) {
+      console.error(`Error recording CLV for event ${eventId}:`, error);
+    }
+  }
+
+  return eventIds;
+}
@@ -0,0 +1,369 @@
+// lib/odds/sync.ts
+// Pulls a slate from the configured OddsFetcher and stores it as
+// Event / Market / Line rows. Events are upserted by the provider's id; a
+// Line snapshot is only added when a book's price or point has moved.
+// Every run is recorded as a SyncRun, including the games that failed.
+import { Prisma, SyncRunStatus } from "@prisma/client";
+import { prisma } from "../db";
+import {
+  FetchedEvent,
+  FetchOddsOptions,
+  getOddsFetcher,
+  OddsFetcher,
+} from "./fetcher";
+import { latestLinesBySource, optionKey } from "./best-price";
+
+// Process this many games per transaction to avoid transaction timeouts
+const BATCH_SIZE = 10;
+
+export interface SyncGameError {
+  externalId: string;
+  matchup: string;
+  message: string;
+}
+
+export interface SyncOddsResult {
+  syncRunId: string;
+  status: SyncRunStatus; // FAILED when no game could be stored
+  provider: string;
+  eventsCreated: number;
+  eventsUpdated: number;
+  linesCreated: number;
+  linesSkipped: number;
+  totalGamesProcessed: number;
+  gamesFailed: number;
+  errors: SyncGameError[];
+  apiRemainingRequests: string | null;
+  apiUsedRequests: string | null;
+}
+
+// Helper function to find or create a league
+async function findOrCreateLeague(
+  tx: Prisma.TransactionClient,
+  name: string
+) {
+  let league = await tx.league.findFirst({
+    where: { name },
+  });
+
+  if (!league) {
+    league = await tx.league.create({
+      data: { name },
+    });
+  }
+
+  return league;
+}
+
+interface StoreEventResult {
+  eventsCreated: number;
+  eventsUpdated: number;
+  linesCreated: number;
+  linesSkipped: number;
+}
+
+// Upsert the event by its provider id. Events stored before externalRef
+// existed are matched on teams + kickoff once and adopt the id; futures have
+// no teams to match on and always came with one.
+async function upsertEvent(
+  tx: Prisma.TransactionClient,
+  fetched: FetchedEvent,
+  leagueId: string
+) {
+  const existing =
+    (await tx.event.findUnique({
+      where: { externalRef: fetched.externalId },
+    })) ??
+    (fetched.title
+      ? null
+      : await tx.event.findFirst({
+          where: {
+            externalRef: null,
+            homeTeam: fetched.homeTeam,
+            awayTeam: fetched.awayTeam,
+            startsAt: fetched.startsAt,
+            leagueId,
+          },
+        }));
+
+  if (!existing) {
+    const event = await tx.event.create({
+      data: {
+        externalRef: fetched.externalId,
+        leagueId,
+        title: fetched.title,
+        homeTeam: fetched.homeTeam,
+        awayTeam: fetched.awayTeam,
+        startsAt: fetched.startsAt,
+        status: "SCHEDULED",
+      },
+    });
+    return { event, created: true, updated: false };
+  }
+
+  // Kickoff moves are only followed until the game starts
+  const changed =
+    existing.externalRef !== fetched.externalId ||
+    (existing.status === "SCHEDULED" &&
+      (existing.startsAt.getTime() !== fetched.startsAt.getTime() ||
+        existing.homeTeam !== fetched.homeTeam ||
+        existing.awayTeam !== fetched.awayTeam));
+
+  if (!changed) {
+    return { event: existing, created: false, updated: false };
+  }
+
+  const event = await tx.event.update({
+    where: { id: existing.id },
+    data: {
+      externalRef: fetched.externalId,
+      ...(existing.status === "SCHEDULED" && {
+        homeTeam: fetched.homeTeam,
+        awayTeam: fetched.awayTeam,
+        startsAt: fetched.startsAt,
+      }),
+    },
+  });
+  return { event, created: false, updated: true };
+}
+
+// Store one fetched event with its markets and any lines that moved
+async function storeEvent(
+  tx: Prisma.TransactionClient,
+  fetched: FetchedEvent
+): Promise<StoreEventResult> {
+  const league = await findOrCreateLeague(tx, fetched.leagueName);
+  const { event, created, updated } = await upsertEvent(
+    tx,
+    fetched,
+    league.id
+  );
+  let linesCreated = 0;
+  let linesSkipped = 0;
+
+  for (const market of fetched.markets) {
+    // Find or create market; player props get one market per stat
+    let dbMarket = await tx.market.findFirst({
+      where: {
+        eventId: event.id,
+        type: market.type,
+        propKey: market.propKey ?? null,
+      },
+    });
+
+    if (!dbMarket) {
+      dbMarket = await tx.market.create({
+        data: {
+          eventId: event.id,
+          type: market.type,
+          propKey: market.propKey,
+          name: market.name,
+        },
+      });
+    }
+
+    // Last capture per option + book
+    const latestLines = latestLinesBySource(
+      market.type,
+      (
+        await tx.line.findMany({
+          where: { marketId: dbMarket.id },
+          orderBy: { capturedAt: "desc" },
+        })
+      ).map((line) => ({
+        ...line,
+        point: line.point !== null ? Number(line.point) : null,
+      }))
+    );
+
+    for (const line of market.lines) {
+      const key = optionKey(market.type, line);
+      const latest = latestLines.find(
+        (l) => optionKey(market.type, l) === key && l.source === line.source
+      );
+
+      if (
+        latest &&
+        latest.price === line.price &&
+        latest.point === line.point
+      ) {
+        linesSkipped++;
+        continue;
+      }
+
+      await tx.line.create({
+        data: {
+          marketId: dbMarket.id,
+          selectionKey: line.selectionKey,
+          label: line.label,
+          participant: line.participant,
+          point: line.point !== null ? new Prisma.Decimal(line.point) : null,
+          price: line.price,
+          source: line.source,
+          capturedAt: line.capturedAt,
+        },
+      });
+      linesCreated++;
+    }
+  }
+
+  return {
+    eventsCreated: created ? 1 : 0,
+    eventsUpdated: updated ? 1 : 0,
+    linesCreated,
+    linesSkipped,
+  };
+}
+
+const emptyResult = (): StoreEventResult => ({
+  eventsCreated: 0,
+  eventsUpdated: 0,
+  linesCreated: 0,
+  linesSkipped: 0,
+});
+
+const addResult = (total: StoreEventResult, stored: StoreEventResult) => {
+  total.eventsCreated += stored.eventsCreated;
+  total.eventsUpdated += stored.eventsUpdated;
+  total.linesCreated += stored.linesCreated;
+  total.linesSkipped += stored.linesSkipped;
+};
+
+const toGameError = (
+  fetched: FetchedEvent,
+  error: unknown
+): SyncGameError => ({
+  externalId: fetched.externalId,
+  matchup: fetched.title ?? `${fetched.awayTeam} @ ${fetched.homeTeam}`,
+  message: error instanceof Error ? error.message : "Unknown error",
+});
+
+export async function syncOdds(
+  sport: string,
+  options: FetchOddsOptions = {},
+  fetcher: OddsFetcher = getOddsFetcher()
+): Promise<SyncOddsResult> {
+  console.log(`Syncing ${sport} odds with the ${fetcher.name} provider`);
+
+  const syncRun = await prisma.syncRun.create({
+    data: { sport, provider: fetcher.name },
+  });
+
+  let response: Awaited<ReturnType<OddsFetcher["fetchOdds"]>>;
+
+  try {
+    response = await fetcher.fetchOdds(sport, options);
+  } catch (error) {
+    await prisma.syncRun.update({
+      where: { id: syncRun.id },
+      data: {
+        status: "FAILED",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+    });
+    throw error;
+  }
+
+  const { events, apiRemainingRequests, apiUsedRequests } = response;
+
+  const batches: FetchedEvent[][] = [];
+  for (let i = 0; i < events.length; i += BATCH_SIZE) {
+    batches.push(events.slice(i, i + BATCH_SIZE));
+  }
+
+  const totals = emptyResult();
+  const errors: SyncGameError[] = [];
+  let totalGamesProcessed = 0;
+
+  // Process each batch in a separate transaction. A failed game aborts its
+  // transaction, so a failed batch is retried one game at a time to store
+  // the rest and pin the error on the game that caused it.
+  for (const [batchIndex, batch] of batches.entries()) {
+    console.log(
+      `Processing batch ${batchIndex + 1}/${batches.length} (${
+        batch.length
+      } games)`
+    );
+
+    try {
+      const batchResult = await prisma.$transaction(
+        async (tx) => {
+          const batchResult = emptyResult();
+
+          for (const fetched of batch) {
+            addResult(batchResult, await storeEvent(tx, fetched));
+          }
+
+          return batchResult;
+        },
+        {
+          timeout: 30000, // 30 seconds timeout per batch
+        }
+      );
+
+      addResult(totals, batchResult);
+      totalGamesProcessed += batch.length;
+    } catch (batchError) {
+      console.error(
+        `Error processing batch ${batchIndex + 1}, retrying game by game:`,
+        batchError
+      );
+
+      for (const fetched of batch) {
+        try {
+          const stored = await prisma.$transaction(
+            (tx) => storeEvent(tx, fetched),
+            { timeout: 30000 }
+          );
+          addResult(totals, stored);
+          totalGamesProcessed++;
+        } catch (gameError) {
+          console.error(
+            `Error processing game ${fetched.externalId}:`,
+            gameError
+          );
+          errors.push(toGameError(fetched, gameError));
+        }
+      }
+    }
+  }
+
+  // Nothing stored at all is a failed run, not a partial one
+  const allFailed = errors.length > 0 && totalGamesProcessed === 0;
+  const status: SyncRunStatus = allFailed
+    ? "FAILED"
+    : errors.length > 0
+    ? "PARTIAL"
+    : "SUCCEEDED";
+
+  await prisma.syncRun.update({
+    where: { id: syncRun.id },
+    data: {
+      status,
+      finishedAt: new Date(),
+      error: allFailed ? "No game could be stored" : undefined,
+      ...totals,
+      gamesProcessed: totalGamesProcessed,
+      gamesFailed: errors.length,
+      apiRemainingRequests,
+      apiUsedRequests,
+      errors:
+        errors.length > 0
+          ? (errors as unknown as Prisma.InputJsonArray)
+          : undefined,
+    },
+  });
+
+  return {
+    syncRunId: syncRun.id,
+    status,
+    provider: fetcher.name,
+    ...totals,
+    totalGamesProcessed,
+    gamesFailed: errors.length,
+    errors,
+    apiRemainingRequests,
+    apiUsedRequests,
+  };
+}
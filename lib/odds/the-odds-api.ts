@@ -0,0 +1,223 @@
+// lib/odds/the-odds-api.ts
+// The Odds API (v4) payload shapes and their mapping onto FetchedEvent /
+// FetchedScore. Shared by the HTTP fetcher and the JSON fixtures.
+import { MarketKind, SelectionKey } from "../grading/rules";
+import { FetchedEvent, FetchedMarket, FetchedScore } from "./fetcher";
+
+export interface OddsApiBookmaker {
+  key: string;
+  title: string;
+  last_update: string;
+  markets: Array<{
+    key: string;
+    last_update: string;
+    outcomes: Array<{
+      name: string;
+      description?: string; // the player, on player prop markets
+      price: number;
+      point?: number;
+    }>;
+  }>;
+}
+
+export interface OddsApiGame {
+  id: string;
+  sport_key: string;
+  sport_title: string;
+  commence_time: string;
+  // null on outright sports (e.g. americanfootball_nfl_super_bowl_winner)
+  home_team: string | null;
+  away_team: string | null;
+  bookmakers: OddsApiBookmaker[];
+}
+
+export interface OddsApiScore {
+  id: string;
+  sport_key: string;
+  sport_title: string;
+  commence_time: string;
+  completed: boolean;
+  home_team: string;
+  away_team: string;
+  scores: Array<{
+    name: string;
+    score: string;
+  }> | null;
+  last_update: string | null;
+}
+
+// Helper function to map market types
+export function mapMarketType(oddsApiMarketKey: string): MarketKind | null {
+  switch (oddsApiMarketKey) {
+    case "h2h":
+      return "MONEYLINE";
+    case "spreads":
+      return "SPREAD";
+    case "totals":
+      return "TOTAL";
+    case "alternate_spreads":
+      return "ALT_SPREAD";
+    case "alternate_totals":
+      return "ALT_TOTAL";
+    case "outrights":
+      return "OUTRIGHT";
+    default:
+      // e.g. player_pass_yds, player_points
+      return oddsApiMarketKey.startsWith("player_") ? "PLAYER_PROP" : null;
+  }
+}
+
+// Names for common player prop keys; others are spelled out from the key
+const PLAYER_PROP_NAMES: Record<string, string> = {
+  player_pass_yds: "Passing Yards",
+  player_pass_tds: "Passing TDs",
+  player_rush_yds: "Rushing Yards",
+  player_reception_yds: "Receiving Yards",
+  player_receptions: "Receptions",
+  player_points: "Points",
+  player_rebounds: "Rebounds",
+  player_assists: "Assists",
+  player_threes: "Threes",
+};
+
+// "player_pass_yds" -> "Passing Yards", "player_blocks" -> "Blocks"
+export function playerPropName(oddsApiMarketKey: string): string {
+  return (
+    PLAYER_PROP_NAMES[oddsApiMarketKey] ??
+    oddsApiMarketKey
+      .replace(/^player_/, "")
+      .split("_")
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(" ")
+  );
+}
+
+// Helper function to map selection keys
+export function mapSelectionKey(
+  marketType: MarketKind,
+  outcomeName: string,
+  homeTeam: string,
+  awayTeam: string
+): SelectionKey | null {
+  // Every outcome is a named selection, e.g. "Kansas City Chiefs"
+  if (marketType === "OUTRIGHT") return "CUSTOM";
+
+  if (marketType === "TOTAL" || marketType === "ALT_TOTAL") {
+    return outcomeName.toLowerCase().includes("over") ? "OVER" : "UNDER";
+  }
+
+  // Yes/no props (e.g. anytime TD scorer) have no over/under to map
+  if (marketType === "PLAYER_PROP") {
+    if (outcomeName === "Over") return "OVER";
+    if (outcomeName === "Under") return "UNDER";
+    return null;
+  }
+
+  if (
+    marketType === "MONEYLINE" ||
+    marketType === "SPREAD" ||
+    marketType === "ALT_SPREAD"
+  ) {
+    if (outcomeName === homeTeam) return "HOME";
+    if (outcomeName === awayTeam) return "AWAY";
+  }
+
+  // Soccer h2h is three-way: home, away or "Draw"
+  if (marketType === "MONEYLINE" && outcomeName === "Draw") return "DRAW";
+
+  return null;
+}
+
+// Map a game onto our event/market/line shape. Every bookmaker's outcomes
+// are kept, tagged with their source. marketKeys optionally restricts markets.
+// Each player prop key becomes its own market. A future has no teams; it's
+// titled after its sport and its outcomes become named selections.
+export function parseOddsApiGame(
+  game: OddsApiGame,
+  marketKeys?: string[]
+): FetchedEvent {
+  const marketsByKey = new Map<string, FetchedMarket>();
+  const homeTeam = game.home_team ?? "";
+  const awayTeam = game.away_team ?? "";
+
+  for (const bookmaker of game.bookmakers) {
+    for (const market of bookmaker.markets) {
+      if (marketKeys && !marketKeys.includes(market.key)) continue;
+
+      const marketType = mapMarketType(market.key);
+      if (!marketType) continue;
+
+      const isProp = marketType === "PLAYER_PROP";
+      const mapKey = isProp ? market.key : marketType;
+
+      let fetchedMarket = marketsByKey.get(mapKey);
+      if (!fetchedMarket) {
+        fetchedMarket = isProp
+          ? {
+              type: marketType,
+              propKey: market.key,
+              name: playerPropName(market.key),
+              lines: [],
+            }
+          : marketType === "OUTRIGHT"
+          ? { type: marketType, name: "Winner", lines: [] }
+          : { type: marketType, lines: [] };
+        marketsByKey.set(mapKey, fetchedMarket);
+      }
+
+      for (const outcome of market.outcomes) {
+        const selectionKey = mapSelectionKey(
+          marketType,
+          outcome.name,
+          homeTeam,
+          awayTeam
+        );
+
+        if (!selectionKey) continue;
+        if (isProp && !outcome.description) continue;
+
+        fetchedMarket.lines.push({
+          selectionKey,
+          label: selectionKey === "CUSTOM" ? outcome.name : undefined,
+          participant: isProp ? outcome.description : undefined,
+          point: outcome.point ?? null,
+          price: Math.round(outcome.price), // Convert to integer for American odds
+          source: `${bookmaker.key}:${bookmaker.title}`,
+          capturedAt: new Date(market.last_update),
+        });
+      }
+    }
+  }
+
+  return {
+    externalId: game.id,
+    leagueName: game.sport_title,
+    title: game.home_team === null ? game.sport_title : undefined,
+    homeTeam,
+    awayTeam,
+    startsAt: new Date(game.commence_time),
+    markets: Array.from(marketsByKey.values()),
+  };
+}
+
+// Read a team's score out of the feed; null when the game has no scores yet
+function getTeamScore(game: OddsApiScore, team: string): number | null {
+  const entry = game.scores?.find((s) => s.name === team);
+  if (!entry) return null;
+
+  const score = parseInt(entry.score, 10);
+  return Number.isNaN(score) ? null : score;
+}
+
+export function parseOddsApiScore(game: OddsApiScore): FetchedScore {
+  return {
+    externalId: game.id,
+    homeTeam: game.home_team,
+    awayTeam: game.away_team,
+    startsAt: new Date(game.commence_time),
+    completed: game.completed,
+    homeScore: getTeamScore(game, game.home_team),
+    awayScore: getTeamScore(game, game.away_team),
+    lastUpdate: game.last_update ? new Date(game.last_update) : null,
+  };
+}
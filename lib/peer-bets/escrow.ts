@@ -0,0 +1,312 @@
+// lib/peer-bets/escrow.ts
+// Peer bets between group members. The proposer's stake goes into escrow
+// when the offer is posted and the taker's when it's accepted; settlement
+// pays both to the winner. Every function takes a transaction client so a
+// bet's status and its ledger entries commit together.
+import { PeerBet, Prisma } from "@prisma/client";
+import { postLedgerEntry } from "../ledger/service";
+import {
+  FinalScore,
+  gradeSelection,
+  MarketKind,
+  SelectionKey,
+} from "../grading/rules";
+import { SettlementResult } from "../grading/settle";
+import { isPastBettingCutoff } from "../markets/betting-window";
+import { takerStakeFor } from "./rules";
+
+export interface PeerBetOffer {
+  proposerId: string;
+  lineId: string;
+  stakeCents: number;
+  price: number;
+  // A custom number instead of the line's; ignored for moneylines
+  point?: number | null;
+}
+
+// Markets a peer bet can be offered on
+const PEER_BET_MARKETS: MarketKind[] = ["MONEYLINE", "SPREAD", "TOTAL"];
+
+const peerBetLineInclude = {
+  line: { include: { market: { include: { event: true } } } },
+} satisfies Prisma.PeerBetInclude;
+
+// Same cut-off as wagers: scheduled and not past the betting cut-off
+function assertEventOpen(event: { status: string; startsAt: Date }) {
+  if (event.status !== "SCHEDULED") {
+    throw new Error("Event is no longer open for betting");
+  }
+
+  if (isPastBettingCutoff(event.startsAt)) {
+    throw new Error("Event starts too soon to place bets");
+  }
+}
+
+// Post an offer and escrow the proposer's stake
+export async function createPeerBet(
+  tx: Prisma.TransactionClient,
+  { proposerId, lineId, stakeCents, price, point }: PeerBetOffer
+): Promise<PeerBet> {
+  const line = await tx.line.findUnique({
+    where: { id: lineId },
+    include: { market: { include: { event: true } } },
+  });
+
+  if (!line) {
+    throw new Error("Line not found");
+  }
+
+  assertEventOpen(line.market.event);
+
+  // Custom markets have no single other side, props and alternate lines
+  // add nothing when the proposer names their own number
+  if (!PEER_BET_MARKETS.includes(line.market.type)) {
+    throw new Error(
+      "Peer bets are only available on moneylines, spreads and totals"
+    );
+  }
+
+  // A draw has no single other side: the taker would be on both teams
+  if (line.selectionKey === "DRAW") {
+    throw new Error("Peer bets aren't available on the draw");
+  }
+
+  const lineMoves = line.market.type !== "MONEYLINE";
+  const proposerPoint = !lineMoves
+    ? null
+    : point ?? (line.point !== null ? Number(line.point) : null);
+
+  if (lineMoves && proposerPoint === null) {
+    throw new Error("A spread or total bet needs a point");
+  }
+
+  const takerStakeCents = takerStakeFor(stakeCents, price);
+  if (takerStakeCents < 1) {
+    throw new Error("The taker's stake would be less than 1 cent");
+  }
+
+  const peerBet = await tx.peerBet.create({
+    data: {
+      proposerId,
+      lineId,
+      point:
+        proposerPoint !== null ? new Prisma.Decimal(proposerPoint) : null,
+      price,
+      proposerStakeCents: stakeCents,
+      takerStakeCents,
+    },
+  });
+
+  await postLedgerEntry(tx, {
+    userId: proposerId,
+    peerBetId: peerBet.id,
+    type: "ESCROW_STAKE",
+    amountCents: -stakeCents,
+    description: `Escrowed stake for peer bet ${peerBet.id}`,
+  });
+
+  return peerBet;
+}
+
+// Take the other side of an open offer and escrow the taker's stake
+export async function acceptPeerBet(
+  tx: Prisma.TransactionClient,
+  peerBetId: string,
+  takerId: string
+): Promise<PeerBet> {
+  const existing = await tx.peerBet.findUnique({
+    where: { id: peerBetId },
+    include: peerBetLineInclude,
+  });
+
+  if (!existing) {
+    throw new Error("Peer bet not found");
+  }
+
+  if (existing.proposerId === takerId) {
+    throw new Error("You cannot take your own bet");
+  }
+
+  assertEventOpen(existing.line.market.event);
+
+  // Conditional update so two members can't both take the same offer
+  const { count } = await tx.peerBet.updateMany({
+    where: { id: peerBetId, status: "OPEN" },
+    data: { status: "MATCHED", takerId, matchedAt: new Date() },
+  });
+
+  if (count !== 1) {
+    throw new Error("Peer bet is no longer open");
+  }
+
+  await postLedgerEntry(tx, {
+    userId: takerId,
+    peerBetId,
+    type: "ESCROW_STAKE",
+    amountCents: -existing.takerStakeCents,
+    description: `Escrowed stake for peer bet ${peerBetId}`,
+  });
+
+  return tx.peerBet.findUniqueOrThrow({ where: { id: peerBetId } });
+}
+
+// Withdraw an offer nobody has taken and return the proposer's stake
+async function closeOpenPeerBet(
+  tx: Prisma.TransactionClient,
+  peerBet: PeerBet,
+  description: string
+): Promise<boolean> {
+  const { count } = await tx.peerBet.updateMany({
+    where: { id: peerBet.id, status: "OPEN" },
+    data: { status: "CANCELLED", settledAt: new Date() },
+  });
+
+  if (count !== 1) return false;
+
+  await postLedgerEntry(tx, {
+    userId: peerBet.proposerId,
+    peerBetId: peerBet.id,
+    type: "ESCROW_REFUND",
+    amountCents: peerBet.proposerStakeCents,
+    description,
+  });
+
+  return true;
+}
+
+export async function cancelPeerBet(
+  tx: Prisma.TransactionClient,
+  peerBetId: string,
+  userId: string
+): Promise<PeerBet> {
+  const existing = await tx.peerBet.findUnique({ where: { id: peerBetId } });
+
+  if (!existing) {
+    throw new Error("Peer bet not found");
+  }
+
+  if (existing.proposerId !== userId) {
+    throw new Error("Unauthorized: You can only cancel your own offers");
+  }
+
+  const cancelled = await closeOpenPeerBet(
+    tx,
+    existing,
+    `Refund for cancelled peer bet ${peerBetId}`
+  );
+
+  if (!cancelled) {
+    throw new Error("Peer bet is no longer open");
+  }
+
+  return tx.peerBet.findUniqueOrThrow({ where: { id: peerBetId } });
+}
+
+// Settle a MATCHED bet from the proposer's point of view: the winner gets
+// both stakes, a push or void returns each stake to its owner
+export async function settlePeerBet(
+  tx: Prisma.TransactionClient,
+  peerBetId: string,
+  result: SettlementResult
+): Promise<PeerBet> {
+  const existing = await tx.peerBet.findUnique({ where: { id: peerBetId } });
+
+  if (!existing) {
+    throw new Error("Peer bet not found");
+  }
+
+  const { count } = await tx.peerBet.updateMany({
+    where: { id: peerBetId, status: "MATCHED" },
+    data: { status: "SETTLED", result, settledAt: new Date() },
+  });
+
+  if (count !== 1 || !existing.takerId) {
+    throw new Error(`Peer bet is not matched (status: ${existing.status})`);
+  }
+
+  const potCents = existing.proposerStakeCents + existing.takerStakeCents;
+
+  switch (result) {
+    case "WON":
+    case "LOST": {
+      const winnerId =
+        result === "WON" ? existing.proposerId : existing.takerId;
+      await postLedgerEntry(tx, {
+        userId: winnerId,
+        peerBetId,
+        type: "ESCROW_PAYOUT",
+        amountCents: potCents,
+        description: `Payout for winning peer bet ${peerBetId}`,
+      });
+      break;
+    }
+
+    case "PUSH":
+    case "VOID":
+      for (const [userId, stakeCents] of [
+        [existing.proposerId, existing.proposerStakeCents],
+        [existing.takerId, existing.takerStakeCents],
+      ] as const) {
+        await postLedgerEntry(tx, {
+          userId,
+          peerBetId,
+          type: "ESCROW_REFUND",
+          amountCents: stakeCents,
+          description: `Refund for ${result.toLowerCase()} peer bet ${peerBetId}`,
+        });
+      }
+      break;
+  }
+
+  return tx.peerBet.findUniqueOrThrow({ where: { id: peerBetId } });
+}
+
+export interface EventPeerBetGrading {
+  peerBetsSettled: number;
+  peerBetsCancelled: number; // offers nobody took before the event ended
+}
+
+// Settle every matched bet on a graded event and close its open offers.
+// Called from gradeEvent() inside its transaction.
+export async function gradeEventPeerBets(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  score: FinalScore
+): Promise<EventPeerBetGrading> {
+  const peerBets = await tx.peerBet.findMany({
+    where: {
+      status: { in: ["OPEN", "MATCHED"] },
+      line: { market: { eventId } },
+    },
+    include: peerBetLineInclude,
+  });
+
+  let peerBetsSettled = 0;
+  let peerBetsCancelled = 0;
+
+  for (const peerBet of peerBets) {
+    if (peerBet.status === "OPEN") {
+      await closeOpenPeerBet(
+        tx,
+        peerBet,
+        `Refund for unmatched peer bet ${peerBet.id}`
+      );
+      peerBetsCancelled++;
+      continue;
+    }
+
+    // Graded two-way: a peer bet is one team against the other, so a tie
+    // pushes it even on a soccer moneyline
+    const outcome = gradeSelection(
+      peerBet.line.market.type as MarketKind,
+      peerBet.line.selectionKey as SelectionKey,
+      peerBet.point !== null ? Number(peerBet.point) : null,
+      score
+    );
+
+    await settlePeerBet(tx, peerBet.id, outcome);
+    peerBetsSettled++;
+  }
+
+  return { peerBetsSettled, peerBetsCancelled };
+}
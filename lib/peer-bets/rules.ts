@@ -0,0 +1,51 @@
+// lib/peer-bets/rules.ts
+// Pure peer-bet math: the side the taker gets and what each side risks.
+// No IO in here.
+import { MarketKind, SelectionKey } from "../grading/rules";
+
+export interface PeerBetSide {
+  selection: SelectionKey;
+  point: number | null;
+}
+
+// Even money unless the proposer asks for other odds
+export const EVEN_MONEY_PRICE = 100;
+
+// The other side of a selection: spreads flip the number, totals keep it
+export function oppositeSide(
+  marketType: MarketKind,
+  { selection, point }: PeerBetSide
+): PeerBetSide {
+  switch (selection) {
+    case "HOME":
+      return {
+        selection: "AWAY",
+        point: marketType === "SPREAD" && point !== null ? -point : point,
+      };
+    case "AWAY":
+      return {
+        selection: "HOME",
+        point: marketType === "SPREAD" && point !== null ? -point : point,
+      };
+    case "OVER":
+      return { selection: "UNDER", point };
+    case "UNDER":
+      return { selection: "OVER", point };
+    case "DRAW":
+      throw new Error("Peer bets aren't available on the draw");
+    case "CUSTOM":
+      // One of many named selections; there's no single other side
+      throw new Error(`Peer bets aren't available on ${marketType} markets`);
+  }
+}
+
+// What the taker puts up: the proposer's winnings at the proposer's price,
+// so the winner takes both stakes. At +100 the stakes are equal.
+export function takerStakeFor(
+  proposerStakeCents: number,
+  price: number
+): number {
+  return price > 0
+    ? Math.round((proposerStakeCents * price) / 100)
+    : Math.round((proposerStakeCents * 100) / Math.abs(price));
+}
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "awayScore" INTEGER,
+ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "gradedAt" TIMESTAMP(3),
+ADD COLUMN     "homeScore" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Wager" ADD COLUMN     "settledAt" TIMESTAMP(3);
@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "WagerType" AS ENUM ('STRAIGHT', 'PARLAY');
+
+-- DropForeignKey
+ALTER TABLE "Wager" DROP CONSTRAINT "Wager_lineId_fkey";
+
+-- AlterTable
+ALTER TABLE "Wager" ADD COLUMN     "type" "WagerType" NOT NULL DEFAULT 'STRAIGHT',
+ALTER COLUMN "lineId" DROP NOT NULL;
+
+-- CreateTable
+CREATE TABLE "WagerLeg" (
+    "id" TEXT NOT NULL,
+    "wagerId" TEXT NOT NULL,
+    "lineId" TEXT NOT NULL,
+    "acceptedPoint" DECIMAL(65,30),
+    "acceptedPrice" INTEGER NOT NULL,
+    "status" "WagerStatus" NOT NULL DEFAULT 'PENDING',
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "WagerLeg_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Wager" ADD CONSTRAINT "Wager_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "Line"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WagerLeg" ADD CONSTRAINT "WagerLeg_wagerId_fkey" FOREIGN KEY ("wagerId") REFERENCES "Wager"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WagerLeg" ADD CONSTRAINT "WagerLeg_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "Line"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
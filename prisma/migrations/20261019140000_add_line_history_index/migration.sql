@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Line_marketId_capturedAt_idx" ON "Line"("marketId", "capturedAt");
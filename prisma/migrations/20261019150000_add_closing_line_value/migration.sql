@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Wager" ADD COLUMN     "closingPoint" DECIMAL(65,30),
+ADD COLUMN     "closingPrice" INTEGER,
+ADD COLUMN     "clvCents" DECIMAL(65,30),
+ADD COLUMN     "clvPoints" DECIMAL(65,30);
+
+-- AlterTable
+ALTER TABLE "WagerLeg" ADD COLUMN     "closingPoint" DECIMAL(65,30),
+ADD COLUMN     "closingPrice" INTEGER,
+ADD COLUMN     "clvCents" DECIMAL(65,30),
+ADD COLUMN     "clvPoints" DECIMAL(65,30);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "externalRef" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Event_externalRef_key" ON "Event"("externalRef");
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "SyncRunStatus" AS ENUM ('RUNNING', 'SUCCEEDED', 'PARTIAL', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "SyncRun" (
+    "id" TEXT NOT NULL,
+    "sport" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "status" "SyncRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "eventsCreated" INTEGER NOT NULL DEFAULT 0,
+    "eventsUpdated" INTEGER NOT NULL DEFAULT 0,
+    "linesCreated" INTEGER NOT NULL DEFAULT 0,
+    "linesSkipped" INTEGER NOT NULL DEFAULT 0,
+    "gamesProcessed" INTEGER NOT NULL DEFAULT 0,
+    "gamesFailed" INTEGER NOT NULL DEFAULT 0,
+    "apiRemainingRequests" TEXT,
+    "apiUsedRequests" TEXT,
+    "errors" JSONB,
+    "error" TEXT,
+
+    CONSTRAINT "SyncRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRun_startedAt_idx" ON "SyncRun"("startedAt");
@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "Role" AS ENUM ('ADMIN', 'PLAYER');
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" "Role" NOT NULL DEFAULT 'PLAYER';
+
+-- Existing groups keep working: their earliest user becomes the admin
+UPDATE "User" SET "role" = 'ADMIN'
+WHERE "id" = (SELECT "id" FROM "User" ORDER BY "createdAt" ASC LIMIT 1);
@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "LedgerType" ADD VALUE 'ADJUSTMENT';
+
+-- AlterTable: balances now start at 0 and are funded through the ledger
+ALTER TABLE "User" ALTER COLUMN "balanceCents" SET DEFAULT 0;
+
+-- Backfill: open each existing user's ledger with the balance it doesn't
+-- account for yet, so their entries sum to their balance
+INSERT INTO "LedgerEntry" ("id", "userId", "type", "amountCents", "description")
+SELECT
+    gen_random_uuid()::text,
+    u."id",
+    CASE WHEN u."balanceCents" - COALESCE(l."sumCents", 0) > 0
+        THEN 'DEPOSIT'::"LedgerType"
+        ELSE 'WITHDRAWAL'::"LedgerType"
+    END,
+    u."balanceCents" - COALESCE(l."sumCents", 0),
+    'Opening balance'
+FROM "User" u
+LEFT JOIN (
+    SELECT "userId", SUM("amountCents") AS "sumCents"
+    FROM "LedgerEntry"
+    GROUP BY "userId"
+) l ON l."userId" = u."id"
+WHERE u."balanceCents" <> COALESCE(l."sumCents", 0);
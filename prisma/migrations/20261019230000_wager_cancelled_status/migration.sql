@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "WagerStatus" ADD VALUE 'CANCELLED';
@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "LedgerType" ADD VALUE 'SETTLEMENT_REVERSAL';
+
+-- CreateTable
+CREATE TABLE "WagerGradeChange" (
+    "id" TEXT NOT NULL,
+    "wagerId" TEXT NOT NULL,
+    "fromStatus" "WagerStatus" NOT NULL,
+    "toStatus" "WagerStatus" NOT NULL,
+    "reason" TEXT NOT NULL,
+    "changedById" TEXT NOT NULL,
+    "reversedCents" INTEGER NOT NULL,
+    "paidCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WagerGradeChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WagerGradeChange_wagerId_idx" ON "WagerGradeChange"("wagerId");
+
+-- AddForeignKey
+ALTER TABLE "WagerGradeChange" ADD CONSTRAINT "WagerGradeChange_wagerId_fkey" FOREIGN KEY ("wagerId") REFERENCES "Wager"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WagerGradeChange" ADD CONSTRAINT "WagerGradeChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
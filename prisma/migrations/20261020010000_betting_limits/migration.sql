@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "dailyLossLimitCents" INTEGER,
+ADD COLUMN     "maxEventExposureCents" INTEGER,
+ADD COLUMN     "maxStakeCents" INTEGER,
+ADD COLUMN     "selfExcludedUntil" TIMESTAMP(3),
+ADD COLUMN     "weeklyLossLimitCents" INTEGER;
@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "PeerBetStatus" AS ENUM ('OPEN', 'MATCHED', 'SETTLED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "LedgerType" ADD VALUE 'ESCROW_STAKE';
+ALTER TYPE "LedgerType" ADD VALUE 'ESCROW_PAYOUT';
+ALTER TYPE "LedgerType" ADD VALUE 'ESCROW_REFUND';
+
+-- AlterTable
+ALTER TABLE "LedgerEntry" ADD COLUMN     "peerBetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "PeerBet" (
+    "id" TEXT NOT NULL,
+    "proposerId" TEXT NOT NULL,
+    "takerId" TEXT,
+    "lineId" TEXT NOT NULL,
+    "point" DECIMAL(65,30),
+    "price" INTEGER NOT NULL,
+    "proposerStakeCents" INTEGER NOT NULL,
+    "takerStakeCents" INTEGER NOT NULL,
+    "status" "PeerBetStatus" NOT NULL DEFAULT 'OPEN',
+    "result" "WagerStatus",
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "matchedAt" TIMESTAMP(3),
+    "settledAt" TIMESTAMP(3),
+
+    CONSTRAINT "PeerBet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PeerBet_status_idx" ON "PeerBet"("status");
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_peerBetId_fkey" FOREIGN KEY ("peerBetId") REFERENCES "PeerBet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeerBet" ADD CONSTRAINT "PeerBet_proposerId_fkey" FOREIGN KEY ("proposerId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeerBet" ADD CONSTRAINT "PeerBet_takerId_fkey" FOREIGN KEY ("takerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PeerBet" ADD CONSTRAINT "PeerBet_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "Line"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
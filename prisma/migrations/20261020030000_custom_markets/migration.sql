@@ -0,0 +1,15 @@
+-- AlterEnum
+ALTER TYPE "MarketType" ADD VALUE 'CUSTOM';
+
+-- AlterEnum
+ALTER TYPE "Selection" ADD VALUE 'CUSTOM';
+
+-- AlterTable
+ALTER TABLE "Event" ADD COLUMN     "title" TEXT;
+
+-- AlterTable
+ALTER TABLE "Market" ADD COLUMN     "name" TEXT,
+ADD COLUMN     "settledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Line" ADD COLUMN     "label" TEXT;
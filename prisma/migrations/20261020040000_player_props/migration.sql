@@ -0,0 +1,10 @@
+-- AlterEnum
+ALTER TYPE "MarketType" ADD VALUE 'PLAYER_PROP';
+ALTER TYPE "MarketType" ADD VALUE 'ALT_SPREAD';
+ALTER TYPE "MarketType" ADD VALUE 'ALT_TOTAL';
+
+-- AlterTable
+ALTER TABLE "Market" ADD COLUMN     "propKey" TEXT;
+
+-- AlterTable
+ALTER TABLE "Line" ADD COLUMN     "participant" TEXT;
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "Selection" ADD VALUE 'DRAW';
@@ -0,0 +1,37 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { SESSION_COOKIE } from "../../../lib/auth/cookie";
+import { getUserBySessionToken } from "../../../lib/auth/session";
+
+// Server-side gate for the admin pages: players get a 403 notice instead
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  const user = token ? await getUserBySessionToken(token) : null;
+
+  if (!user) {
+    redirect("/login?next=/admin");
+  }
+
+  if (user.role !== "ADMIN") {
+    return (
+      <div className="min-h-screen bg-gray-50 py-8">
+        <div className="max-w-md mx-auto px-4">
+          <div className="bg-white rounded-lg shadow-md p-6 text-center">
+            <h1 className="text-xl font-semibold text-gray-900 mb-2">
+              403 - Admins only
+            </h1>
+            <p className="text-gray-600">
+              Ask your group&apos;s admin if you need something changed.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return children;
+}
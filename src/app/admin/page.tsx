@@ -1,6 +1,13 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import JobRunsPanel from "@/components/JobRunsPanel";
+import SyncRunsPanel from "@/components/SyncRunsPanel";
+import InvitesPanel from "@/components/InvitesPanel";
+import ReconciliationPanel from "@/components/ReconciliationPanel";
+import BulkSettlePanel from "@/components/BulkSettlePanel";
+import CustomMarketsPanel from "@/components/CustomMarketsPanel";
+import BettingLimitsPanel from "@/components/BettingLimitsPanel";
 
 interface User {
   id: string;
@@ -13,12 +20,24 @@ interface User {
 }
 
 export default function AdminPage() {
-  const [displayName, setDisplayName] = useState("");
-  const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState("");
   const [isError, setIsError] = useState(false);
   const [users, setUsers] = useState<User[]>([]);
   const [usersLoading, setUsersLoading] = useState(true);
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradeMessage, setGradeMessage] = useState("");
+  const [isGradeError, setIsGradeError] = useState(false);
+  const [scoresSport, setScoresSport] = useState("americanfootball_nfl");
+  const [isSyncingScores, setIsSyncingScores] = useState(false);
+  const [isRecordingClv, setIsRecordingClv] = useState(false);
+  const [adjustUserId, setAdjustUserId] = useState<string | null>(null);
+  const [adjustType, setAdjustType] = useState<
+    "ADJUSTMENT" | "DEPOSIT" | "WITHDRAWAL"
+  >("ADJUSTMENT");
+  const [adjustAmount, setAdjustAmount] = useState("");
+  const [adjustReason, setAdjustReason] = useState("");
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const [limitsUserId, setLimitsUserId] = useState<string | null>(null);
 
   const fetchUsers = async () => {
     try {
@@ -42,45 +61,183 @@ export default function AdminPage() {
     fetchUsers();
   }, []);
 
-  const handleAddUser = async () => {
-    if (!displayName.trim()) {
-      setMessage("Display name is required");
+  const handleToggleAdjust = (userId: string) => {
+    setAdjustUserId(adjustUserId === userId ? null : userId);
+    setAdjustType("ADJUSTMENT");
+    setAdjustAmount("");
+    setAdjustReason("");
+  };
+
+  const handleAdjustBalance = async (user: User) => {
+    // Dollars in the form; deposits and withdrawals are entered unsigned
+    const dollars = parseFloat(adjustAmount);
+    if (!Number.isFinite(dollars) || dollars === 0) {
+      setMessage("Enter a non-zero amount");
       setIsError(true);
       return;
     }
 
-    setIsLoading(true);
+    const cents = Math.round(dollars * 100);
+    const amountCents =
+      adjustType === "DEPOSIT"
+        ? Math.abs(cents)
+        : adjustType === "WITHDRAWAL"
+        ? -Math.abs(cents)
+        : cents;
+
+    setIsAdjusting(true);
     setMessage("");
     setIsError(false);
 
     try {
-      const response = await fetch("/api/users", {
+      const response = await fetch(`/api/admin/users/${user.id}/adjust`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          displayName: displayName.trim(),
+          type: adjustType,
+          amountCents,
+          reason: adjustReason.trim(),
         }),
       });
 
       const data = await response.json();
 
       if (response.ok) {
-        setMessage(`User "${data.user.displayName}" created successfully!`);
+        setMessage(
+          `${user.displayName}'s balance is now $${(
+            data.balanceCents / 100
+          ).toFixed(2)}`
+        );
         setIsError(false);
-        setDisplayName(""); // Clear the form
-        fetchUsers(); // Refresh the user list
+        setAdjustUserId(null);
+        fetchUsers();
       } else {
-        setMessage(data.error?.message || "Failed to create user");
+        setMessage(
+          data.error?.details?.[0]?.message ||
+            data.error?.message ||
+            "Failed to adjust balance"
+        );
         setIsError(true);
       }
     } catch (error) {
-      console.error("Error creating user:", error);
-      setMessage("Network error: Failed to create user");
+      console.error("Error adjusting balance:", error);
+      setMessage("Network error: Failed to adjust balance");
       setIsError(true);
     } finally {
-      setIsLoading(false);
+      setIsAdjusting(false);
+    }
+  };
+
+  const handleGradeEvents = async () => {
+    setIsGrading(true);
+    setGradeMessage("");
+    setIsGradeError(false);
+
+    try {
+      const response = await fetch("/api/admin/grade", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setGradeMessage(
+          `Graded ${data.data.wagersGraded} wager${
+            data.data.wagersGraded !== 1 ? "s" : ""
+          } across ${data.data.eventsGraded} event${
+            data.data.eventsGraded !== 1 ? "s" : ""
+          }`
+        );
+        setIsGradeError(false);
+        fetchUsers(); // Balances may have changed
+      } else {
+        setGradeMessage(data.error?.message || "Failed to grade events");
+        setIsGradeError(true);
+      }
+    } catch (error) {
+      console.error("Error grading events:", error);
+      setGradeMessage("Network error: Failed to grade events");
+      setIsGradeError(true);
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  const handleSyncScores = async () => {
+    setIsSyncingScores(true);
+    setGradeMessage("");
+    setIsGradeError(false);
+
+    try {
+      const response = await fetch("/api/odds/scores", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ sport: scoresSport }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setGradeMessage(
+          `Scores synced: ${data.data.eventsMatched} events matched, ${data.data.eventsFinalized} final, ${data.data.wagersGraded} wagers graded`
+        );
+        setIsGradeError(false);
+        fetchUsers(); // Balances may have changed
+      } else {
+        setGradeMessage(data.error?.message || "Failed to sync scores");
+        setIsGradeError(true);
+      }
+    } catch (error) {
+      console.error("Error syncing scores:", error);
+      setGradeMessage("Network error: Failed to sync scores");
+      setIsGradeError(true);
+    } finally {
+      setIsSyncingScores(false);
+    }
+  };
+
+  const handleRecordClv = async () => {
+    setIsRecordingClv(true);
+    setGradeMessage("");
+    setIsGradeError(false);
+
+    try {
+      const response = await fetch("/api/admin/clv", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({}),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setGradeMessage(
+          `Recorded closing line value for ${data.data.wagersRecorded} wagers and ${data.data.legsRecorded} parlay legs across ${data.data.eventsProcessed} events`
+        );
+        setIsGradeError(false);
+        fetchUsers();
+      } else {
+        setGradeMessage(
+          data.error?.message || "Failed to record closing line value"
+        );
+        setIsGradeError(true);
+      }
+    } catch (error) {
+      console.error("Error recording closing line value:", error);
+      setGradeMessage("Network error: Failed to record closing line value");
+      setIsGradeError(true);
+    } finally {
+      setIsRecordingClv(false);
     }
   };
 
@@ -154,47 +311,101 @@ export default function AdminPage() {
                               {user._count.wagers !== 1 ? "s" : ""}
                             </p>
                           </div>
-                          <div className="text-xs text-gray-400">
-                            {new Date(user.createdAt).toLocaleDateString()}
+                          <div className="flex flex-col items-end gap-2">
+                            <div className="text-xs text-gray-400">
+                              {new Date(user.createdAt).toLocaleDateString()}
+                            </div>
+                            <button
+                              onClick={() => handleToggleAdjust(user.id)}
+                              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                            >
+                              {adjustUserId === user.id ? "Cancel" : "Adjust"}
+                            </button>
+                            <button
+                              onClick={() =>
+                                setLimitsUserId(
+                                  limitsUserId === user.id ? null : user.id
+                                )
+                              }
+                              className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                            >
+                              {limitsUserId === user.id ? "Hide limits" : "Limits"}
+                            </button>
                           </div>
                         </div>
+                        {adjustUserId === user.id && (
+                          <div className="mt-3 pt-3 border-t space-y-2">
+                            <div className="flex gap-2">
+                              <select
+                                value={adjustType}
+                                onChange={(e) =>
+                                  setAdjustType(
+                                    e.target.value as typeof adjustType
+                                  )
+                                }
+                                className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                disabled={isAdjusting}
+                              >
+                                <option value="ADJUSTMENT">Adjustment</option>
+                                <option value="DEPOSIT">Deposit</option>
+                                <option value="WITHDRAWAL">Withdrawal</option>
+                              </select>
+                              <input
+                                type="number"
+                                step="0.01"
+                                value={adjustAmount}
+                                onChange={(e) => setAdjustAmount(e.target.value)}
+                                placeholder={
+                                  adjustType === "ADJUSTMENT"
+                                    ? "Amount ($, negative to debit)"
+                                    : "Amount ($)"
+                                }
+                                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                disabled={isAdjusting}
+                              />
+                            </div>
+                            <input
+                              type="text"
+                              value={adjustReason}
+                              onChange={(e) => setAdjustReason(e.target.value)}
+                              placeholder="Reason"
+                              className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              disabled={isAdjusting}
+                            />
+                            <button
+                              onClick={() => handleAdjustBalance(user)}
+                              disabled={
+                                isAdjusting ||
+                                !adjustAmount ||
+                                !adjustReason.trim()
+                              }
+                              className="w-full bg-blue-600 text-white py-1.5 px-3 rounded-md text-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                            >
+                              {isAdjusting ? "Saving..." : "Post to ledger"}
+                            </button>
+                          </div>
+                        )}
+                        {limitsUserId === user.id && (
+                          <div className="mt-3 pt-3 border-t">
+                            <BettingLimitsPanel userId={user.id} />
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
                 )}
               </div>
 
-              {/* Add User Form */}
+              {/* New players join through an invite, see Invites below */}
               <div>
                 <h3 className="text-lg font-medium text-gray-900 mb-4">
                   Add New User
                 </h3>
                 <div className="space-y-4">
-                  <div>
-                    <label
-                      htmlFor="displayName"
-                      className="block text-sm font-medium text-gray-700 mb-2"
-                    >
-                      Display Name
-                    </label>
-                    <input
-                      type="text"
-                      id="displayName"
-                      value={displayName}
-                      onChange={(e) => setDisplayName(e.target.value)}
-                      placeholder="Enter user display name"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      disabled={isLoading}
-                    />
-                  </div>
-
-                  <button
-                    onClick={handleAddUser}
-                    disabled={isLoading || !displayName.trim()}
-                    className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
-                  >
-                    {isLoading ? "Adding User..." : "Add User"}
-                  </button>
+                  <p className="text-sm text-gray-600">
+                    Players sign up with an invite code. Create one in the
+                    Invites section below.
+                  </p>
 
                   {message && (
                     <div
@@ -211,6 +422,101 @@ export default function AdminPage() {
               </div>
             </div>
           </div>
+
+          {/* Grading Section */}
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <div className="flex items-center mb-4">
+              <div className="w-8 h-8 bg-green-100 rounded-lg flex items-center justify-center mr-3">
+                <svg
+                  className="w-5 h-5 text-green-600"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                  />
+                </svg>
+              </div>
+              <h2 className="text-xl font-semibold text-gray-900">Grading</h2>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              Pull the latest scores, then settle every pending wager on final
+              events using their recorded scores.
+            </p>
+
+            <div className="space-y-4 max-w-md">
+              <div className="flex gap-2">
+                <select
+                  value={scoresSport}
+                  onChange={(e) => setScoresSport(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 bg-white"
+                  disabled={isSyncingScores}
+                >
+                  <option value="americanfootball_nfl">NFL</option>
+                  <option value="americanfootball_ncaaf">NCAAF</option>
+                  <option value="baseball_mlb">MLB</option>
+                </select>
+                <button
+                  onClick={handleSyncScores}
+                  disabled={isSyncingScores || isGrading}
+                  className="bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+                >
+                  {isSyncingScores ? "Syncing..." : "Sync Scores"}
+                </button>
+              </div>
+
+              <button
+                onClick={handleGradeEvents}
+                disabled={isGrading || isSyncingScores}
+                className="w-full bg-green-600 text-white py-2 px-4 rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+              >
+                {isGrading ? "Grading..." : "Grade Final Events"}
+              </button>
+
+              <button
+                onClick={handleRecordClv}
+                disabled={isRecordingClv || isGrading}
+                className="w-full bg-white text-green-700 py-2 px-4 rounded-md border border-green-600 hover:bg-green-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 disabled:text-gray-400 disabled:border-gray-300 disabled:cursor-not-allowed transition-colors"
+              >
+                {isRecordingClv ? "Recording..." : "Record Closing Lines"}
+              </button>
+
+              {gradeMessage && (
+                <div
+                  className={`p-3 rounded-md text-sm ${
+                    isGradeError
+                      ? "bg-red-50 text-red-700 border border-red-200"
+                      : "bg-green-50 text-green-700 border border-green-200"
+                  }`}
+                >
+                  {gradeMessage}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Background Jobs Section */}
+          <JobRunsPanel />
+
+          {/* Odds Sync Runs Section */}
+          <SyncRunsPanel />
+
+          {/* Invites Section */}
+          <InvitesPanel />
+
+          {/* Ledger Reconciliation Section */}
+          <ReconciliationPanel />
+
+          {/* Bulk Settlement Section */}
+          <BulkSettlePanel />
+
+          {/* Custom Markets Section */}
+          <CustomMarketsPanel />
         </div>
       </div>
     </div>
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import {
+  recordClosingLines,
+  recordStartedEventClosingLines,
+} from "../../../../../lib/clv/record";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+
+// Zod validation schema for recording closing line value
+const clvRequestSchema = z.object({
+  eventId: z.string().uuid("Invalid event ID format").optional(),
+});
+
+// POST records CLV for one event (if eventId given) or every started event
+// that still has wagers without it
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = clvRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { eventId } = validationResult.data;
+
+    const results = eventId
+      ? [await recordClosingLines(prisma, eventId)]
+      : await recordStartedEventClosingLines();
+
+    const wagersRecorded = results.reduce(
+      (sum, result) => sum + result.wagersRecorded,
+      0
+    );
+    const legsRecorded = results.reduce(
+      (sum, result) => sum + result.legsRecorded,
+      0
+    );
+
+    console.log(
+      `Recorded CLV for ${wagersRecorded} wagers and ${legsRecorded} legs across ${results.length} events`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        eventsProcessed: results.length,
+        wagersRecorded,
+        legsRecorded,
+        events: results,
+      },
+      message: "Closing line value recorded successfully",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error recording closing line value:", error);
+
+    if (error instanceof Error && error.message === "Event not found") {
+      return NextResponse.json(
+        {
+          error: {
+            code: "EVENT_NOT_FOUND",
+            message: "The specified event does not exist",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "CLV_ERROR",
+          message: "Failed to record closing line value",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
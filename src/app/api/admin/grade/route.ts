@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  gradeEvent,
+  gradeFinalEvents,
+} from "../../../../../lib/grading/settle";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+
+// Zod validation schema for force-grading
+const gradeRequestSchema = z.object({
+  eventId: z.string().uuid("Invalid event ID format").optional(),
+});
+
+// POST grades one event (if eventId given) or every FINAL event with pending wagers
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = gradeRequestSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { eventId } = validationResult.data;
+
+    const results = eventId
+      ? [await gradeEvent(eventId)]
+      : await gradeFinalEvents();
+
+    const wagersGraded = results.reduce(
+      (sum, result) => sum + result.wagersGraded,
+      0
+    );
+    const legsGraded = results.reduce(
+      (sum, result) => sum + result.legsGraded,
+      0
+    );
+    const peerBetsSettled = results.reduce(
+      (sum, result) => sum + result.peerBetsSettled,
+      0
+    );
+
+    console.log(
+      `Graded ${wagersGraded} wagers across ${results.length} events`
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        eventsGraded: results.length,
+        wagersGraded,
+        legsGraded,
+        peerBetsSettled,
+        events: results,
+      },
+      message: "Grading completed successfully",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error grading events:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Event not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "EVENT_NOT_FOUND",
+              message: "The specified event does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (
+        errorMessage.startsWith("Event is not final") ||
+        errorMessage === "Event has no final score recorded"
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "EVENT_NOT_GRADABLE",
+              message: errorMessage,
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "GRADING_ERROR",
+          message: "Failed to grade events",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../lib/auth/session";
+import { getInviteStatus } from "../../../../../../lib/auth/invites";
+
+// DELETE revokes an invite that hasn't been redeemed yet. The row is kept
+// so the admin table still shows who was invited.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request);
+    const { id } = await params;
+
+    const invite = await prisma.invite.findUnique({ where: { id } });
+
+    if (!invite) {
+      throw new Error("Invite not found");
+    }
+
+    if (getInviteStatus(invite) !== "PENDING") {
+      throw new Error(
+        `Cannot revoke invite: it is already ${getInviteStatus(invite).toLowerCase()}`
+      );
+    }
+
+    const revoked = await prisma.invite.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    return NextResponse.json({
+      success: true,
+      invite: { ...revoked, status: getInviteStatus(revoked) },
+      message: "Invite revoked",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error revoking invite:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "Invite not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVITE_NOT_FOUND",
+              message: "The specified invite does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.startsWith("Cannot revoke invite:")) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVITE_NOT_REVOCABLE",
+              message: error.message,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to revoke invite",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
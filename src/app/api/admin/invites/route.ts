@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+import {
+  DEFAULT_INVITE_TTL_DAYS,
+  generateInviteCode,
+  getInviteStatus,
+} from "../../../../../lib/auth/invites";
+import { sendMail } from "../../../../../lib/mail/send";
+
+// Zod validation schema for creating an invite
+const createInviteSchema = z.object({
+  // Lock the invite to one address (and mail it there)
+  email: z.string().email("Invalid email address").optional(),
+  expiresInDays: z
+    .number()
+    .int()
+    .min(1, "Invites must last at least a day")
+    .max(90, "Invites can last at most 90 days")
+    .default(DEFAULT_INVITE_TTL_DAYS),
+});
+
+const inviteInclude = {
+  createdBy: { select: { displayName: true } },
+  usedBy: { select: { displayName: true } },
+} as const;
+
+const signupLink = (request: NextRequest, code: string) =>
+  `${new URL(request.url).origin}/signup?code=${encodeURIComponent(code)}`;
+
+// GET every invite, newest first, with its current status
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const invites = await prisma.invite.findMany({
+      include: inviteInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    const now = new Date();
+
+    return NextResponse.json({
+      success: true,
+      invites: invites.map((invite) => ({
+        ...invite,
+        status: getInviteStatus(invite, now),
+        link: signupLink(request, invite.code),
+      })),
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching invites:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch invites",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST generates a new invite code
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = createInviteSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { expiresInDays } = validationResult.data;
+    const email = validationResult.data.email?.toLowerCase() ?? null;
+
+    const invite = await prisma.invite.create({
+      data: {
+        code: generateInviteCode(),
+        email,
+        createdById: admin.id,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      },
+      include: inviteInclude,
+    });
+
+    const link = signupLink(request, invite.code);
+
+    if (email) {
+      await sendMail({
+        to: email,
+        subject: `${admin.displayName} invited you to Sports Betting Degens`,
+        text: `Join the group with invite code ${invite.code}:\n\n${link}\n\nThe invite expires ${invite.expiresAt.toUTCString()}.\n`,
+      });
+    }
+
+    console.log(`Invite ${invite.id} created by ${admin.id}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        invite: { ...invite, status: getInviteStatus(invite), link },
+        message: email ? `Invite sent to ${email}` : "Invite created",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error creating invite:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create invite",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
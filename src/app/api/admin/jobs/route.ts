@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import { getJobSchedule, JOBS } from "../../../../../lib/jobs/definitions";
+import { runJob } from "../../../../../lib/jobs/run";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+
+// Zod validation schema for running a job on demand
+const runJobSchema = z.object({
+  job: z.enum(JOBS.map((job) => job.name) as [string, ...string[]], {
+    message: `Job must be one of: ${JOBS.map((job) => job.name).join(", ")}`,
+  }),
+});
+
+// GET each worker job with its latest run, plus the most recent runs overall
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const jobs = await Promise.all(
+      JOBS.map(async (job) => {
+        const [lastRun, lastSuccess] = await Promise.all([
+          prisma.jobRun.findFirst({
+            where: { job: job.name },
+            orderBy: { startedAt: "desc" },
+          }),
+          prisma.jobRun.findFirst({
+            where: { job: job.name, status: "SUCCEEDED" },
+            orderBy: { startedAt: "desc" },
+            select: { startedAt: true },
+          }),
+        ]);
+
+        return {
+          name: job.name,
+          description: job.description,
+          schedule: getJobSchedule(job),
+          lastRun,
+          lastSuccessAt: lastSuccess?.startedAt ?? null,
+        };
+      })
+    );
+
+    const recentRuns = await prisma.jobRun.findMany({
+      orderBy: { startedAt: "desc" },
+      take: 20,
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobs,
+      recentRuns,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching job runs:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch job runs",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST runs a worker job immediately, recording a JobRun like the worker does
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = runJobSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const job = JOBS.find((j) => j.name === validationResult.data.job)!;
+    const run = await runJob(job.name, job.run);
+
+    if (run.status === "FAILED") {
+      return NextResponse.json(
+        {
+          error: {
+            code: "JOB_FAILED",
+            message: `Job ${job.name} failed`,
+            details: run.error,
+          },
+        },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: run,
+      message: `Job ${job.name} completed successfully`,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error running job:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to run job",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
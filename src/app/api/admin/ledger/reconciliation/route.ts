@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../lib/auth/session";
+import {
+  applyProposedEntry,
+  reconcileLedger,
+} from "../../../../../../lib/ledger/reconcile";
+
+// Zod validation schema for applying a proposed entry
+const applyEntrySchema = z.object({
+  kind: z.enum(["BALANCE_MISMATCH", "MISSING_STAKE", "DUPLICATE_PAYOUT"]),
+  userId: z.string().uuid("Invalid user ID format"),
+  wagerId: z.string().uuid("Invalid wager ID format").nullable().default(null),
+});
+
+// GET runs the ledger integrity check and returns every discrepancy with a
+// proposed correcting entry. Nothing is written.
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const report = await reconcileLedger();
+
+    console.log(
+      `Ledger reconciliation: ${report.discrepancies.length} discrepancies across ${report.usersChecked} users`
+    );
+
+    return NextResponse.json({
+      success: true,
+      report,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error reconciling ledger:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to reconcile ledger",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST applies one discrepancy's proposed entry, after checking the user's
+// ledger again
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = applyEntrySchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const entry = await prisma.$transaction((tx) =>
+      applyProposedEntry(tx, validationResult.data, admin.displayName)
+    );
+
+    console.log(
+      `Ledger ${entry.type} of ${entry.amountCents} for user ${entry.userId} applied from reconciliation by ${admin.id}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      entry,
+      message: "Entry posted",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error applying reconciliation entry:", error);
+
+    if (error instanceof Error && error.message === "Discrepancy not found") {
+      return NextResponse.json(
+        {
+          error: {
+            code: "DISCREPANCY_NOT_FOUND",
+            message:
+              "That discrepancy is already resolved or has changed; run the check again",
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to apply entry",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../lib/auth/session";
+import { repriceCustomMarket } from "../../../../../../lib/markets/custom";
+
+// Zod validation schema for new prices; a new label adds a selection
+const repriceSchema = z.object({
+  selections: z
+    .array(
+      z.object({
+        label: z
+          .string()
+          .trim()
+          .min(1, "Selection name is required")
+          .max(100, "Selection name must be less than 100 characters"),
+        price: z
+          .number()
+          .int()
+          .refine(
+            (price) => Math.abs(price) >= 100,
+            "Odds must be +100 or higher, or -100 or lower"
+          ),
+      })
+    )
+    .min(1, "Give at least one price"),
+});
+
+// PUT posts new prices for a custom market's selections
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = repriceSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const market = await prisma.$transaction((tx) =>
+      repriceCustomMarket(tx, id, validationResult.data.selections)
+    );
+
+    console.log(`Custom market ${market.id} repriced by ${admin.id}`);
+
+    return NextResponse.json({
+      success: true,
+      market,
+      message: "Prices updated",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error repricing custom market:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Custom market not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "MARKET_NOT_FOUND",
+              message: "The specified custom market does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage === "Market is already settled") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "MARKET_SETTLED",
+              message: errorMessage,
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update prices",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
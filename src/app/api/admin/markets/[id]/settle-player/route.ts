@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../../lib/auth/session";
+import { settlePlayerProp } from "../../../../../../../lib/grading/props";
+
+// Zod validation schema: the player's final stat, or void their wagers
+const settlePlayerPropSchema = z
+  .object({
+    participant: z.string().trim().min(1, "Player is required"),
+    value: z.number().min(0, "Stat can't be negative").optional(),
+    void: z.boolean().default(false),
+  })
+  .refine((data) => data.void !== (data.value !== undefined), {
+    message: "Give either the player's stat or void: true",
+    path: ["value"],
+  });
+
+// POST grades every pending wager on one player of a player prop market
+// against their final stat
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = settlePlayerPropSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { participant, value, void: isVoid } = validationResult.data;
+
+    const settlement = await prisma.$transaction(
+      (tx) => settlePlayerProp(tx, id, participant, isVoid ? null : value!),
+      {
+        timeout: 30000, // 30 seconds, like bulk settlement
+      }
+    );
+
+    console.log(
+      `Player prop ${id} settled for ${participant} by ${admin.id}: ${
+        isVoid ? "void" : value
+      } (${settlement.items.length} wagers/legs)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      settlement,
+      message: `Settled ${settlement.items.length} wager${
+        settlement.items.length !== 1 ? "s" : ""
+      }`,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error settling player prop:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Player prop market not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "MARKET_NOT_FOUND",
+              message: "The specified player prop market does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage.startsWith("Unknown player: ")) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVALID_REQUEST",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to settle player prop",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../../lib/auth/session";
+import { settleCustomMarket } from "../../../../../../../lib/grading/custom";
+
+// Zod validation schema: the winning selections, or void the whole market
+const settleCustomMarketSchema = z
+  .object({
+    winners: z.array(z.string().trim().min(1)).optional(),
+    void: z.boolean().default(false),
+  })
+  .refine((data) => data.void !== (data.winners !== undefined), {
+    message: "Give either the winning selections or void: true",
+    path: ["winners"],
+  })
+  .refine((data) => data.void || (data.winners?.length ?? 0) > 0, {
+    message: "Pick at least one winner",
+    path: ["winners"],
+  });
+
+// POST settles a custom market: wagers on the winners are WON, the rest LOST
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = settleCustomMarketSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { winners, void: isVoid } = validationResult.data;
+
+    const settlement = await prisma.$transaction(
+      (tx) => settleCustomMarket(tx, id, isVoid ? null : winners ?? []),
+      {
+        timeout: 30000, // 30 seconds, like bulk settlement
+      }
+    );
+
+    console.log(
+      `Custom market ${id} settled by ${admin.id}: ${
+        isVoid ? "void" : settlement.winners.join(", ")
+      } (${settlement.items.length} wagers/legs)`
+    );
+
+    return NextResponse.json({
+      success: true,
+      settlement,
+      message: `Settled ${settlement.items.length} wager${
+        settlement.items.length !== 1 ? "s" : ""
+      }`,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error settling custom market:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Custom market not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "MARKET_NOT_FOUND",
+              message: "The specified custom market does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage === "Market is already settled") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "MARKET_SETTLED",
+              message: errorMessage,
+            },
+          },
+          { status: 409 }
+        );
+      }
+
+      if (errorMessage.startsWith("Unknown selection: ")) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVALID_REQUEST",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to settle custom market",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,261 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+import { createCustomMarket } from "../../../../../lib/markets/custom";
+import {
+  latestLinesBySource,
+  pickBestLines,
+} from "../../../../../lib/odds/best-price";
+
+const selectionPriceSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, "Selection name is required")
+    .max(100, "Selection name must be less than 100 characters"),
+  price: z
+    .number()
+    .int()
+    .refine(
+      (price) => Math.abs(price) >= 100,
+      "Odds must be +100 or higher, or -100 or lower"
+    ),
+});
+
+// Zod validation schema for a new custom market: on an existing event, or
+// on a standalone event created with it
+const createCustomMarketSchema = z
+  .object({
+    eventId: z.string().uuid("Invalid event ID format").optional(),
+    event: z
+      .object({
+        leagueId: z.string().uuid("Invalid league ID format"),
+        title: z
+          .string()
+          .trim()
+          .min(1, "Event title is required")
+          .max(100, "Event title must be less than 100 characters"),
+        // When betting closes
+        startsAt: z.coerce
+          .date()
+          .refine(
+            (date) => date > new Date(),
+            "Start time must be in the future"
+          ),
+      })
+      .optional(),
+    name: z
+      .string()
+      .trim()
+      .min(1, "Market name is required")
+      .max(100, "Market name must be less than 100 characters"),
+    selections: z
+      .array(selectionPriceSchema)
+      .min(2, "A market needs at least 2 selections")
+      .max(50, "A market can have at most 50 selections")
+      .refine(
+        (selections) =>
+          new Set(selections.map((selection) => selection.label)).size ===
+          selections.length,
+        "Selection names must be unique"
+      ),
+  })
+  .refine((data) => !data.eventId !== !data.event, {
+    message: "Give either an existing event or a new one",
+    path: ["eventId"],
+  });
+
+// GET lists custom markets and futures, open ones first, with each
+// selection's current (best) price and the leagues a standalone event can go
+// in
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const [markets, leagues] = await Promise.all([
+      prisma.market.findMany({
+        where: { type: { in: ["CUSTOM", "OUTRIGHT"] } },
+        include: {
+          event: { include: { league: true } },
+          lines: { orderBy: { capturedAt: "desc" } },
+        },
+        orderBy: [{ settledAt: { sort: "desc", nulls: "first" } }],
+        take: 100,
+      }),
+      prisma.league.findMany({ orderBy: { name: "asc" } }),
+    ]);
+
+    const pendingCounts = await prisma.wager.groupBy({
+      by: ["lineId"],
+      where: {
+        status: "PENDING",
+        line: { marketId: { in: markets.map((market) => market.id) } },
+      },
+      _count: { _all: true },
+    });
+    const pendingByLine = new Map(
+      pendingCounts.map((count) => [count.lineId, count._count._all])
+    );
+
+    return NextResponse.json({
+      success: true,
+      markets: markets.map((market) => ({
+        id: market.id,
+        type: market.type,
+        name: market.name,
+        settledAt: market.settledAt?.toISOString() ?? null,
+        event: {
+          id: market.event.id,
+          homeTeam: market.event.homeTeam,
+          awayTeam: market.event.awayTeam,
+          title: market.event.title,
+          startsAt: market.event.startsAt.toISOString(),
+          status: market.event.status,
+          league: market.event.league.name,
+        },
+        // Futures are quoted by several books
+        selections: pickBestLines(
+          market.type,
+          latestLinesBySource(
+            market.type,
+            market.lines.map((line) => ({ ...line, point: null }))
+          )
+        )
+          .map((line) => ({
+            label: line.label,
+            price: line.price,
+            lineId: line.id,
+            // Straight wagers still open on this selection, at any price
+            pendingWagers: market.lines
+              .filter((other) => other.label === line.label)
+              .reduce(
+                (sum, other) => sum + (pendingByLine.get(other.id) ?? 0),
+                0
+              ),
+          }))
+          .sort((a, b) => (a.label ?? "").localeCompare(b.label ?? "")),
+      })),
+      leagues: leagues.map((league) => ({ id: league.id, name: league.name })),
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching custom markets:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch custom markets",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST creates a custom market with its selections and opening prices
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = createCustomMarketSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { eventId, event, name, selections } = validationResult.data;
+
+    const market = await prisma.$transaction((tx) =>
+      createCustomMarket(tx, {
+        event: eventId ? { eventId } : event!,
+        name,
+        selections,
+      })
+    );
+
+    console.log(`Custom market ${market.id} created by ${admin.id}`);
+
+    return NextResponse.json(
+      {
+        success: true,
+        market,
+        message: "Market created",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error creating custom market:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Event not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "EVENT_NOT_FOUND",
+              message: "The specified event does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage === "League not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "LEAGUE_NOT_FOUND",
+              message: "The specified league does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage === "Event is no longer open for betting") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "BETTING_CLOSED",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to create custom market",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
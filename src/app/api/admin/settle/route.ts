@@ -0,0 +1,348 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { MarketType, Prisma } from "@prisma/client";
+import { prisma } from "../../../../../lib/db";
+import {
+  applyBulkSettlement,
+  previewBulkSettlement,
+} from "../../../../../lib/grading/bulk";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+
+// Zod validation schema for bulk settlement
+const bulkSettleSchema = z
+  .object({
+    eventId: z.string().uuid("Invalid event ID format"),
+    marketId: z.string().uuid("Invalid market ID format").optional(),
+    selectionKey: z.enum(["HOME", "AWAY", "DRAW", "OVER", "UNDER"]).optional(),
+    // The number on spreads, totals and alternate lines
+    point: z.number().optional(),
+    result: z.enum(["WON", "LOST", "PUSH", "VOID"], {
+      message: "Result must be WON, LOST, PUSH, or VOID",
+    }),
+    // Only list what would be settled
+    preview: z.boolean().default(false),
+    // Item count from the preview; settling fails if the wagers changed since
+    expectedCount: z.number().int().min(0).optional(),
+  })
+  .refine((data) => !data.selectionKey || data.marketId, {
+    message: "A selection needs a market",
+    path: ["selectionKey"],
+  })
+  // WON on a whole market would pay both sides; it can only be voided
+  .refine(
+    (data) =>
+      data.selectionKey || data.result === "PUSH" || data.result === "VOID",
+    {
+      message: "Only PUSH or VOID can settle more than one selection",
+      path: ["result"],
+    }
+  );
+
+// Markets whose selections are one line per number
+const POINT_MARKETS: MarketType[] = [
+  "SPREAD",
+  "TOTAL",
+  "ALT_SPREAD",
+  "ALT_TOTAL",
+];
+
+// Custom markets and futures are settled by name through
+// /api/admin/markets/[id]/settle, which closes the market, and player props
+// by player through settle-player; both lock the market first
+const BULK_MARKETS: MarketType[] = ["MONEYLINE", ...POINT_MARKETS];
+
+// Lines that still have pending straight wagers or parlay legs
+const pendingLineWhere = {
+  OR: [
+    { wagers: { some: { status: "PENDING" } } },
+    {
+      wagerLegs: {
+        some: { status: "PENDING", wager: { status: "PENDING" } },
+      },
+    },
+  ],
+} satisfies Prisma.LineWhereInput;
+
+// GET lists events with pending wagers and the markets/selections they're on
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    // Player props are listed to be graded by player from the panel
+    const listedMarkets = {
+      type: { in: [...BULK_MARKETS, "PLAYER_PROP"] },
+      lines: { some: pendingLineWhere },
+    } satisfies Prisma.MarketWhereInput;
+
+    const events = await prisma.event.findMany({
+      where: {
+        markets: { some: listedMarkets },
+      },
+      include: {
+        league: true,
+        markets: {
+          where: listedMarkets,
+          include: {
+            lines: {
+              where: pendingLineWhere,
+              select: { selectionKey: true, participant: true, point: true },
+              distinct: ["selectionKey", "participant", "point"],
+            },
+          },
+        },
+      },
+      orderBy: { startsAt: "asc" },
+    });
+
+    return NextResponse.json({
+      success: true,
+      events: events.map((event) => ({
+        id: event.id,
+        league: event.league.name,
+        homeTeam: event.homeTeam,
+        awayTeam: event.awayTeam,
+        title: event.title,
+        startsAt: event.startsAt.toISOString(),
+        status: event.status,
+        markets: event.markets.map((market) => ({
+          id: market.id,
+          type: market.type,
+          name: market.name,
+          selections: Array.from(
+            new Set(market.lines.map((line) => line.selectionKey))
+          ),
+          // Numbers with pending wagers per selection, on spreads, totals
+          // and alternate lines; a WON or LOST result needs one
+          points: Object.fromEntries(
+            Array.from(
+              new Set(market.lines.map((line) => line.selectionKey))
+            ).map((selectionKey) => [
+              selectionKey,
+              Array.from(
+                new Set(
+                  market.lines
+                    .filter(
+                      (line) =>
+                        line.selectionKey === selectionKey &&
+                        line.point !== null
+                    )
+                    .map((line) => Number(line.point))
+                )
+              ).sort((a, b) => a - b),
+            ])
+          ),
+          // Players with pending prop wagers, graded from their stat
+          participants: Array.from(
+            new Set(
+              market.lines
+                .map((line) => line.participant)
+                .filter((participant) => participant !== null)
+            )
+          ).sort(),
+        })),
+      })),
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching events to settle:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch events to settle",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST settles every pending wager on an event, market or selection with one
+// result, or previews it when preview is true
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = bulkSettleSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const {
+      eventId,
+      marketId,
+      selectionKey,
+      point,
+      result,
+      preview,
+      expectedCount,
+    } = validationResult.data;
+    const target = {
+      eventId,
+      marketId,
+      selectionKey,
+      point,
+      marketTypes: BULK_MARKETS,
+    };
+
+    const event = await prisma.event.findUnique({ where: { id: eventId } });
+    if (!event) {
+      throw new Error("Event not found");
+    }
+
+    const market = marketId
+      ? await prisma.market.findUnique({ where: { id: marketId } })
+      : null;
+    if (marketId && market?.eventId !== eventId) {
+      throw new Error("Market not found");
+    }
+
+    if (market?.type === "PLAYER_PROP") {
+      throw new Error(
+        "Settle player props by player through /api/admin/markets/[id]/settle-player"
+      );
+    }
+    if (market && !BULK_MARKETS.includes(market.type)) {
+      throw new Error(
+        "Settle custom markets and futures through /api/admin/markets/[id]/settle"
+      );
+    }
+
+    // One side of a spread or total is a different bet at each number
+    if (
+      (result === "WON" || result === "LOST") &&
+      market &&
+      POINT_MARKETS.includes(market.type) &&
+      point === undefined
+    ) {
+      throw new Error(`A ${result} result on this market needs a point`);
+    }
+
+    if (preview) {
+      const settlement = await previewBulkSettlement(prisma, target, result);
+
+      return NextResponse.json({
+        success: true,
+        preview: true,
+        settlement,
+      });
+    }
+
+    const settlement = await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        if (expectedCount !== undefined) {
+          const current = await previewBulkSettlement(tx, target, result);
+          if (current.items.length !== expectedCount) {
+            throw new Error("Wagers changed since the preview");
+          }
+        }
+
+        return applyBulkSettlement(tx, target, result);
+      },
+      {
+        timeout: 30000, // 30 seconds, like grading an event
+      }
+    );
+
+    console.log(
+      `Bulk settled ${settlement.items.length} wagers/legs on event ${eventId} as ${result} by ${admin.id}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      preview: false,
+      settlement,
+      message: `Settled ${settlement.items.length} wager${
+        settlement.items.length !== 1 ? "s" : ""
+      } as ${result}`,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error bulk settling wagers:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "Event not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "EVENT_NOT_FOUND",
+              message: "The specified event does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (error.message === "Market not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "MARKET_NOT_FOUND",
+              message: "The specified market does not exist on this event",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (
+        error.message.includes("result on") ||
+        error.message.startsWith("Settle ")
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVALID_REQUEST",
+              message: error.message,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      if (error.message === "Wagers changed since the preview") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "BULK_SETTLEMENT_CHANGED",
+              message:
+                "Wagers were placed or settled since the preview; preview again",
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to settle wagers",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
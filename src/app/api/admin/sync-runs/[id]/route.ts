@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../lib/auth/session";
+
+// GET one odds sync run including its per-game errors
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request);
+
+    const { id } = await params;
+
+    const syncRun = await prisma.syncRun.findUnique({
+      where: { id },
+    });
+
+    if (!syncRun) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "SYNC_RUN_NOT_FOUND",
+            message: "The specified sync run does not exist",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      syncRun: {
+        ...syncRun,
+        errors: syncRun.errors ?? [],
+      },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching sync run:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch sync run",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
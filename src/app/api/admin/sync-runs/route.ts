@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+
+// Zod validation schema for the list filters
+const listSyncRunsSchema = z.object({
+  sport: z.string().optional(),
+  status: z.enum(["RUNNING", "SUCCEEDED", "PARTIAL", "FAILED"]).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+// GET recent odds sync runs, newest first. Per-game errors are left out of
+// the list; fetch a single run for those.
+export async function GET(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const { searchParams } = new URL(request.url);
+    const validationResult = listSyncRunsSchema.safeParse({
+      sport: searchParams.get("sport") ?? undefined,
+      status: searchParams.get("status")?.toUpperCase() ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+    });
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { sport, status, limit } = validationResult.data;
+
+    const syncRuns = await prisma.syncRun.findMany({
+      where: {
+        ...(sport && { sport }),
+        ...(status && { status }),
+      },
+      omit: { errors: true },
+      orderBy: { startedAt: "desc" },
+      take: limit,
+    });
+
+    return NextResponse.json({
+      success: true,
+      syncRuns,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching sync runs:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch sync runs",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
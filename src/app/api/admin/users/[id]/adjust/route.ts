@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../../lib/auth/session";
+import { postLedgerEntry } from "../../../../../../../lib/ledger/service";
+
+// Zod validation schema for a manual balance change. amountCents is signed:
+// deposits are positive, withdrawals negative, adjustments either.
+const adjustBalanceSchema = z
+  .object({
+    type: z.enum(["ADJUSTMENT", "DEPOSIT", "WITHDRAWAL"]).default("ADJUSTMENT"),
+    amountCents: z
+      .number()
+      .int()
+      .refine((amount) => amount !== 0, "Amount cannot be zero"),
+    reason: z
+      .string()
+      .trim()
+      .min(1, "Reason is required")
+      .max(200, "Reason must be less than 200 characters"),
+  })
+  .refine((data) => data.type !== "DEPOSIT" || data.amountCents > 0, {
+    message: "Deposits must be positive",
+    path: ["amountCents"],
+  })
+  .refine((data) => data.type !== "WITHDRAWAL" || data.amountCents < 0, {
+    message: "Withdrawals must be negative",
+    path: ["amountCents"],
+  });
+
+// POST credits or debits a user's balance with a ledger entry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = adjustBalanceSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { type, amountCents, reason } = validationResult.data;
+
+    const { entry, balanceCents } = await prisma.$transaction((tx) =>
+      postLedgerEntry(tx, {
+        userId: id,
+        type,
+        amountCents,
+        description: `${reason} (by ${admin.displayName})`,
+      })
+    );
+
+    console.log(
+      `Ledger ${type} of ${amountCents} for user ${id} by ${admin.id}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      entry,
+      balanceCents,
+      message: "Balance updated",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error adjusting balance:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "User not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "USER_NOT_FOUND",
+              message: "The specified user does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (error.message === "Insufficient balance") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INSUFFICIENT_BALANCE",
+              message: "The debit is larger than the user's balance",
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to adjust balance",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
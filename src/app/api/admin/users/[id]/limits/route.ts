@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../../lib/auth/session";
+import {
+  GROUP_LIMITS,
+  getBettingStatus,
+  userLimitsSelect,
+} from "../../../../../../../lib/limits/service";
+
+const limitCents = z
+  .number()
+  .int()
+  .min(1, "Limits must be at least 1 cent")
+  .nullable();
+
+// Zod validation schema for setting a user's limits; null removes a limit
+// or ends a self-exclusion, an omitted field is left as it is
+const setLimitsSchema = z.object({
+  maxStakeCents: limitCents.optional(),
+  maxEventExposureCents: limitCents.optional(),
+  dailyLossLimitCents: limitCents.optional(),
+  weeklyLossLimitCents: limitCents.optional(),
+  selfExcludedUntil: z.coerce.date().nullable().optional(),
+});
+
+// GET returns a user's limits and how much of them is used
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request);
+    const { id } = await params;
+
+    const userLimits = await prisma.user.findUnique({
+      where: { id },
+      select: userLimitsSelect,
+    });
+
+    if (!userLimits) {
+      throw new Error("User not found");
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: await getBettingStatus(prisma, id),
+      userLimits,
+      groupLimits: GROUP_LIMITS,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching betting limits:", error);
+
+    if (error instanceof Error && error.message === "User not found") {
+      return NextResponse.json(
+        {
+          error: {
+            code: "USER_NOT_FOUND",
+            message: "The specified user does not exist",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch betting limits",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT sets, raises or removes any of a user's limits
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const admin = await requireAdmin(request);
+    const { id } = await params;
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = setLimitsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.user.updateMany({
+      where: { id },
+      data: validationResult.data,
+    });
+
+    if (count !== 1) {
+      throw new Error("User not found");
+    }
+
+    const userLimits = await prisma.user.findUniqueOrThrow({
+      where: { id },
+      select: userLimitsSelect,
+    });
+
+    console.log(`Betting limits for user ${id} set by ${admin.id}`);
+
+    return NextResponse.json({
+      success: true,
+      userLimits,
+      message: "Limits updated",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error setting betting limits:", error);
+
+    if (error instanceof Error && error.message === "User not found") {
+      return NextResponse.json(
+        {
+          error: {
+            code: "USER_NOT_FOUND",
+            message: "The specified user does not exist",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to set betting limits",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
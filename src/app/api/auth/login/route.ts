@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import { verifyPassword } from "../../../../../lib/auth/password";
+import { startSession } from "../../../../../lib/auth/session";
+
+// Zod validation schema for password login
+const loginSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  password: z.string().min(1, "Password is required"),
+});
+
+// POST signs in with email + password and sets the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = loginSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { password } = validationResult.data;
+    const email = validationResult.data.email.toLowerCase();
+
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    // Same answer for unknown emails, magic-link-only users and bad passwords
+    if (
+      !user ||
+      !user.passwordHash ||
+      !(await verifyPassword(password, user.passwordHash))
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_CREDENTIALS",
+            message: "Email or password is incorrect",
+          },
+        },
+        { status: 401 }
+      );
+    }
+
+    return startSession(
+      NextResponse.json({
+        success: true,
+        user: { id: user.id, email: user.email, displayName: user.displayName },
+        message: "Signed in",
+      }),
+      user.id
+    );
+  } catch (error) {
+    console.error("Error signing in:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to sign in",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
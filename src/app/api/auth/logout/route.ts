@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { endSession } from "../../../../../lib/auth/session";
+
+// POST signs out: deletes the session and clears the cookie
+export async function POST(request: NextRequest) {
+  try {
+    return endSession(
+      request,
+      NextResponse.json({ success: true, message: "Signed out" })
+    );
+  } catch (error) {
+    console.error("Error signing out:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to sign out",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
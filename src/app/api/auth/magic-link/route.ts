@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import { sendMagicLink } from "../../../../../lib/auth/magic-link";
+
+// Zod validation schema for requesting a magic link
+const magicLinkSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+// POST mails a one-time sign-in link. Always succeeds so the response
+// doesn't reveal which emails have accounts.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = magicLinkSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const email = validationResult.data.email.toLowerCase();
+    const user = await prisma.user.findUnique({ where: { email } });
+
+    if (user) {
+      await sendMagicLink(user);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "If that email has an account, a sign-in link is on its way",
+    });
+  } catch (error) {
+    console.error("Error sending magic link:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to send sign-in link",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  consumeLoginToken,
+  startSession,
+} from "../../../../../../lib/auth/session";
+
+// GET is the link in the email: redeem the token, set the session cookie and
+// send the browser on to the app (or back to /login if the link is stale)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const token = searchParams.get("token");
+
+  try {
+    const userId = token ? await consumeLoginToken(token) : null;
+
+    if (!userId) {
+      return NextResponse.redirect(
+        new URL("/login?error=invalid_link", request.url)
+      );
+    }
+
+    return startSession(
+      NextResponse.redirect(new URL("/games", request.url)),
+      userId
+    );
+  } catch (error) {
+    console.error("Error verifying magic link:", error);
+
+    return NextResponse.redirect(
+      new URL("/login?error=invalid_link", request.url)
+    );
+  }
+}
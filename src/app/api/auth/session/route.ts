@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireUser,
+} from "../../../../../lib/auth/session";
+import { getLockedBalance } from "../../../../../lib/ledger/locked";
+
+// GET the signed-in user, with what they have riding on open bets; 401 when
+// there is no valid session
+export async function GET(request: NextRequest) {
+  try {
+    const user = await requireUser(request);
+
+    return NextResponse.json({
+      success: true,
+      user: { ...user, ...(await getLockedBalance(prisma, user.id)) },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching session:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch session",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../../lib/db";
+import {
+  hashPassword,
+  MIN_PASSWORD_LENGTH,
+} from "../../../../../lib/auth/password";
+import {
+  claimPromotedAdmin,
+  redeemInvite,
+} from "../../../../../lib/auth/invites";
+import { getAppUrl, sendMagicLink } from "../../../../../lib/auth/magic-link";
+import { startSession } from "../../../../../lib/auth/session";
+import { grantStartingBankroll } from "../../../../../lib/ledger/service";
+
+// Zod validation schema for signing up with an invite code
+const signupSchema = z.object({
+  inviteCode: z.string().min(1, "Invite code is required"),
+  email: z.string().email("Invalid email address"),
+  displayName: z
+    .string()
+    .min(1, "Display name is required")
+    .max(50, "Display name must be 50 characters or less"),
+  // Optional: without one the user signs in with magic links
+  password: z
+    .string()
+    .min(
+      MIN_PASSWORD_LENGTH,
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    )
+    .optional(),
+});
+
+// POST redeems an invite and creates an account with the starting bankroll.
+// With a password the user is signed in straight away; without one a magic
+// link is mailed instead. The very first account (no admin exists yet to
+// issue invites) uses SIGNUP_INVITE_CODE and becomes the ADMIN; on an
+// upgraded database the same code claims the admin the migration promoted.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const validationResult = signupSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { inviteCode, displayName, password } = validationResult.data;
+    const email = validationResult.data.email.toLowerCase();
+
+    const existing = await prisma.user.findUnique({ where: { email } });
+    if (existing) {
+      throw new Error("Email already registered");
+    }
+
+    // A passwordless account signs in by link; don't create one that can't
+    if (!password) {
+      getAppUrl();
+    }
+
+    const passwordHash = password ? await hashPassword(password) : null;
+    const bootstrapCode = process.env.SIGNUP_INVITE_CODE;
+    const isBootstrapCode = !!bootstrapCode && inviteCode === bootstrapCode;
+
+    const user = await prisma.$transaction(async (tx) => {
+      const isFirstUser = (await tx.user.count()) === 0;
+
+      if (isFirstUser && !isBootstrapCode) {
+        throw new Error("Invalid invite code");
+      }
+
+      if (!isFirstUser && isBootstrapCode) {
+        const admin = await claimPromotedAdmin(tx, {
+          email,
+          displayName,
+          passwordHash,
+        });
+        if (admin) return admin;
+      }
+
+      const user = await tx.user.create({
+        data: {
+          email,
+          displayName,
+          role: isFirstUser ? "ADMIN" : "PLAYER",
+          passwordHash,
+        },
+      });
+
+      if (!isFirstUser) {
+        await redeemInvite(tx, inviteCode, email, user.id);
+      }
+
+      await grantStartingBankroll(tx, user.id);
+
+      return user;
+    });
+
+    console.log("User signed up:", user.id);
+
+    if (!password) {
+      await sendMagicLink(user);
+
+      return NextResponse.json(
+        {
+          success: true,
+          user: {
+            id: user.id,
+            email: user.email,
+            displayName,
+            role: user.role,
+          },
+          message: "Account created. Check your email for a sign-in link.",
+        },
+        { status: 201 }
+      );
+    }
+
+    return startSession(
+      NextResponse.json(
+        {
+          success: true,
+          user: {
+            id: user.id,
+            email: user.email,
+            displayName,
+            role: user.role,
+          },
+          message: "Account created",
+        },
+        { status: 201 }
+      ),
+      user.id
+    );
+  } catch (error) {
+    console.error("Error signing up:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "Invalid invite code") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVALID_INVITE",
+              message: "That invite code is not valid",
+            },
+          },
+          { status: 403 }
+        );
+      }
+
+      if (error.message === "Email already registered") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "EMAIL_TAKEN",
+              message: "An account with that email already exists",
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to sign up",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../../lib/db";
+import { z } from "zod";
+import { gradeEvent } from "../../../../../../lib/grading/settle";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../lib/auth/session";
+
+// Zod validation schema for recording a final score
+const finalScoreSchema = z.object({
+  homeScore: z.number().int().min(0, "Score cannot be negative"),
+  awayScore: z.number().int().min(0, "Score cannot be negative"),
+  grade: z.boolean().optional().default(true),
+});
+
+// POST records the final score, marks the event FINAL and grades its wagers.
+// Once the event is graded its score is fixed: a wrong result is corrected
+// by regrading the wagers, which posts the reversal entries.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireAdmin(request);
+
+    const { id: eventId } = await params;
+    const body = await request.json();
+
+    console.log(`Final score request for event ${eventId}:`, body);
+
+    const validationResult = finalScoreSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { homeScore, awayScore, grade } = validationResult.data;
+
+    const existingEvent = await prisma.event.findUnique({
+      where: { id: eventId },
+    });
+
+    if (!existingEvent) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "EVENT_NOT_FOUND",
+            message: "The specified event does not exist",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Conditional, so a score can't land while the event is being graded
+    const { count } = await prisma.event.updateMany({
+      where: { id: eventId, gradedAt: null },
+      data: {
+        homeScore,
+        awayScore,
+        status: "FINAL",
+        completedAt: existingEvent.completedAt ?? new Date(),
+      },
+    });
+
+    if (count !== 1) {
+      throw new Error("Event is already graded");
+    }
+
+    const event = await prisma.event.findUniqueOrThrow({
+      where: { id: eventId },
+    });
+
+    const grading = grade ? await gradeEvent(eventId) : null;
+
+    console.log(
+      `Event ${eventId} final ${awayScore}-${homeScore}, graded ${
+        grading?.wagersGraded ?? 0
+      } wagers`
+    );
+
+    return NextResponse.json({
+      success: true,
+      event: {
+        id: event.id,
+        homeTeam: event.homeTeam,
+        awayTeam: event.awayTeam,
+        homeScore: event.homeScore,
+        awayScore: event.awayScore,
+        status: event.status,
+      },
+      grading,
+      message: "Final score recorded successfully",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error recording final score:", error);
+
+    if (error instanceof Error && error.message === "Event is already graded") {
+      return NextResponse.json(
+        {
+          error: {
+            code: "EVENT_ALREADY_GRADED",
+            message:
+              "This event is already graded; regrade its wagers to correct the result",
+          },
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to record final score",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
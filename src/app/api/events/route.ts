@@ -1,8 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
+import { Line } from "@prisma/client";
 import { prisma } from "../../../../lib/db";
+import { authErrorResponse, requireUser } from "../../../../lib/auth/session";
+import { MarketKind, SelectionKey } from "../../../../lib/grading/rules";
+import {
+  isAlternateMarket,
+  latestLinesBySource,
+  pickBestLine,
+  pickBestLines,
+} from "../../../../lib/odds/best-price";
+import { impliedProbability } from "../../../../lib/clv/rules";
+
+const SELECTIONS: Record<MarketKind, SelectionKey[]> = {
+  MONEYLINE: ["HOME", "AWAY", "DRAW"], // DRAW only on soccer
+  SPREAD: ["HOME", "AWAY"],
+  TOTAL: ["OVER", "UNDER"],
+  CUSTOM: [], // named selections; see below
+  // Props and alternate lines have an option per player or number
+  PLAYER_PROP: ["OVER", "UNDER"],
+  ALT_SPREAD: ["HOME", "AWAY"],
+  ALT_TOTAL: ["OVER", "UNDER"],
+  OUTRIGHT: [], // futures are listed by /api/futures
+};
+
+const formatLine = (line: {
+  id: string;
+  selectionKey: string;
+  label: string | null;
+  participant: string | null;
+  point: number | null;
+  price: number;
+  source: string;
+  capturedAt: Date;
+}) => ({
+  id: line.id,
+  selectionKey: line.selectionKey,
+  label: line.label,
+  participant: line.participant,
+  point: line.point?.toString(),
+  price: line.price,
+  source: line.source,
+  capturedAt: line.capturedAt.toISOString(),
+});
 
 export async function GET(request: NextRequest) {
   try {
+    await requireUser(request);
+
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
     const leagueId = searchParams.get("leagueId");
@@ -27,18 +71,30 @@ export async function GET(request: NextRequest) {
       gte: fifteenMinutesFromNow,
     };
 
+    // Futures have their own page
+    whereClause.markets = { none: { type: "OUTRIGHT" } };
+
     // Fetch events from database with all related data
     const events = await prisma.event.findMany({
       where: whereClause,
       include: {
         league: true,
+        // Settled custom markets are closed for betting
         markets: {
+          where: { settledAt: null },
           include: {
+            // Only the newest capture of each quote, not the whole history
             lines: {
+              distinct: [
+                "selectionKey",
+                "label",
+                "participant",
+                "point",
+                "source",
+              ],
               orderBy: {
                 capturedAt: "desc",
               },
-              take: 2,
             },
           },
         },
@@ -59,6 +115,7 @@ export async function GET(request: NextRequest) {
       id: event.id,
       homeTeam: event.homeTeam,
       awayTeam: event.awayTeam,
+      title: event.title,
       startsAt: event.startsAt.toISOString(),
       status: event.status,
       league: {
@@ -66,19 +123,49 @@ export async function GET(request: NextRequest) {
         name: event.league.name,
       },
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      markets: event.markets.map((market: any) => ({
-        id: market.id,
-        type: market.type,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        lines: market.lines.map((line: any) => ({
-          id: line.id,
-          selectionKey: line.selectionKey,
-          point: line.point?.toString(),
-          price: line.price,
-          source: line.source,
-          capturedAt: line.capturedAt.toISOString(),
-        })),
-      })),
+      markets: event.markets.map((market: any) => {
+        // Each bookmaker's current quote, and the best of them per option.
+        // A spread or total whose number moved still has a row per number,
+        // so this keeps the newest
+        const books = latestLinesBySource(
+          market.type,
+          (market.lines as Line[]).map((line) => ({
+            ...line,
+            point: line.point !== null ? Number(line.point) : null,
+          }))
+        );
+        const selections = SELECTIONS[market.type as MarketKind] ?? [];
+
+        // Custom markets are only priced by the admin, so each label has
+        // one current line; list them favourite first
+        const bestLines =
+          market.type === "CUSTOM"
+            ? [...books].sort(
+                (a, b) =>
+                  impliedProbability(b.price) - impliedProbability(a.price)
+              )
+            : market.type === "PLAYER_PROP" || isAlternateMarket(market.type)
+            ? pickBestLines(market.type as MarketKind, books).sort(
+                (a, b) =>
+                  (a.participant ?? "").localeCompare(b.participant ?? "") ||
+                  a.selectionKey.localeCompare(b.selectionKey) ||
+                  (a.point ?? 0) - (b.point ?? 0)
+              )
+            : selections
+                .map((selection) =>
+                  pickBestLine(market.type as MarketKind, selection, books)
+                )
+                .filter((line) => line !== null);
+
+        return {
+          id: market.id,
+          type: market.type,
+          name: market.name,
+          propKey: market.propKey,
+          lines: bestLines.map(formatLine),
+          books: books.map(formatLine),
+        };
+      }),
       marketCount: event._count.markets,
     }));
 
@@ -88,6 +175,9 @@ export async function GET(request: NextRequest) {
       count: formattedEvents.length,
     });
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error("Error fetching events:", error);
 
     return NextResponse.json(
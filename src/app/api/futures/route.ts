@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../lib/db";
+import { BETTING_CUTOFF_MS } from "../../../../lib/markets/betting-window";
+import { authErrorResponse, requireUser } from "../../../../lib/auth/session";
+import {
+  latestLinesBySource,
+  pickBestLines,
+} from "../../../../lib/odds/best-price";
+import { impliedProbability } from "../../../../lib/clv/rules";
+
+const formatLine = (line: {
+  id: string;
+  label: string | null;
+  price: number;
+  source: string;
+  capturedAt: Date;
+}) => ({
+  id: line.id,
+  label: line.label,
+  price: line.price,
+  source: line.source,
+  capturedAt: line.capturedAt.toISOString(),
+});
+
+// GET lists open futures: each OUTRIGHT market with the best price per
+// selection, favourite first, and every book's current quote
+export async function GET(request: NextRequest) {
+  try {
+    await requireUser(request);
+
+    // Betting closes a little before the future's event, as for games
+    const bettingClosesAt = new Date(Date.now() + BETTING_CUTOFF_MS);
+
+    const markets = await prisma.market.findMany({
+      where: {
+        type: "OUTRIGHT",
+        settledAt: null,
+        event: {
+          status: "SCHEDULED",
+          startsAt: { gte: bettingClosesAt },
+        },
+      },
+      include: {
+        event: { include: { league: true } },
+        lines: { orderBy: { capturedAt: "desc" } },
+      },
+      orderBy: { event: { startsAt: "asc" } },
+    });
+
+    const futures = markets.map((market) => {
+      const books = latestLinesBySource(
+        market.type,
+        market.lines.map((line) => ({ ...line, point: null }))
+      );
+
+      return {
+        id: market.id,
+        name: market.name,
+        event: {
+          id: market.event.id,
+          title: market.event.title,
+          startsAt: market.event.startsAt.toISOString(),
+          league: market.event.league.name,
+        },
+        lines: pickBestLines(market.type, books)
+          .sort(
+            (a, b) => impliedProbability(b.price) - impliedProbability(a.price)
+          )
+          .map(formatLine),
+        books: books.map(formatLine),
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      futures,
+      count: futures.length,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching futures:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch futures",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
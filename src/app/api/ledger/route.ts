@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "../../../../lib/db";
+import { authErrorResponse, requireUser } from "../../../../lib/auth/session";
 
+// Players only see their own entries; admins see everyone's (or ?userId=)
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+
     const { searchParams } = new URL(request.url);
     const userId = searchParams.get("userId");
     const type = searchParams.get("type");
@@ -20,7 +24,9 @@ export async function GET(request: NextRequest) {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const whereClause: any = {};
 
-    if (userId) {
+    if (user.role !== "ADMIN") {
+      whereClause.userId = user.id;
+    } else if (userId) {
       whereClause.userId = userId;
     }
 
@@ -99,6 +105,8 @@ export async function GET(request: NextRequest) {
               ? {
                   id: entry.wager.line.id,
                   selectionKey: entry.wager.line.selectionKey,
+                  label: entry.wager.line.label,
+                  participant: entry.wager.line.participant,
                   point: entry.wager.line.point?.toString(),
                   price: entry.wager.line.price,
                   source: entry.wager.line.source,
@@ -106,10 +114,12 @@ export async function GET(request: NextRequest) {
                   market: {
                     id: entry.wager.line.market.id,
                     type: entry.wager.line.market.type,
+                    name: entry.wager.line.market.name,
                     event: {
                       id: entry.wager.line.market.event.id,
                       homeTeam: entry.wager.line.market.event.homeTeam,
                       awayTeam: entry.wager.line.market.event.awayTeam,
+                      title: entry.wager.line.market.event.title,
                       startsAt:
                         entry.wager.line.market.event.startsAt.toISOString(),
                       status: entry.wager.line.market.event.status,
@@ -132,6 +142,9 @@ export async function GET(request: NextRequest) {
       total: formattedEntries.length, // Could implement total count separately if needed for pagination
     });
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error("Error fetching ledger entries:", error);
     return NextResponse.json(
       {
@@ -0,0 +1,170 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "../../../../lib/db";
+import { authErrorResponse, requireUser } from "../../../../lib/auth/session";
+import {
+  GROUP_LIMITS,
+  getBettingStatus,
+  userLimitsSelect,
+} from "../../../../lib/limits/service";
+import { LIMIT_NAMES } from "../../../../lib/limits/rules";
+
+const MAX_SELF_EXCLUSION_DAYS = 365;
+
+const limitCents = z.number().int().min(1, "Limits must be at least 1 cent");
+
+// Zod validation schema for a bettor's own limits. Players can only tighten
+// them; raising or removing a limit, or ending a self-exclusion early, takes
+// an admin.
+const updateLimitsSchema = z.object({
+  maxStakeCents: limitCents.optional(),
+  maxEventExposureCents: limitCents.optional(),
+  dailyLossLimitCents: limitCents.optional(),
+  weeklyLossLimitCents: limitCents.optional(),
+  selfExcludeDays: z
+    .number()
+    .int()
+    .min(1, "Self-exclusion must be at least 1 day")
+    .max(
+      MAX_SELF_EXCLUSION_DAYS,
+      `Self-exclusion can be at most ${MAX_SELF_EXCLUSION_DAYS} days`
+    )
+    .optional(),
+});
+
+// GET returns the signed-in user's limits and how much of them is used
+export async function GET(request: NextRequest) {
+  try {
+    const { id: userId } = await requireUser(request);
+
+    const [userLimits, status] = await Promise.all([
+      prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: userLimitsSelect,
+      }),
+      getBettingStatus(prisma, userId),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      status,
+      userLimits,
+      groupLimits: GROUP_LIMITS,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching betting limits:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch betting limits",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT lowers the signed-in user's limits and/or starts a self-exclusion
+export async function PUT(request: NextRequest) {
+  try {
+    const { id: userId } = await requireUser(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = updateLimitsSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { selfExcludeDays, ...limits } = validationResult.data;
+
+    const userLimits = await prisma.$transaction(async (tx) => {
+      const current = await tx.user.findUniqueOrThrow({
+        where: { id: userId },
+        select: userLimitsSelect,
+      });
+
+      for (const name of LIMIT_NAMES) {
+        const next = limits[name];
+        const existing = current[name];
+        if (next !== undefined && existing !== null && next > existing) {
+          throw new Error("Limits can only be lowered");
+        }
+      }
+
+      // A new self-exclusion never shortens one already running
+      let selfExcludedUntil = current.selfExcludedUntil;
+      if (selfExcludeDays) {
+        const until = new Date(
+          Date.now() + selfExcludeDays * 24 * 60 * 60 * 1000
+        );
+        if (!selfExcludedUntil || until > selfExcludedUntil) {
+          selfExcludedUntil = until;
+        }
+      }
+
+      return tx.user.update({
+        where: { id: userId },
+        data: { ...limits, selfExcludedUntil },
+        select: userLimitsSelect,
+      });
+    });
+
+    console.log(`Betting limits updated by user ${userId}`);
+
+    return NextResponse.json({
+      success: true,
+      userLimits,
+      message: selfExcludeDays
+        ? "You are self-excluded from betting"
+        : "Limits updated",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error updating betting limits:", error);
+
+    if (
+      error instanceof Error &&
+      error.message === "Limits can only be lowered"
+    ) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "LIMIT_INCREASE_NOT_ALLOWED",
+            message:
+              "You can only lower your limits; ask an admin to raise or remove one",
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to update betting limits",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireUser,
+} from "../../../../../../lib/auth/session";
+import { optionKey } from "../../../../../../lib/odds/best-price";
+
+interface LineSnapshot {
+  lineId: string;
+  price: number;
+  point: string | null;
+  source: string;
+  capturedAt: string;
+}
+
+// A straight wager or parlay leg placed on one of the market's lines
+interface WagerMarker {
+  wagerId: string;
+  type: "STRAIGHT" | "PARLAY";
+  userId: string;
+  displayName: string;
+  selectionKey: string;
+  acceptedPrice: number;
+  acceptedPoint: string | null;
+  placedAt: string;
+}
+
+// One option (see optionKey) as quoted by one bookmaker
+interface SelectionSeries {
+  key: string;
+  selectionKey: string;
+  label: string | null;
+  participant: string | null;
+  source: string;
+  snapshots: LineSnapshot[];
+}
+
+// GET the full line history of a market, one series per option and book,
+// plus the wagers and parlay legs placed on it (cancelled ones left out).
+// ?source= narrows it to one bookmaker.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await requireUser(request);
+
+    const { id: marketId } = await params;
+    const { searchParams } = new URL(request.url);
+    const source = searchParams.get("source");
+
+    const market = await prisma.market.findUnique({
+      where: { id: marketId },
+      include: {
+        event: true,
+        lines: {
+          orderBy: { capturedAt: "asc" },
+          include: {
+            wagers: {
+              where: { status: { not: "CANCELLED" } },
+              include: { user: { select: { displayName: true } } },
+            },
+            wagerLegs: {
+              where: { wager: { status: { not: "CANCELLED" } } },
+              include: {
+                wager: {
+                  include: { user: { select: { displayName: true } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!market) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "MARKET_NOT_FOUND",
+            message: "The specified market does not exist",
+          },
+        },
+        { status: 404 }
+      );
+    }
+
+    // Group snapshots by option and book, keeping capture order
+    const seriesByKey = new Map<string, SelectionSeries>();
+    const wagers: WagerMarker[] = [];
+
+    const sources = Array.from(
+      new Set(market.lines.map((line) => line.source))
+    ).sort();
+
+    for (const line of market.lines) {
+      if (source && line.source !== source) continue;
+
+      const selectionKey = line.selectionKey;
+      const point = line.point !== null ? Number(line.point) : null;
+      const key = `${optionKey(market.type, { ...line, point })}:${
+        line.source
+      }`;
+      const series = seriesByKey.get(key) ?? {
+        key,
+        selectionKey,
+        label: line.label,
+        participant: line.participant,
+        source: line.source,
+        snapshots: [],
+      };
+      series.snapshots.push({
+        lineId: line.id,
+        price: line.price,
+        point: line.point?.toString() ?? null,
+        source: line.source,
+        capturedAt: line.capturedAt.toISOString(),
+      });
+      seriesByKey.set(key, series);
+
+      for (const wager of line.wagers) {
+        wagers.push({
+          wagerId: wager.id,
+          type: "STRAIGHT",
+          userId: wager.userId,
+          displayName: wager.user.displayName,
+          selectionKey,
+          acceptedPrice: wager.acceptedPrice,
+          acceptedPoint: wager.acceptedPoint?.toString() ?? null,
+          placedAt: wager.placedAt.toISOString(),
+        });
+      }
+
+      for (const leg of line.wagerLegs) {
+        wagers.push({
+          wagerId: leg.wagerId,
+          type: "PARLAY",
+          userId: leg.wager.userId,
+          displayName: leg.wager.user.displayName,
+          selectionKey,
+          acceptedPrice: leg.acceptedPrice,
+          acceptedPoint: leg.acceptedPoint?.toString() ?? null,
+          placedAt: leg.wager.placedAt.toISOString(),
+        });
+      }
+    }
+
+    const selections = Array.from(seriesByKey.values()).map((series) => ({
+      ...series,
+      opening: series.snapshots[0],
+      current: series.snapshots[series.snapshots.length - 1],
+    }));
+
+    wagers.sort(
+      (a, b) => new Date(a.placedAt).getTime() - new Date(b.placedAt).getTime()
+    );
+
+    return NextResponse.json({
+      success: true,
+      market: {
+        id: market.id,
+        type: market.type,
+        event: {
+          id: market.event.id,
+          homeTeam: market.event.homeTeam,
+          awayTeam: market.event.awayTeam,
+          startsAt: market.event.startsAt.toISOString(),
+        },
+      },
+      sources,
+      selections,
+      wagers,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching line history:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch line history",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
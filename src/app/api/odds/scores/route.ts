@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { syncScores } from "../../../../../lib/odds/scores";
+import { getOddsFetcher } from "../../../../../lib/odds/fetcher";
+import { MockOddsFetcher } from "../../../../../lib/odds/mock";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../lib/auth/session";
+
+// Zod schemas for validation
+const syncScoresSchema = z.object({
+  sport: z.string().optional().default("americanfootball_nfl"),
+  daysFrom: z.number().int().min(1).max(3).optional().default(3),
+  // Name of a file in the fixtures directory to use instead of the provider
+  fixture: z.string().optional(),
+  grade: z.boolean().optional().default(true),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    await requireAdmin(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = syncScoresSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { sport, daysFrom, fixture, grade } = validationResult.data;
+
+    const fetcher = fixture
+      ? new MockOddsFetcher({ scoresFile: fixture })
+      : getOddsFetcher();
+
+    if (!fetcher.isConfigured()) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "CONFIGURATION_ERROR",
+            message: "Odds API key not configured and no fixture provided",
+          },
+        },
+        { status: 500 }
+      );
+    }
+
+    const result = await syncScores(sport, { daysFrom, grade, fetcher });
+
+    const wagersGraded = result.grading.reduce(
+      (sum, event) => sum + event.wagersGraded,
+      0
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: "Scores synchronized successfully",
+      data: {
+        provider: result.provider,
+        gamesReceived: result.gamesReceived,
+        eventsMatched: result.eventsMatched,
+        eventsLive: result.eventsLive,
+        eventsFinalized: result.eventsFinalized,
+        unmatchedGames: result.unmatchedGames,
+        wagersGraded,
+        apiRemainingRequests: result.apiRemainingRequests,
+        apiUsedRequests: result.apiUsedRequests,
+      },
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error synchronizing scores:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "SCORES_SYNC_ERROR",
+          message: "Failed to synchronize scores",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
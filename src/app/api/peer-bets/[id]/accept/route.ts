@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireUser,
+} from "../../../../../../lib/auth/session";
+import { acceptPeerBet } from "../../../../../../lib/peer-bets/escrow";
+import { getBettingStatus } from "../../../../../../lib/limits/service";
+import { checkWagerLimits } from "../../../../../../lib/limits/rules";
+
+// POST takes the other side of an open offer and escrows the taker's stake
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: userId } = await requireUser(request);
+    const { id } = await params;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const offer = await tx.peerBet.findUnique({
+        where: { id },
+        select: {
+          takerStakeCents: true,
+          line: { select: { market: { select: { eventId: true } } } },
+        },
+      });
+
+      if (!offer) {
+        throw new Error("Peer bet not found");
+      }
+
+      // Lock the user so concurrent bets can't both slip under a limit
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+
+      const violation = checkWagerLimits(await getBettingStatus(tx, userId), {
+        stakeCents: offer.takerStakeCents,
+        eventIds: [offer.line.market.eventId],
+      });
+
+      if (violation) {
+        return { peerBet: null, violation };
+      }
+
+      return { peerBet: await acceptPeerBet(tx, id, userId), violation: null };
+    });
+
+    if (result.violation) {
+      return NextResponse.json(
+        {
+          error: {
+            code: result.violation.code,
+            message: result.violation.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    console.log("Peer bet matched:", result.peerBet.id);
+
+    return NextResponse.json({
+      success: true,
+      peerBet: result.peerBet,
+      message: "Bet accepted; both stakes are in escrow",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error accepting peer bet:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Peer bet not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "PEER_BET_NOT_FOUND",
+              message: "The specified peer bet does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage === "You cannot take your own bet") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "OWN_PEER_BET",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      if (errorMessage === "Peer bet is no longer open") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "PEER_BET_NOT_OPEN",
+              message: "Someone else has taken or cancelled this offer",
+            },
+          },
+          { status: 409 }
+        );
+      }
+
+      if (errorMessage === "Insufficient balance") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INSUFFICIENT_BALANCE",
+              message: "You don't have enough balance to take this bet",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        errorMessage === "Event is no longer open for betting" ||
+        errorMessage === "Event starts too soon to place bets"
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "BETTING_CLOSED",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to accept peer bet",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
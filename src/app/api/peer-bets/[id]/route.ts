@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../lib/db";
+import {
+  authErrorResponse,
+  requireUser,
+} from "../../../../../lib/auth/session";
+import { cancelPeerBet } from "../../../../../lib/peer-bets/escrow";
+
+// DELETE withdraws one of your own offers before anyone takes it; the
+// escrowed stake is refunded with a new ledger entry
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: userId } = await requireUser(request);
+    const { id } = await params;
+
+    const cancelledPeerBet = await prisma.$transaction((tx) =>
+      cancelPeerBet(tx, id, userId)
+    );
+
+    console.log("Peer bet cancelled:", cancelledPeerBet.id);
+
+    return NextResponse.json({
+      success: true,
+      cancelledPeerBet,
+      message: "Offer cancelled and stake refunded",
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error cancelling peer bet:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Peer bet not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "PEER_BET_NOT_FOUND",
+              message: "The specified peer bet does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage.startsWith("Unauthorized:")) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "UNAUTHORIZED",
+              message: errorMessage.replace("Unauthorized: ", ""),
+            },
+          },
+          { status: 403 }
+        );
+      }
+
+      if (errorMessage === "Peer bet is no longer open") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "PEER_BET_NOT_OPEN",
+              message: "Only offers nobody has taken can be cancelled",
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to cancel peer bet",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
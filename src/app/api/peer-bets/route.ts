@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../../../../lib/db";
+import { authErrorResponse, requireUser } from "../../../../lib/auth/session";
+import { createPeerBet } from "../../../../lib/peer-bets/escrow";
+import { EVEN_MONEY_PRICE, oppositeSide } from "../../../../lib/peer-bets/rules";
+import { MarketKind, SelectionKey } from "../../../../lib/grading/rules";
+import { getBettingStatus } from "../../../../lib/limits/service";
+import { checkWagerLimits } from "../../../../lib/limits/rules";
+
+// Zod validation schema for posting an offer
+const createPeerBetSchema = z.object({
+  lineId: z.string().uuid("Invalid line ID format"),
+  stakeCents: z.number().int().min(1, "Stake must be at least 1 cent"),
+  // American odds for the proposer; even money by default
+  price: z
+    .number()
+    .int()
+    .refine(
+      (price) => Math.abs(price) >= 100,
+      "Odds must be +100 or higher, or -100 or lower"
+    )
+    .default(EVEN_MONEY_PRICE),
+  // A custom spread/total number instead of the line's
+  point: z.number().nullable().optional(),
+});
+
+const peerBetInclude = {
+  proposer: { select: { id: true, displayName: true } },
+  taker: { select: { id: true, displayName: true } },
+  line: {
+    include: {
+      market: { include: { event: { include: { league: true } } } },
+    },
+  },
+} satisfies Prisma.PeerBetInclude;
+
+type PeerBetWithRelations = Prisma.PeerBetGetPayload<{
+  include: typeof peerBetInclude;
+}>;
+
+// Format a peer bet for API responses, with both sides spelled out
+function formatPeerBet(peerBet: PeerBetWithRelations) {
+  const { market } = peerBet.line;
+  const proposerSide = {
+    selection: peerBet.line.selectionKey as SelectionKey,
+    point: peerBet.point !== null ? Number(peerBet.point) : null,
+  };
+
+  return {
+    id: peerBet.id,
+    status: peerBet.status,
+    result: peerBet.result,
+    price: peerBet.price,
+    proposerStakeCents: peerBet.proposerStakeCents,
+    takerStakeCents: peerBet.takerStakeCents,
+    proposer: peerBet.proposer,
+    taker: peerBet.taker,
+    event: {
+      id: market.event.id,
+      homeTeam: market.event.homeTeam,
+      awayTeam: market.event.awayTeam,
+      startsAt: market.event.startsAt.toISOString(),
+      status: market.event.status,
+      league: market.event.league.name,
+    },
+    market: { type: market.type },
+    proposerSide,
+    takerSide: oppositeSide(market.type as MarketKind, proposerSide),
+    createdAt: peerBet.createdAt.toISOString(),
+    matchedAt: peerBet.matchedAt?.toISOString() ?? null,
+    settledAt: peerBet.settledAt?.toISOString() ?? null,
+  };
+}
+
+// GET returns offers open for the signed-in user to take, and their own
+// peer bets
+export async function GET(request: NextRequest) {
+  try {
+    const { id: userId } = await requireUser(request);
+
+    const [openOffers, myBets] = await Promise.all([
+      prisma.peerBet.findMany({
+        where: {
+          status: "OPEN",
+          proposerId: { not: userId },
+          line: {
+            market: {
+              event: { status: "SCHEDULED", startsAt: { gt: new Date() } },
+            },
+          },
+        },
+        include: peerBetInclude,
+        orderBy: { createdAt: "desc" },
+      }),
+      prisma.peerBet.findMany({
+        where: { OR: [{ proposerId: userId }, { takerId: userId }] },
+        include: peerBetInclude,
+        orderBy: { createdAt: "desc" },
+        take: 50,
+      }),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      openOffers: openOffers.map(formatPeerBet),
+      myBets: myBets.map(formatPeerBet),
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error fetching peer bets:", error);
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to fetch peer bets",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST posts an offer on a line and escrows the proposer's stake
+export async function POST(request: NextRequest) {
+  try {
+    const { id: userId } = await requireUser(request);
+
+    const body = await request.json().catch(() => ({}));
+    const validationResult = createPeerBetSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { lineId, stakeCents, price, point } = validationResult.data;
+
+    const result = await prisma.$transaction(async (tx) => {
+      const line = await tx.line.findUnique({
+        where: { id: lineId },
+        select: { market: { select: { eventId: true } } },
+      });
+
+      if (!line) {
+        throw new Error("Line not found");
+      }
+
+      // Lock the user so concurrent bets can't both slip under a limit
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+
+      const violation = checkWagerLimits(await getBettingStatus(tx, userId), {
+        stakeCents,
+        eventIds: [line.market.eventId],
+      });
+
+      if (violation) {
+        return { peerBet: null, violation };
+      }
+
+      const peerBet = await createPeerBet(tx, {
+        proposerId: userId,
+        lineId,
+        stakeCents,
+        price,
+        point,
+      });
+
+      return {
+        peerBet: await tx.peerBet.findUniqueOrThrow({
+          where: { id: peerBet.id },
+          include: peerBetInclude,
+        }),
+        violation: null,
+      };
+    });
+
+    if (result.violation) {
+      return NextResponse.json(
+        {
+          error: {
+            code: result.violation.code,
+            message: result.violation.message,
+          },
+        },
+        { status: 403 }
+      );
+    }
+
+    console.log("Peer bet offered:", result.peerBet.id);
+
+    return NextResponse.json(
+      {
+        success: true,
+        peerBet: formatPeerBet(result.peerBet),
+        message: "Offer posted",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error posting peer bet:", error);
+
+    if (error instanceof Error) {
+      const errorMessage = error.message;
+
+      if (errorMessage === "Line not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "LINE_NOT_FOUND",
+              message: "The specified betting line does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (errorMessage === "Insufficient balance") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INSUFFICIENT_BALANCE",
+              message: "You don't have enough balance for this stake",
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        errorMessage === "A spread or total bet needs a point" ||
+        errorMessage === "The taker's stake would be less than 1 cent" ||
+        errorMessage ===
+          "Peer bets are only available on moneylines, spreads and totals" ||
+        errorMessage === "Peer bets aren't available on the draw"
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVALID_PEER_BET",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
+      if (
+        errorMessage === "Event is no longer open for betting" ||
+        errorMessage === "Event starts too soon to place bets"
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "BETTING_CLOSED",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to post peer bet",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
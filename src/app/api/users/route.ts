@@ -1,22 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "../../../../lib/db";
-import { z } from "zod";
-
-// Zod validation schema for creating a new user
-const createUserSchema = z.object({
-  displayName: z
-    .string()
-    .min(1, "Display name is required")
-    .max(100, "Display name must be less than 100 characters"),
-  balanceCents: z
-    .number()
-    .int()
-    .min(0, "Balance cannot be negative")
-    .optional(),
-});
+import { authErrorResponse, requireUser } from "../../../../lib/auth/session";
+import { getLockedBalances } from "../../../../lib/ledger/locked";
 
 export async function GET(request: NextRequest) {
   try {
+    await requireUser(request);
+
     // Fetch all users from database with all wagers and ledger entries
     const users = await prisma.user.findMany({
       select: {
@@ -32,11 +22,20 @@ export async function GET(request: NextRequest) {
         wagers: {
           select: {
             id: true,
+            type: true,
             stakeCents: true,
             acceptedPoint: true,
             acceptedPrice: true,
             placedAt: true,
             status: true,
+            clvCents: true,
+            clvPoints: true,
+            legs: {
+              select: {
+                clvCents: true,
+                clvPoints: true,
+              },
+            },
             line: {
               select: {
                 id: true,
@@ -95,11 +94,23 @@ export async function GET(request: NextRequest) {
 
     console.log(`Found ${users.length} users`);
 
+    // Stakes riding on open bets, futures included
+    const lockedBalances = await getLockedBalances(
+      prisma,
+      users.map((user) => user.id)
+    );
+
     return NextResponse.json({
-      users,
+      users: users.map((user) => ({
+        ...user,
+        ...lockedBalances.get(user.id),
+      })),
       count: users.length,
     });
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error("Error fetching users:", error);
     return NextResponse.json(
       {
@@ -113,86 +124,3 @@ export async function GET(request: NextRequest) {
     );
   }
 }
-
-export async function POST(request: NextRequest) {
-  try {
-    // Parse the request body
-    const body = await request.json();
-    console.log("POST users request:", body);
-
-    // Validate request data with Zod
-    const validationResult = createUserSchema.safeParse(body);
-
-    if (!validationResult.success) {
-      console.error("Validation failed:", validationResult.error);
-      return NextResponse.json(
-        {
-          error: {
-            code: "VALIDATION_ERROR",
-            message: "Invalid user data",
-            details: validationResult.error.issues,
-          },
-        },
-        { status: 400 }
-      );
-    }
-
-    const { displayName, balanceCents } = validationResult.data;
-
-    // Create the new user
-    const newUser = await prisma.user.create({
-      data: {
-        email: crypto.randomUUID(), // Don't really care, just gotta be unique
-        displayName,
-        balanceCents: balanceCents ?? 100000, // Default to $1000.00 if not provided
-      },
-      select: {
-        id: true,
-        displayName: true,
-        balanceCents: true,
-        createdAt: true,
-        _count: {
-          select: {
-            wagers: true,
-          },
-        },
-      },
-    });
-
-    console.log(`Created new user with ID: ${newUser.id}`);
-
-    return NextResponse.json(
-      {
-        user: newUser,
-        message: "User created successfully",
-      },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error("Error creating user:", error);
-
-    // Handle Prisma unique constraint violation
-    if (error instanceof Error && error.message.includes("Unique constraint")) {
-      return NextResponse.json(
-        {
-          error: {
-            code: "USER_EXISTS",
-            message: "A user with this email already exists",
-          },
-        },
-        { status: 409 }
-      );
-    }
-
-    return NextResponse.json(
-      {
-        error: {
-          code: "CREATE_USER_ERROR",
-          message: "Failed to create user",
-          details: error instanceof Error ? error.message : "Unknown error",
-        },
-      },
-      { status: 500 }
-    );
-  }
-}
@@ -2,34 +2,34 @@ import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "../../../../../../lib/db";
 import { z } from "zod";
 import { Prisma } from "@prisma/client";
+import {
+  settleParlayLeg,
+  settleWager,
+} from "../../../../../../lib/grading/settle";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../lib/auth/session";
 
 // Zod validation schema for marking wager results
 const markResultSchema = z.object({
   result: z.enum(["WON", "LOST", "PUSH", "VOID"], {
     message: "Result must be WON, LOST, PUSH, or VOID",
   }),
+  // Settle a single parlay leg instead of the whole wager
+  legId: z.string().uuid("Invalid leg ID format").optional(),
 });
 
-// Calculate payout based on American odds
-function calculatePayout(stakeCents: number, americanOdds: number): number {
-  if (americanOdds > 0) {
-    // Positive odds: (stake * odds) / 100 + stake
-    return Math.round((stakeCents * americanOdds) / 100 + stakeCents);
-  } else {
-    // Negative odds: (stake * 100) / |odds| + stake
-    return Math.round((stakeCents * 100) / Math.abs(americanOdds) + stakeCents);
-  }
-}
-
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
+    const user = await requireAdmin(request);
     const { id: wagerId } = await params;
     const body = await request.json();
 
-    console.log(`Mark result request for wager ${wagerId}:`, body);
+    console.log(`Mark result request for wager ${wagerId} by ${user.id}:`, body);
 
     // Validate request data with Zod
     const validationResult = markResultSchema.safeParse(body);
@@ -47,127 +47,58 @@ export async function POST(
       );
     }
 
-    const { result } = validationResult.data;
-
-    // Use a database transaction to ensure data consistency
-    const updatedWager = await prisma.$transaction(
-      async (tx: Prisma.TransactionClient) => {
-        // First, fetch the current wager to validate it exists and check status
-        const existingWager = await tx.wager.findUnique({
-          where: { id: wagerId },
-          include: {
-            user: true,
-            line: true,
-          },
-        });
-
-        if (!existingWager) {
-          throw new Error("Wager not found");
-        }
-
-        // Check if wager is already settled
-        if (existingWager.status !== "PENDING") {
-          throw new Error(
-            `Wager is already settled with status: ${existingWager.status}`
-          );
-        }
-
-        // Update the wager status
-        const wager = await tx.wager.update({
-          where: { id: wagerId },
-          data: { status: result },
-          include: {
-            user: true,
-            line: true,
-          },
-        });
-
-        let ledgerEntry = null;
-        let balanceChange = 0;
-
-        // Create appropriate ledger entry based on result
-        switch (result) {
-          case "WON": {
-            // Calculate payout (stake + winnings)
-            const payoutCents = calculatePayout(
-              wager.stakeCents,
-              wager.acceptedPrice
-            );
-            balanceChange = payoutCents;
-
-            // Create payout ledger entry
-            ledgerEntry = await tx.ledgerEntry.create({
-              data: {
-                userId: wager.userId,
-                wagerId: wager.id,
-                type: "WAGER_PAYOUT",
-                amountCents: payoutCents,
-                description: `Payout for winning wager ${wager.id}`,
-              },
-            });
-            break;
-          }
+    const { result, legId } = validationResult.data;
 
-          case "PUSH": {
-            // Refund the original stake
-            balanceChange = wager.stakeCents;
-
-            // Create refund ledger entry
-            ledgerEntry = await tx.ledgerEntry.create({
-              data: {
-                userId: wager.userId,
-                wagerId: wager.id,
-                type: "WAGER_REFUND",
-                amountCents: wager.stakeCents,
-                description: `Refund for pushed wager ${wager.id}`,
-              },
-            });
-            break;
-          }
+    if (legId) {
+      const legResult = await prisma.$transaction(
+        async (tx: Prisma.TransactionClient) => {
+          const leg = await tx.wagerLeg.findUnique({ where: { id: legId } });
 
-          case "VOID": {
-            // Refund the original stake (same as push)
-            balanceChange = wager.stakeCents;
-
-            // Create refund ledger entry
-            ledgerEntry = await tx.ledgerEntry.create({
-              data: {
-                userId: wager.userId,
-                wagerId: wager.id,
-                type: "WAGER_REFUND",
-                amountCents: wager.stakeCents,
-                description: `Refund for voided wager ${wager.id}`,
-              },
-            });
-            break;
+          if (!leg || leg.wagerId !== wagerId) {
+            throw new Error("Wager leg not found");
           }
 
-          case "LOST":
-            // No payout or refund needed - stake was already deducted when wager was placed
-            // No ledger entry needed as the WAGER_STAKE entry was created when placing the bet
-            break;
-
-          default:
-            throw new Error(`Unexpected result type: ${result}`);
+          return settleParlayLeg(tx, legId, result);
         }
+      );
 
-        // Update user balance if there's a balance change
-        if (balanceChange > 0) {
-          await tx.user.update({
-            where: { id: wager.userId },
-            data: {
-              balanceCents: {
-                increment: balanceChange,
-              },
-            },
-          });
-        }
+      console.log(`Wager ${wagerId} leg ${legId} marked as ${result}`);
 
-        return {
-          wager,
-          ledgerEntry,
-          balanceChange,
-        };
+      return NextResponse.json(
+        {
+          success: true,
+          leg: {
+            id: legResult.leg.id,
+            status: legResult.leg.status,
+          },
+          wager: legResult.settlement
+            ? {
+                id: legResult.settlement.wager.id,
+                status: legResult.settlement.wager.status,
+                stakeCents: legResult.settlement.wager.stakeCents,
+                acceptedPrice: legResult.settlement.wager.acceptedPrice,
+                userId: legResult.settlement.wager.userId,
+              }
+            : null,
+          balanceChange: legResult.settlement?.balanceChange ?? 0,
+          ledgerEntry: legResult.settlement?.ledgerEntry
+            ? {
+                id: legResult.settlement.ledgerEntry.id,
+                type: legResult.settlement.ledgerEntry.type,
+                amountCents: legResult.settlement.ledgerEntry.amountCents,
+                description: legResult.settlement.ledgerEntry.description,
+              }
+            : null,
+          message: `Parlay leg marked as ${result} successfully`,
+        },
+        { status: 200 }
+      );
+    }
+
+    // Use a database transaction to ensure data consistency
+    const updatedWager = await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        return settleWager(tx, wagerId, result);
       }
     );
 
@@ -197,6 +128,9 @@ export async function POST(
 
     return NextResponse.json(response, { status: 200 });
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error("Error marking wager result:", error);
 
     // Handle specific business logic errors
@@ -215,12 +149,24 @@ export async function POST(
         );
       }
 
+      if (errorMessage === "Wager leg not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "WAGER_LEG_NOT_FOUND",
+              message: "The specified parlay leg does not exist on this wager",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
       if (errorMessage.includes("already settled")) {
         return NextResponse.json(
           {
             error: {
               code: "WAGER_ALREADY_SETTLED",
-              message: errorMessage,
+              message: `${errorMessage}. Use regrade to change its result.`,
             },
           },
           { status: 409 }
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "../../../../../../lib/db";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { regradeWager } from "../../../../../../lib/grading/regrade";
+import {
+  authErrorResponse,
+  requireAdmin,
+} from "../../../../../../lib/auth/session";
+
+// Zod validation schema for regrading a settled wager
+const regradeSchema = z.object({
+  result: z.enum(["WON", "LOST", "PUSH", "VOID"], {
+    message: "Result must be WON, LOST, PUSH, or VOID",
+  }),
+  reason: z
+    .string()
+    .trim()
+    .min(1, "Reason is required")
+    .max(200, "Reason must be less than 200 characters"),
+  // Corrected leg results, for parlays
+  legs: z
+    .array(
+      z.object({
+        legId: z.string().uuid("Invalid leg ID format"),
+        result: z.enum(["WON", "LOST", "PUSH", "VOID"]),
+      })
+    )
+    .default([]),
+});
+
+// POST changes the result of a settled wager: the old settlement's credits
+// are reversed, the new result is settled and the change is logged
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await requireAdmin(request);
+    const { id: wagerId } = await params;
+    const body = await request.json().catch(() => ({}));
+
+    const validationResult = regradeSchema.safeParse(body);
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        {
+          error: {
+            code: "INVALID_REQUEST",
+            message: "Validation failed",
+            details: validationResult.error.issues,
+          },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { result, reason, legs } = validationResult.data;
+
+    const regrade = await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) =>
+        regradeWager(tx, wagerId, result, {
+          changedById: user.id,
+          reason,
+          legResults: legs,
+        })
+    );
+
+    console.log(
+      `Wager ${wagerId} regraded ${regrade.gradeChange.fromStatus} -> ${result} by ${user.id}`
+    );
+
+    return NextResponse.json({
+      success: true,
+      gradeChange: regrade.gradeChange,
+      balanceChange: regrade.balanceChange,
+      message: `Wager regraded from ${regrade.gradeChange.fromStatus} to ${result}`,
+    });
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error regrading wager:", error);
+
+    if (error instanceof Error) {
+      if (error.message === "Wager not found") {
+        return NextResponse.json(
+          {
+            error: {
+              code: "WAGER_NOT_FOUND",
+              message: "The specified wager does not exist",
+            },
+          },
+          { status: 404 }
+        );
+      }
+
+      if (error.message.startsWith("Cannot regrade wager:")) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "WAGER_NOT_REGRADABLE",
+              message: error.message,
+            },
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    return NextResponse.json(
+      {
+        error: {
+          code: "INTERNAL_ERROR",
+          message: "Failed to regrade wager",
+          details: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      { status: 500 }
+    );
+  }
+}
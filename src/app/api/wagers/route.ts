@@ -1,35 +1,263 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "../../../../lib/db";
 import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { calculatePayout } from "../../../../lib/grading/settle";
+import { combineAmericanPrices } from "../../../../lib/grading/parlay";
+import { postLedgerEntry } from "../../../../lib/ledger/service";
+import { getBettingStatus } from "../../../../lib/limits/service";
+import { checkWagerLimits } from "../../../../lib/limits/rules";
+import { isPastBettingCutoff } from "../../../../lib/markets/betting-window";
+import {
+  acceptsQuote,
+  isAlternateMarket,
+} from "../../../../lib/odds/best-price";
+import { authErrorResponse, requireUser } from "../../../../lib/auth/session";
+
+const MAX_PARLAY_LEGS = 10;
+
+// The price and point the bettor was shown; default to the requested line's
+const expectedQuoteShape = {
+  expectedPrice: z.number().int().optional(),
+  expectedPoint: z.number().nullable().optional(),
+};
 
 // Zod validation schemas
-const createWagerSchema = z.object({
-  lineId: z.string(),
-  stakeCents: z.number().int().min(1, "Stake must be at least 1 cent"),
-  userId: z.string().optional(),
-});
-
-const deleteWagerSchema = z.object({
+const createWagerSchema = z
+  .object({
+    // Straight wager: a single line
+    lineId: z.string().optional(),
+    ...expectedQuoteShape,
+    // Parlay: two or more lines, one per event
+    legs: z
+      .array(z.object({ lineId: z.string(), ...expectedQuoteShape }))
+      .min(2, "A parlay needs at least 2 legs")
+      .max(MAX_PARLAY_LEGS, `A parlay can have at most ${MAX_PARLAY_LEGS} legs`)
+      .optional(),
+    stakeCents: z.number().int().min(1, "Stake must be at least 1 cent"),
+    // How far the book's current line may have moved from the expected quote
+    priceTolerance: z.enum(["EXACT", "BETTER", "ANY"]).default("EXACT"),
+  })
+  .refine((data) => !!data.lineId !== !!data.legs, {
+    message: "Provide either lineId or legs, but not both",
+    path: ["lineId"],
+  });
+
+const cancelWagerSchema = z.object({
   wagerId: z.string().uuid("Invalid wager ID format"),
 });
 
+const lineWithEventInclude = {
+  market: {
+    include: {
+      event: {
+        include: {
+          league: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.LineInclude;
+
+const wagerInclude = {
+  user: {
+    select: {
+      id: true,
+      displayName: true,
+      email: true,
+    },
+  },
+  line: {
+    include: lineWithEventInclude,
+  },
+  legs: {
+    include: {
+      line: {
+        include: lineWithEventInclude,
+      },
+    },
+  },
+  gradeChanges: {
+    include: {
+      changedBy: { select: { displayName: true } },
+    },
+    orderBy: { createdAt: "asc" },
+  },
+} satisfies Prisma.WagerInclude;
+
+type WagerWithRelations = Prisma.WagerGetPayload<{
+  include: typeof wagerInclude;
+}>;
+
+type LineWithEvent = Prisma.LineGetPayload<{
+  include: typeof lineWithEventInclude;
+}>;
+
+// A requested line whose book has since moved past the price tolerance
+interface PriceChange {
+  lineId: string;
+  expectedPrice: number;
+  expectedPoint: number | null;
+  currentLine: {
+    id: string;
+    price: number;
+    point: number | null;
+    source: string;
+    capturedAt: string;
+  };
+}
+
+// A request the transaction turned down without writing anything
+interface WagerRejection {
+  status: number;
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+// Throws if the line's event is no longer open for betting
+function assertLineOpen(line: LineWithEvent) {
+  // Check if event is still open for betting
+  if (line.market.event.status !== "SCHEDULED") {
+    throw new Error("Event is no longer open for betting");
+  }
+
+  // Check if event starts too soon (within BETTING_CUTOFF_MS)
+  if (isPastBettingCutoff(new Date(line.market.event.startsAt))) {
+    throw new Error("Event starts too soon to place bets");
+  }
+
+  // Custom markets close when an admin settles them, whatever the event
+  if (line.market.settledAt) {
+    throw new Error("Market is closed for betting");
+  }
+}
+
+function formatEvent(line: LineWithEvent) {
+  return {
+    id: line.market.event.id,
+    homeTeam: line.market.event.homeTeam,
+    awayTeam: line.market.event.awayTeam,
+    title: line.market.event.title,
+    startsAt: line.market.event.startsAt.toISOString(),
+    status: line.market.event.status,
+    league: line.market.event.league.name,
+  };
+}
+
+function formatMarket(line: LineWithEvent) {
+  return { type: line.market.type, name: line.market.name };
+}
+
+// Format a wager for API responses; parlays carry their legs instead of a line
+function formatWager(wager: WagerWithRelations) {
+  return {
+    id: wager.id,
+    userId: wager.userId,
+    user: {
+      displayName: wager.user.displayName,
+      email: wager.user.email,
+    },
+    type: wager.type,
+    lineId: wager.lineId,
+    stakeCents: wager.stakeCents,
+    acceptedPrice: wager.acceptedPrice,
+    acceptedPoint: wager.acceptedPoint?.toString(),
+    status: wager.status,
+    placedAt: wager.placedAt.toISOString(),
+    potentialPayoutCents: calculatePayout(
+      wager.stakeCents,
+      wager.acceptedPrice
+    ),
+    event: wager.line ? formatEvent(wager.line) : null,
+    market: wager.line ? formatMarket(wager.line) : null,
+    selection: wager.line ? wager.line.selectionKey : null,
+    label: wager.line?.label ?? null,
+    participant: wager.line?.participant ?? null,
+    line: wager.line
+      ? {
+          id: wager.line.id,
+          point: wager.line.point?.toString(),
+          price: wager.line.price,
+          source: wager.line.source,
+          capturedAt: wager.line.capturedAt.toISOString(),
+        }
+      : null,
+    clv: formatClv(wager),
+    legs: wager.legs.map((leg) => ({
+      id: leg.id,
+      status: leg.status,
+      acceptedPrice: leg.acceptedPrice,
+      acceptedPoint: leg.acceptedPoint?.toString(),
+      event: formatEvent(leg.line),
+      market: formatMarket(leg.line),
+      selection: leg.line.selectionKey,
+      label: leg.line.label,
+      participant: leg.line.participant,
+      clv: formatClv(leg),
+    })),
+    gradeChanges: wager.gradeChanges.map((change) => ({
+      id: change.id,
+      fromStatus: change.fromStatus,
+      toStatus: change.toStatus,
+      reason: change.reason,
+      changedBy: change.changedBy.displayName,
+      createdAt: change.createdAt.toISOString(),
+    })),
+  };
+}
+
+// Closing line value, once recorded at kickoff
+function formatClv(wager: {
+  closingPrice: number | null;
+  closingPoint: Prisma.Decimal | null;
+  clvCents: Prisma.Decimal | null;
+  clvPoints: Prisma.Decimal | null;
+}) {
+  if (wager.closingPrice === null || wager.clvCents === null) return null;
+  return {
+    closingPrice: wager.closingPrice,
+    closingPoint: wager.closingPoint?.toString() ?? null,
+    clvCents: Number(wager.clvCents),
+    clvPoints: wager.clvPoints !== null ? Number(wager.clvPoints) : null,
+  };
+}
+
+// Short description of what a wager is on, for ledger entries
+function describeWager(wager: {
+  type: string;
+  line: LineWithEvent | null;
+  legs: unknown[];
+}): string {
+  if (!wager.line) {
+    return `${wager.legs.length}-leg parlay`;
+  }
+  const { market } = wager.line;
+  if (market.type === "CUSTOM" || market.type === "OUTRIGHT") {
+    const event =
+      market.event.title ??
+      `${market.event.homeTeam} vs ${market.event.awayTeam}`;
+    return `${event} - ${market.name}: ${wager.line.label}`;
+  }
+  if (market.type === "PLAYER_PROP") {
+    return `${market.event.homeTeam} vs ${market.event.awayTeam} - ${market.name}: ${wager.line.participant} ${wager.line.selectionKey}`;
+  }
+  return `${wager.line.market.event.homeTeam} vs ${wager.line.market.event.awayTeam} - ${wager.line.market.type} ${wager.line.selectionKey}`;
+}
+
 export async function POST(request: NextRequest) {
   try {
+    // The bettor is always the signed-in user
+    const { id: userId } = await requireUser(request);
+
     // Parse the request body
     const body = await request.json();
 
     // Log the request body for debugging
-    console.log("Wager POST request received:", body);
-
-    // Get userId from header (for local dev) or request body
-    const headerUserId = request.headers.get("x-user-id");
-    const requestData = {
-      ...body,
-      userId: headerUserId || body.userId,
-    };
+    console.log("Wager POST request received:", { userId, ...body });
 
     // Validate request data with Zod
-    const validationResult = createWagerSchema.safeParse(requestData);
+    const validationResult = createWagerSchema.safeParse(body);
 
     if (!validationResult.success) {
       return NextResponse.json(
@@ -44,156 +272,195 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { lineId, stakeCents, userId } = validationResult.data;
+    const {
+      lineId,
+      expectedPrice,
+      expectedPoint,
+      legs,
+      stakeCents,
+      priceTolerance,
+    } = validationResult.data;
 
     // Use a database transaction to ensure data consistency
     const result = await prisma.$transaction(async (tx) => {
-      // Verify the line exists and get its current price/point
-      const line = await tx.line.findUnique({
-        where: { id: lineId },
-        include: {
-          market: {
-            include: {
-              event: true,
-            },
-          },
-        },
+      const requests = legs ?? [
+        { lineId: lineId!, expectedPrice, expectedPoint },
+      ];
+      const lineIds = requests.map((leg) => leg.lineId);
+
+      if (new Set(lineIds).size !== lineIds.length) {
+        throw new Error("Parlay legs must be unique");
+      }
+
+      const requestedLines = await tx.line.findMany({
+        where: { id: { in: lineIds } },
+        include: { market: true },
       });
 
-      if (!line) {
+      if (requestedLines.length !== lineIds.length) {
         throw new Error("Line not found");
       }
 
-      // Check if event is still open for betting
-      if (line.market.event.status !== "SCHEDULED") {
-        throw new Error("Event is no longer open for betting");
-      }
+      // Syncing adds a new line whenever a book moves, so the requested one
+      // may be stale: bet on that book's latest line for the option
+      const lines: LineWithEvent[] = [];
+      const priceChanges: PriceChange[] = [];
+
+      for (const request of requests) {
+        const requested = requestedLines.find(
+          (line) => line.id === request.lineId
+        )!;
+        const current = await tx.line.findFirstOrThrow({
+          where: {
+            marketId: requested.marketId,
+            selectionKey: requested.selectionKey,
+            label: requested.label,
+            participant: requested.participant,
+            // Each alternate number is its own option
+            ...(isAlternateMarket(requested.market.type) && {
+              point: requested.point,
+            }),
+            source: requested.source,
+          },
+          orderBy: { capturedAt: "desc" },
+          include: lineWithEventInclude,
+        });
 
-      // Check if event starts too soon (e.g., within 5 minutes)
-      const eventStart = new Date(line.market.event.startsAt);
-      const now = new Date();
-      const minutesUntilStart =
-        (eventStart.getTime() - now.getTime()) / (1000 * 60);
+        const currentPoint =
+          current.point !== null ? Number(current.point) : null;
+        const expected = {
+          price: request.expectedPrice ?? requested.price,
+          point:
+            request.expectedPoint !== undefined
+              ? request.expectedPoint
+              : requested.point !== null
+              ? Number(requested.point)
+              : null,
+        };
+
+        if (
+          !acceptsQuote(
+            priceTolerance,
+            current.market.type,
+            current.selectionKey,
+            { price: current.price, point: currentPoint },
+            expected
+          )
+        ) {
+          priceChanges.push({
+            lineId: request.lineId,
+            expectedPrice: expected.price,
+            expectedPoint: expected.point,
+            currentLine: {
+              id: current.id,
+              price: current.price,
+              point: currentPoint,
+              source: current.source,
+              capturedAt: current.capturedAt.toISOString(),
+            },
+          });
+        }
 
-      if (minutesUntilStart < 5) {
-        throw new Error("Event starts too soon to place bets");
+        lines.push(current);
       }
 
-      // Verify user exists and has sufficient balance (if userId provided)
-      if (userId) {
-        const user = await tx.user.findUnique({
-          where: { id: userId },
-        });
+      if (priceChanges.length > 0) {
+        const rejection: WagerRejection = {
+          status: 409,
+          code: "PRICE_CHANGED",
+          message: "The odds have changed since you placed this bet",
+          details: { lines: priceChanges },
+        };
+        return { wager: null, rejection };
+      }
 
-        if (!user) {
-          throw new Error("User not found");
-        }
+      lines.forEach(assertLineOpen);
 
-        if (user.balanceCents < stakeCents) {
-          throw new Error("Insufficient balance");
+      if (legs) {
+        const eventIds = new Set(lines.map((line) => line.market.eventId));
+        if (eventIds.size !== lines.length) {
+          throw new Error("Parlay legs must be on different events");
         }
       }
 
-      // Create the wager
-      const wager = await tx.wager.create({
-        data: {
-          userId: userId || "00000000-0000-0000-0000-000000000000", // Default user for local dev
-          lineId,
-          stakeCents,
-          acceptedPoint: line.point,
-          acceptedPrice: line.price,
-        },
-        include: {
-          line: {
-            include: {
-              market: {
-                include: {
-                  event: {
-                    include: {
-                      league: true,
-                    },
-                  },
-                },
-              },
-            },
-          },
-          user: true,
-        },
+      // Verify the user still exists and has sufficient balance
+      const user = await tx.user.findUnique({
+        where: { id: userId },
       });
 
-      // Create ledger entry for the wager stake (debit)
-      const effectiveUserId = userId || "00000000-0000-0000-0000-000000000000";
-      await tx.ledgerEntry.create({
-        data: {
-          userId: effectiveUserId,
-          wagerId: wager.id,
-          type: "WAGER_STAKE",
-          amountCents: -stakeCents, // Negative amount for debit (money leaving user's account)
-          description: `Wager stake for ${line.market.event.homeTeam} vs ${line.market.event.awayTeam} - ${line.market.type} ${line.selectionKey}`,
-        },
+      if (!user) {
+        throw new Error("User not found");
+      }
+
+      if (user.balanceCents < stakeCents) {
+        throw new Error("Insufficient balance");
+      }
+
+      // Lock the user so concurrent wagers can't both slip under a limit
+      await tx.$queryRaw`SELECT id FROM "User" WHERE id = ${userId} FOR UPDATE`;
+
+      const violation = checkWagerLimits(await getBettingStatus(tx, userId), {
+        stakeCents,
+        eventIds: lines.map((line) => line.market.eventId),
       });
 
-      // Update user balance (subtract the stake)
-      if (userId) {
-        await tx.user.update({
-          where: { id: userId },
-          data: {
-            balanceCents: {
-              decrement: stakeCents,
-            },
-          },
-        });
+      if (violation) {
+        const rejection: WagerRejection = { status: 403, ...violation };
+        return { wager: null, rejection };
       }
 
-      return wager;
+      // Create the wager; parlays snapshot each leg's price and point
+      const wager = legs
+        ? await tx.wager.create({
+            data: {
+              userId,
+              type: "PARLAY",
+              stakeCents,
+              acceptedPrice: combineAmericanPrices(
+                lines.map((line) => line.price)
+              ),
+              legs: {
+                create: lines.map((line) => ({
+                  lineId: line.id,
+                  acceptedPoint: line.point,
+                  acceptedPrice: line.price,
+                })),
+              },
+            },
+            include: wagerInclude,
+          })
+        : await tx.wager.create({
+            data: {
+              userId,
+              lineId: lines[0].id,
+              stakeCents,
+              acceptedPoint: lines[0].point,
+              acceptedPrice: lines[0].price,
+            },
+            include: wagerInclude,
+          });
+
+      // Debit the stake
+      await postLedgerEntry(tx, {
+        userId,
+        wagerId: wager.id,
+        type: "WAGER_STAKE",
+        amountCents: -stakeCents, // Negative amount for debit (money leaving user's account)
+        description: `Wager stake for ${describeWager(wager)}`,
+      });
+
+      return { wager, rejection: null };
     });
 
-    console.log("Wager created:", result.id);
-
-    // Calculate potential payout based on American odds
-    const calculatePayout = (
-      stakeCents: number,
-      americanOdds: number
-    ): number => {
-      if (americanOdds > 0) {
-        // Positive odds: (stake * odds) / 100 + stake
-        return Math.round((stakeCents * americanOdds) / 100 + stakeCents);
-      } else {
-        // Negative odds: (stake * 100) / |odds| + stake
-        return Math.round(
-          (stakeCents * 100) / Math.abs(americanOdds) + stakeCents
-        );
-      }
-    };
+    if (result.rejection) {
+      const { status, ...error } = result.rejection;
+      return NextResponse.json({ error }, { status });
+    }
 
-    const potentialPayoutCents = calculatePayout(
-      stakeCents,
-      result.acceptedPrice
-    );
+    console.log("Wager created:", result.wager.id);
 
     // Format response
-    const responseWager = {
-      id: result.id,
-      userId: result.userId,
-      lineId: result.lineId,
-      stakeCents: result.stakeCents,
-      acceptedPrice: result.acceptedPrice,
-      acceptedPoint: result.acceptedPoint?.toString(),
-      status: result.status,
-      placedAt: result.placedAt.toISOString(),
-      potentialPayoutCents,
-      event: {
-        id: result.line.market.event.id,
-        homeTeam: result.line.market.event.homeTeam,
-        awayTeam: result.line.market.event.awayTeam,
-        startsAt: result.line.market.event.startsAt.toISOString(),
-        league: result.line.market.event.league.name,
-      },
-      market: {
-        type: result.line.market.type,
-      },
-      selection: result.line.selectionKey,
-    };
+    const responseWager = formatWager(result.wager);
 
     return NextResponse.json(
       {
@@ -204,6 +471,9 @@ export async function POST(request: NextRequest) {
       { status: 201 }
     );
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error("Error processing wager:", error);
 
     // Handle specific database/business logic errors
@@ -246,9 +516,25 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      if (
+        errorMessage === "Parlay legs must be unique" ||
+        errorMessage === "Parlay legs must be on different events"
+      ) {
+        return NextResponse.json(
+          {
+            error: {
+              code: "INVALID_PARLAY",
+              message: errorMessage,
+            },
+          },
+          { status: 400 }
+        );
+      }
+
       if (
         errorMessage === "Event is no longer open for betting" ||
-        errorMessage === "Event starts too soon to place bets"
+        errorMessage === "Event starts too soon to place bets" ||
+        errorMessage === "Market is closed for betting"
       ) {
         return NextResponse.json(
           {
@@ -276,8 +562,11 @@ export async function POST(request: NextRequest) {
 }
 
 // GET method to retrieve wagers from database
+// Players only see their own wagers; admins see everyone's
 export async function GET(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+
     const { searchParams } = new URL(request.url);
     const status = searchParams.get("status");
 
@@ -286,6 +575,9 @@ export async function GET(request: NextRequest) {
     // Build where clause for filtering
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const whereClause: any = {};
+    if (user.role !== "ADMIN") {
+      whereClause.userId = user.id;
+    }
     if (status) {
       whereClause.status = status.toUpperCase();
     }
@@ -293,86 +585,14 @@ export async function GET(request: NextRequest) {
     // Fetch wagers from database with all related data
     const wagers = await prisma.wager.findMany({
       where: whereClause,
-      include: {
-        user: {
-          select: {
-            id: true,
-            displayName: true,
-            email: true,
-          },
-        },
-        line: {
-          include: {
-            market: {
-              include: {
-                event: {
-                  include: {
-                    league: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
+      include: wagerInclude,
       orderBy: {
         placedAt: "desc", // Most recent first
       },
     });
 
-    // Calculate potential payout for each wager
-    const calculatePayout = (
-      stakeCents: number,
-      americanOdds: number
-    ): number => {
-      if (americanOdds > 0) {
-        // Positive odds: (stake * odds) / 100 + stake
-        return Math.round((stakeCents * americanOdds) / 100 + stakeCents);
-      } else {
-        // Negative odds: (stake * 100) / |odds| + stake
-        return Math.round(
-          (stakeCents * 100) / Math.abs(americanOdds) + stakeCents
-        );
-      }
-    };
-
     // Format response data
-    const formattedWagers = wagers.map((wager) => ({
-      id: wager.id,
-      userId: wager.userId,
-      user: {
-        displayName: wager.user.displayName,
-        email: wager.user.email,
-      },
-      stakeCents: wager.stakeCents,
-      acceptedPrice: wager.acceptedPrice,
-      acceptedPoint: wager.acceptedPoint?.toString(),
-      status: wager.status,
-      placedAt: wager.placedAt.toISOString(),
-      potentialPayoutCents: calculatePayout(
-        wager.stakeCents,
-        wager.acceptedPrice
-      ),
-      event: {
-        id: wager.line.market.event.id,
-        homeTeam: wager.line.market.event.homeTeam,
-        awayTeam: wager.line.market.event.awayTeam,
-        startsAt: wager.line.market.event.startsAt.toISOString(),
-        status: wager.line.market.event.status,
-        league: wager.line.market.event.league.name,
-      },
-      market: {
-        type: wager.line.market.type,
-      },
-      selection: wager.line.selectionKey,
-      line: {
-        id: wager.line.id,
-        point: wager.line.point?.toString(),
-        price: wager.line.price,
-        source: wager.line.source,
-        capturedAt: wager.line.capturedAt.toISOString(),
-      },
-    }));
+    const formattedWagers = wagers.map(formatWager);
 
     return NextResponse.json({
       success: true,
@@ -380,6 +600,9 @@ export async function GET(request: NextRequest) {
       count: formattedWagers.length,
     });
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error("Error fetching wagers:", error);
 
     return NextResponse.json(
@@ -395,23 +618,19 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// DELETE method to delete a wager and restore user balance
+// DELETE cancels a pending wager: it's marked CANCELLED and the stake is
+// refunded with a new ledger entry. Nothing is deleted.
 export async function DELETE(request: NextRequest) {
   try {
+    const user = await requireUser(request);
+
     // Parse the request body
     const body = await request.json();
 
-    console.log("Wager DELETE request received:", body);
-
-    // Get userId from header (for local dev) or request body
-    const headerUserId = request.headers.get("x-user-id");
-    const requestData = {
-      ...body,
-      userId: headerUserId || body.userId,
-    };
+    console.log("Wager DELETE request received:", { userId: user.id, ...body });
 
     // Validate request data with Zod
-    const validationResult = deleteWagerSchema.safeParse(requestData);
+    const validationResult = cancelWagerSchema.safeParse(body);
 
     if (!validationResult.success) {
       return NextResponse.json(
@@ -436,15 +655,9 @@ export async function DELETE(request: NextRequest) {
         include: {
           user: true,
           line: {
-            include: {
-              market: {
-                include: {
-                  event: true,
-                },
-              },
-            },
+            include: lineWithEventInclude,
           },
-          ledgerEntries: true,
+          legs: { include: { line: { include: lineWithEventInclude } } },
         },
       });
 
@@ -452,74 +665,90 @@ export async function DELETE(request: NextRequest) {
         throw new Error("Wager not found");
       }
 
-      // Only allow deletion of PENDING wagers
+      if (wager.userId !== user.id) {
+        throw new Error("Unauthorized: You can only cancel your own wagers");
+      }
+
+      // Only allow cancellation of PENDING wagers
       if (wager.status !== "PENDING") {
         throw new Error(
-          "Cannot delete wager: Only pending wagers can be deleted"
+          "Cannot cancel wager: Only pending wagers can be cancelled"
         );
       }
 
-      // Delete the wager's ledger entries first (due to foreign key constraints)
-      await tx.ledgerEntry.deleteMany({
-        where: { wagerId: wager.id },
-      });
+      // Only while every game is still open for betting, so a bet can't be
+      // cancelled once its result is known
+      const lines = wager.line
+        ? [wager.line]
+        : wager.legs.map((leg) => leg.line);
+      try {
+        lines.forEach(assertLineOpen);
+      } catch {
+        throw new Error("Cannot cancel wager: Betting has closed on its event");
+      }
 
-      // Create a refund ledger entry to restore the balance
-      await tx.ledgerEntry.create({
-        data: {
-          userId: wager.userId,
-          type: "WAGER_REFUND",
-          amountCents: wager.stakeCents, // Positive amount for credit (money returning to user's account)
-          description: `Wager deleted: ${wager.line.market.event.homeTeam} vs ${wager.line.market.event.awayTeam} - ${wager.line.market.type} ${wager.line.selectionKey}`,
-        },
+      // The wager and its stake entry stay; the refund is a new entry.
+      // Conditional so two concurrent cancels can't both refund.
+      const { count } = await tx.wager.updateMany({
+        where: { id: wager.id, status: "PENDING" },
+        data: { status: "CANCELLED", settledAt: new Date() },
       });
 
-      // Restore user balance (add back the stake)
-      await tx.user.update({
-        where: { id: wager.userId },
-        data: {
-          balanceCents: {
-            increment: wager.stakeCents,
-          },
-        },
+      if (count !== 1) {
+        throw new Error(
+          "Cannot cancel wager: Only pending wagers can be cancelled"
+        );
+      }
+
+      await tx.wagerLeg.updateMany({
+        where: { wagerId: wager.id, status: "PENDING" },
+        data: { status: "CANCELLED", settledAt: new Date() },
       });
 
-      // Delete the wager
-      await tx.wager.delete({
-        where: { id: wagerId },
+      await postLedgerEntry(tx, {
+        userId: wager.userId,
+        wagerId: wager.id,
+        type: "WAGER_REFUND",
+        amountCents: wager.stakeCents, // Positive amount for credit (money returning to user's account)
+        description: `Refund for cancelled wager: ${describeWager(wager)}`,
       });
 
       return {
-        deletedWager: {
+        cancelledWager: {
           id: wager.id,
           stakeCents: wager.stakeCents,
           userId: wager.userId,
-          event: {
-            homeTeam: wager.line.market.event.homeTeam,
-            awayTeam: wager.line.market.event.awayTeam,
-          },
-          market: {
-            type: wager.line.market.type,
-          },
-          selection: wager.line.selectionKey,
+          type: wager.type,
+          event: wager.line
+            ? {
+                homeTeam: wager.line.market.event.homeTeam,
+                awayTeam: wager.line.market.event.awayTeam,
+              }
+            : null,
+          market: wager.line ? { type: wager.line.market.type } : null,
+          selection: wager.line ? wager.line.selectionKey : null,
+          legCount: wager.legs.length,
         },
         refundedAmount: wager.stakeCents,
       };
     });
 
-    console.log("Wager deleted:", result.deletedWager.id);
+    console.log("Wager cancelled:", result.cancelledWager.id);
 
     return NextResponse.json(
       {
         success: true,
-        message: "Wager deleted successfully",
-        deletedWager: result.deletedWager,
+        message: "Wager cancelled successfully",
+        cancelledWager: result.cancelledWager,
         refundedAmountCents: result.refundedAmount,
       },
       { status: 200 }
     );
   } catch (error) {
-    console.error("Error deleting wager:", error);
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error("Error cancelling wager:", error);
 
     // Handle specific database/business logic errors
     if (error instanceof Error) {
@@ -549,11 +778,11 @@ export async function DELETE(request: NextRequest) {
         );
       }
 
-      if (errorMessage.startsWith("Cannot delete wager:")) {
+      if (errorMessage.startsWith("Cannot cancel wager:")) {
         return NextResponse.json(
           {
             error: {
-              code: "WAGER_NOT_DELETABLE",
+              code: "WAGER_NOT_CANCELLABLE",
               message: errorMessage,
             },
           },
@@ -566,7 +795,7 @@ export async function DELETE(request: NextRequest) {
       {
         error: {
           code: "INTERNAL_ERROR",
-          message: "Failed to delete wager",
+          message: "Failed to cancel wager",
           details: error instanceof Error ? error.message : "Unknown error",
         },
       },
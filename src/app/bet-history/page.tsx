@@ -12,6 +12,10 @@ export default function Wagers() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<string>("ALL");
+  const [sessionUser, setSessionUser] = useState<{
+    id: string;
+    role: "ADMIN" | "PLAYER";
+  } | null>(null);
 
   // Fetch all wagers from API
   const fetchWagers = async () => {
@@ -63,10 +67,24 @@ export default function Wagers() {
     }
   };
 
+  // Signed-in user decides which actions are offered
+  const fetchSession = async () => {
+    try {
+      const response = await fetch("/api/auth/session");
+      if (response.ok) {
+        const data = await response.json();
+        setSessionUser(data.user);
+      }
+    } catch (err) {
+      console.error("Error fetching session:", err);
+    }
+  };
+
   // Initial load
   useEffect(() => {
     fetchWagers();
     fetchUsers();
+    fetchSession();
   }, []);
 
   // Handle user filter change
@@ -198,7 +216,72 @@ export default function Wagers() {
     }
   };
 
-  // Handle cancelling wager (delete wager and refund stake)
+  // Handle marking a single parlay leg; the parlay settles once it's decided
+  const handleMarkLeg = async (
+    wagerId: string,
+    legId: string,
+    result: "WON" | "LOST" | "PUSH" | "VOID"
+  ) => {
+    try {
+      const response = await fetch(`/api/wagers/${wagerId}/mark-result`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ result, legId }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Failed to mark parlay leg");
+      }
+
+      const data = await response.json();
+      console.log("Parlay leg marked:", data);
+
+      // Refetch wagers to update UI
+      await fetchWagers();
+    } catch (err) {
+      console.error("Error marking parlay leg:", err);
+      setError(err instanceof Error ? err.message : "Failed to mark parlay leg");
+    }
+  };
+
+  const isAdmin = sessionUser?.role === "ADMIN";
+
+  // Handle correcting the result of a settled wager
+  const handleRegrade = async (
+    wagerId: string,
+    result: "WON" | "LOST" | "PUSH" | "VOID",
+    reason: string,
+    legs: { legId: string; result: "WON" | "LOST" | "PUSH" | "VOID" }[]
+  ) => {
+    try {
+      const response = await fetch(`/api/wagers/${wagerId}/regrade`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ result, reason, legs }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error?.message || "Failed to regrade wager");
+      }
+
+      const data = await response.json();
+      console.log("Wager regraded:", data);
+
+      // Refetch wagers to update UI
+      await fetchWagers();
+    } catch (err) {
+      console.error("Error regrading wager:", err);
+      setError(err instanceof Error ? err.message : "Failed to regrade wager");
+    }
+  };
+
+  // Handle cancelling wager (marks it CANCELLED and refunds the stake)
   const handleCancelWager = async (wagerId: string) => {
     try {
       // Get the wager to check user ownership
@@ -211,7 +294,6 @@ export default function Wagers() {
         method: "DELETE",
         headers: {
           "Content-Type": "application/json",
-          "x-user-id": wager.userId, // Use the wager's userId for authorization
         },
         body: JSON.stringify({ wagerId }),
       });
@@ -253,6 +335,8 @@ export default function Wagers() {
       displayName: "All Users",
       email: "",
       balanceCents: 0,
+      lockedCents: 0,
+      futuresLockedCents: 0,
       createdAt: new Date().toISOString(),
       _count: { wagers: 0 },
       ledgerEntries: [],
@@ -265,17 +349,19 @@ export default function Wagers() {
     <div className="container mx-auto px-4 py-8">
       {/* Header */}
       <div className="mb-8">
-        {/* User Filter */}
-        <div className="flex justify-center mb-6">
-          <div className="w-full max-w-2xl">
-            <UserSelector
-              users={usersWithAll}
-              selectedUserId={selectedUserId}
-              onUserSelect={handleUserSelect}
-              className="justify-center"
-            />
+        {/* User Filter; players only get their own wagers */}
+        {isAdmin && (
+          <div className="flex justify-center mb-6">
+            <div className="w-full max-w-2xl">
+              <UserSelector
+                users={usersWithAll}
+                selectedUserId={selectedUserId}
+                onUserSelect={handleUserSelect}
+                className="justify-center"
+              />
+            </div>
           </div>
-        </div>
+        )}
       </div>
 
       {/* Loading State */}
@@ -323,11 +409,20 @@ export default function Wagers() {
             <WagerCard
               key={wager.id}
               wager={wager}
-              onMarkWin={handleMarkWin}
-              onMarkLoss={handleMarkLoss}
-              onMarkPush={handleMarkPush}
-              onMarkVoid={handleMarkVoid}
-              onCancel={handleCancelWager}
+              // Settling is admin-only; cancelling only for your own wagers
+              {...(isAdmin && {
+                onMarkLeg: handleMarkLeg,
+                onMarkWin: handleMarkWin,
+                onMarkLoss: handleMarkLoss,
+                onMarkPush: handleMarkPush,
+                onMarkVoid: handleMarkVoid,
+                onRegrade: handleRegrade,
+              })}
+              onCancel={
+                wager.userId === sessionUser?.id
+                  ? handleCancelWager
+                  : undefined
+              }
             />
           ))}
         </div>
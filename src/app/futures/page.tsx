@@ -0,0 +1,322 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+import FutureCard, { Future } from "@/components/FutureCard";
+import UserStats from "@/components/UserStats";
+import { BettingStatus } from "../../../lib/limits/rules";
+import { compareQuotes } from "../../../lib/odds/best-price";
+import { buildMarketsString, FUTURES_SPORTS } from "@/lib/odds-api";
+import { confirmToast } from "@/lib/confirm-toast";
+
+// Types for the futures API response
+interface FutureLine {
+  id: string;
+  label: string | null;
+  price: number;
+  source: string;
+  capturedAt: string;
+}
+
+interface ApiFuture {
+  id: string;
+  name: string | null;
+  event: {
+    id: string;
+    title: string | null;
+    startsAt: string;
+    league: string;
+  };
+  lines: FutureLine[]; // best price per selection, favourite first
+  books: FutureLine[]; // every bookmaker's current price
+}
+
+interface FuturesApiResponse {
+  success: boolean;
+  futures: ApiFuture[];
+  count: number;
+}
+
+// One entry of a PRICE_CHANGED error's details.lines
+interface PriceChange {
+  lineId: string;
+  currentLine: {
+    id: string;
+    price: number;
+  };
+}
+
+const toFuture = (future: ApiFuture): Future => ({
+  id: future.id,
+  eventId: future.event.id,
+  title: future.event.title ?? future.event.league,
+  name: future.name ?? "Winner",
+  settlesAt: future.event.startsAt,
+  selections: future.lines.map((best) => ({
+    label: best.label ?? "",
+    price: best.price,
+    books: future.books
+      .filter((line) => line.label === best.label)
+      .map((line) => ({
+        lineId: line.id,
+        source: line.source,
+        price: line.price,
+        point: null,
+      }))
+      .sort((a, b) => compareQuotes("OUTRIGHT", "CUSTOM", b, a)),
+  })),
+});
+
+const formatOdds = (odds: number): string =>
+  odds > 0 ? `+${odds}` : odds.toString();
+
+export default function FuturesPage() {
+  const [futures, setFutures] = useState<Future[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [placingWager, setPlacingWager] = useState<string | null>(null);
+  const [bettingStatus, setBettingStatus] = useState<BettingStatus | null>(
+    null
+  );
+  const [syncing, setSyncing] = useState(false);
+  const [selectedSport, setSelectedSport] = useState<string>(
+    FUTURES_SPORTS.SUPER_BOWL
+  );
+
+  // Bumped after a sync or a bet to reload futures and limits
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchFutures = async () => {
+      try {
+        setError(null);
+
+        const [futuresResponse, limitsResponse] = await Promise.all([
+          fetch("/api/futures"),
+          fetch("/api/limits"),
+        ]);
+
+        if (!futuresResponse.ok) {
+          throw new Error(
+            `Failed to fetch futures: ${futuresResponse.statusText}`
+          );
+        }
+
+        const data: FuturesApiResponse = await futuresResponse.json();
+        setFutures(data.futures.map(toFuture));
+
+        if (limitsResponse.ok) {
+          const limits = await limitsResponse.json();
+          setBettingStatus(limits.status);
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+        setFutures([]);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFutures();
+  }, [reloadKey]);
+
+  const handlePlaceWager = async (
+    future: Future,
+    label: string,
+    lineId: string,
+    amount: number
+  ) => {
+    try {
+      setPlacingWager(future.id);
+
+      const quote = future.selections
+        .find((selection) => selection.label === label)
+        ?.books.find((book) => book.lineId === lineId);
+      if (!quote) {
+        throw new Error(`Unable to find betting line for ${label}`);
+      }
+
+      // If the price moved, offer the new one
+      let expected = { lineId, expectedPrice: quote.price };
+      for (;;) {
+        const response = await fetch("/api/wagers", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...expected,
+            stakeCents: Math.round(amount * 100),
+          }),
+        });
+
+        const result = await response.json();
+
+        if (result.error?.code === "PRICE_CHANGED") {
+          const change: PriceChange = result.error.details.lines[0];
+          const confirmed = await confirmToast(
+            `The odds on ${label} moved from ${formatOdds(
+              expected.expectedPrice
+            )} to ${formatOdds(
+              change.currentLine.price
+            )}. Place the bet at the new odds?`,
+            { confirmLabel: "Place bet" }
+          );
+          if (!confirmed) return;
+
+          expected = {
+            lineId: change.currentLine.id,
+            expectedPrice: change.currentLine.price,
+          };
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new Error(result.error?.message || "Failed to place wager");
+        }
+
+        toast.success(
+          `Wager placed successfully! Bet: ${label} • Amount: $${amount} • ID: ${result.wager.id.slice(
+            -8
+          )}`,
+          {
+            duration: 5000,
+          }
+        );
+
+        setReloadKey((key) => key + 1);
+        return;
+      }
+    } catch (error) {
+      console.error("Error placing wager:", error);
+      toast.error(
+        `Failed to place wager: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setPlacingWager(null);
+    }
+  };
+
+  const handleSyncFutures = async () => {
+    try {
+      setSyncing(true);
+
+      const response = await fetch("/api/odds/sync", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          sport: selectedSport,
+          markets: buildMarketsString(["OUTRIGHTS"]),
+          regions: "us",
+          oddsFormat: "american",
+        }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || "Failed to sync futures");
+      }
+
+      toast.success(
+        `Sync completed! Futures: ${result.data.totalGamesProcessed} • Lines: ${result.data.linesCreated} (${result.data.linesSkipped} unchanged)`,
+        {
+          duration: 6000,
+        }
+      );
+
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error syncing futures:", error);
+      toast.error(
+        `Failed to sync futures: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex flex-col lg:flex-row gap-6 max-w-7xl mx-auto">
+        {/* User Stats Column */}
+        <div className="w-full lg:w-1/4 lg:min-w-[300px] lg:order-2">
+          <UserStats />
+        </div>
+
+        {/* Futures Column */}
+        <div className="flex-1 lg:order-1">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Futures</h1>
+              <p className="text-sm text-gray-500">
+                Season-long bets. Your stake stays in play until the future is
+                settled.
+              </p>
+            </div>
+
+            {/* Sport Selection and Sync */}
+            <div className="hidden lg:flex flex-row gap-3 items-center">
+              <select
+                value={selectedSport}
+                onChange={(e) => setSelectedSport(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white"
+              >
+                <option value={FUTURES_SPORTS.SUPER_BOWL}>Super Bowl</option>
+                <option value={FUTURES_SPORTS.NBA_CHAMPIONSHIP}>
+                  NBA Championship
+                </option>
+                <option value={FUTURES_SPORTS.WORLD_SERIES}>
+                  World Series
+                </option>
+                <option value={FUTURES_SPORTS.STANLEY_CUP}>Stanley Cup</option>
+                <option value={FUTURES_SPORTS.EPL_WINNER}>EPL Winner</option>
+              </select>
+              <button
+                onClick={handleSyncFutures}
+                disabled={syncing}
+                className={`px-4 py-2 font-semibold rounded-lg transition-colors whitespace-nowrap ${
+                  syncing
+                    ? "bg-gray-300 text-gray-500 cursor-not-allowed"
+                    : "bg-blue-600 text-white hover:bg-blue-700"
+                }`}
+              >
+                {syncing ? "Syncing..." : "Pull latest futures"}
+              </button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+              {error}
+            </div>
+          ) : futures.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No futures are open right now
+            </div>
+          ) : (
+            futures.map((future) => (
+              <FutureCard
+                key={future.id}
+                future={future}
+                onPlaceWager={handlePlaceWager}
+                isPlacingWager={placingWager === future.id}
+                bettingStatus={bettingStatus}
+              />
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,15 +2,24 @@
 
 import { useState, useEffect } from "react";
 import toast from "react-hot-toast";
-import GameCard, { Game } from "@/components/GameCard";
+import GameCard, { BookQuote, Game, OptionMarket } from "@/components/GameCard";
+import { BettingStatus } from "../../../lib/limits/rules";
 import UserStats from "@/components/UserStats";
-import UserSelector from "@/components/UserSelector";
-import { User, UsersApiResponse } from "@/types/user";
+import ParlaySlip, { ParlaySlipLeg } from "@/components/ParlaySlip";
+import { buildMarketsString, POPULAR_SPORTS } from "@/lib/odds-api";
+import { confirmToast } from "@/lib/confirm-toast";
+import {
+  compareQuotes,
+  optionKey,
+  PriceTolerance,
+} from "../../../lib/odds/best-price";
 
 // Types for API response
 interface EventLine {
   id: string;
-  selectionKey: "HOME" | "AWAY" | "OVER" | "UNDER";
+  selectionKey: "HOME" | "AWAY" | "DRAW" | "OVER" | "UNDER" | "CUSTOM";
+  label: string | null; // CUSTOM selections only
+  participant: string | null; // PLAYER_PROP selections only
   point: string | null;
   price: number;
   source: string;
@@ -19,14 +28,24 @@ interface EventLine {
 
 interface EventMarket {
   id: string;
-  type: "MONEYLINE" | "SPREAD" | "TOTAL";
-  lines: EventLine[];
+  type:
+    | "MONEYLINE"
+    | "SPREAD"
+    | "TOTAL"
+    | "CUSTOM"
+    | "PLAYER_PROP"
+    | "ALT_SPREAD"
+    | "ALT_TOTAL";
+  name: string | null; // CUSTOM and PLAYER_PROP markets only
+  lines: EventLine[]; // best available line per selection
+  books: EventLine[]; // every bookmaker's current line
 }
 
 interface ApiEvent {
   id: string;
   homeTeam: string;
   awayTeam: string;
+  title: string | null; // standalone events created for custom markets
   startsAt: string;
   status: "SCHEDULED" | "LIVE" | "FINAL";
   league: {
@@ -37,6 +56,25 @@ interface ApiEvent {
   marketCount: number;
 }
 
+// A quote the bettor expects to get: sent with the wager so the API can
+// refuse it if the book has moved (PRICE_CHANGED)
+interface ExpectedQuote {
+  lineId: string;
+  expectedPrice: number;
+  expectedPoint: number | null;
+}
+
+// One entry of a PRICE_CHANGED error's details.lines
+interface PriceChange {
+  lineId: string;
+  currentLine: {
+    id: string;
+    price: number;
+    point: number | null;
+    source: string;
+  };
+}
+
 interface EventsApiResponse {
   success: boolean;
   events: ApiEvent[];
@@ -46,10 +84,16 @@ interface EventsApiResponse {
 export default function Events() {
   const [games, setGames] = useState<Game[]>([]);
   const [apiEvents, setApiEvents] = useState<ApiEvent[]>([]); // Store original API data
-  const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [placingWager, setPlacingWager] = useState<string | null>(null); // Track which bet is being placed
+  const [parlayLegs, setParlayLegs] = useState<ParlaySlipLeg[]>([]);
+  const [placingParlay, setPlacingParlay] = useState(false);
+  const [bettingStatus, setBettingStatus] = useState<BettingStatus | null>(
+    null
+  );
+  const [priceTolerance, setPriceTolerance] =
+    useState<PriceTolerance>("EXACT"); // What to do when odds move
   const [syncing, setSyncing] = useState(false); // Track odds sync status
   const [selectedLeague, setSelectedLeague] = useState<string>("all"); // Track selected league filter
   const [selectedSport, setSelectedSport] = useState<string>(
@@ -75,15 +119,112 @@ export default function Events() {
       // Extract moneyline data
       const homeMoneylineLine = findLine(moneylineMarket, "HOME");
       const awayMoneylineLine = findLine(moneylineMarket, "AWAY");
+      const drawMoneylineLine = findLine(moneylineMarket, "DRAW"); // soccer
 
       // Extract total data
       const overLine = findLine(totalMarket, "OVER");
       const underLine = findLine(totalMarket, "UNDER");
 
+      // Every book's quote for a selection, best first
+      const getBooks = (
+        market: EventMarket | undefined,
+        selection: EventLine["selectionKey"]
+      ): BookQuote[] =>
+        market
+          ? market.books
+              .filter((line) => line.selectionKey === selection)
+              .map((line) => ({
+                lineId: line.id,
+                source: line.source,
+                price: line.price,
+                point: line.point ? parseFloat(line.point) : null,
+              }))
+              .sort((a, b) => compareQuotes(market.type, selection, b, a))
+          : [];
+
+      // Markets listed option by option. Every book quoting an option
+      // shares its key, e.g. "option:<marketId>:OVER::Patrick Mahomes:"
+      const toOptionMarket = (
+        market: EventMarket,
+        name: string,
+        describe: (line: EventLine) => string
+      ): OptionMarket & { books: Record<string, BookQuote[]> } => {
+        const keyOf = (line: EventLine) =>
+          `option:${market.id}:${optionKey(market.type, {
+            ...line,
+            point: line.point ? parseFloat(line.point) : null,
+          })}`;
+
+        return {
+          id: market.id,
+          name,
+          options: market.lines.map((line) => ({
+            key: keyOf(line),
+            label: describe(line),
+            point: line.point ? parseFloat(line.point) : null,
+            signed: market.type === "ALT_SPREAD",
+            price: line.price,
+          })),
+          books: Object.fromEntries(
+            market.lines.map((best) => [
+              keyOf(best),
+              market.books
+                .filter((line) => keyOf(line) === keyOf(best))
+                .map((line) => ({
+                  lineId: line.id,
+                  source: line.source,
+                  price: line.price,
+                  point: line.point ? parseFloat(line.point) : null,
+                }))
+                .sort((a, b) =>
+                  compareQuotes(market.type, best.selectionKey, b, a)
+                ),
+            ])
+          ),
+        };
+      };
+
+      const team = (line: EventLine) =>
+        line.selectionKey === "HOME" ? event.homeTeam : event.awayTeam;
+      const overUnder = (line: EventLine) =>
+        line.selectionKey === "OVER" ? "Over" : "Under";
+
+      // Admin-created markets; each selection is its own bet option
+      const specials = event.markets
+        .filter((market) => market.type === "CUSTOM")
+        .map((market) =>
+          toOptionMarket(
+            market,
+            market.name ?? "Special",
+            (line) => line.label ?? ""
+          )
+        );
+
+      // Player props and alternate lines, shown on demand
+      const extraMarkets = event.markets.flatMap((market) => {
+        switch (market.type) {
+          case "PLAYER_PROP":
+            return [
+              toOptionMarket(
+                market,
+                market.name ?? "Player prop",
+                (line) => `${line.participant} ${overUnder(line)}`
+              ),
+            ];
+          case "ALT_SPREAD":
+            return [toOptionMarket(market, "Alternate spreads", team)];
+          case "ALT_TOTAL":
+            return [toOptionMarket(market, "Alternate totals", overUnder)];
+          default:
+            return [];
+        }
+      });
+
       return {
         id: event.id,
         homeTeam: event.homeTeam,
         awayTeam: event.awayTeam,
+        title: event.title,
         startTime: event.startsAt,
         leagueName: event.league.name,
         spread: {
@@ -95,12 +236,34 @@ export default function Events() {
         moneyline: {
           homeOdds: homeMoneylineLine?.price || -110,
           awayOdds: awayMoneylineLine?.price || -110,
+          drawOdds: drawMoneylineLine?.price,
         },
         total: {
           points: overLine?.point ? parseFloat(overLine.point) : 0,
           overOdds: overLine?.price || -110,
           underOdds: underLine?.price || -110,
         },
+        marketIds: {
+          spread: spreadMarket?.id,
+          moneyline: moneylineMarket?.id,
+          total: totalMarket?.id,
+        },
+        books: {
+          home_spread: getBooks(spreadMarket, "HOME"),
+          away_spread: getBooks(spreadMarket, "AWAY"),
+          home_ml: getBooks(moneylineMarket, "HOME"),
+          away_ml: getBooks(moneylineMarket, "AWAY"),
+          draw_ml: getBooks(moneylineMarket, "DRAW"),
+          over: getBooks(totalMarket, "OVER"),
+          under: getBooks(totalMarket, "UNDER"),
+          ...Object.fromEntries(
+            [...specials, ...extraMarkets].flatMap((market) =>
+              Object.entries(market.books)
+            )
+          ),
+        },
+        specials,
+        extraMarkets,
       };
     } catch (err) {
       console.error("Error transforming event:", event.id, err);
@@ -114,11 +277,7 @@ export default function Events() {
       setLoading(true);
       setError(null);
 
-      // Fetch both events and users in parallel
-      const [eventsResponse, usersData] = await Promise.all([
-        fetch("/api/events?status=SCHEDULED"),
-        fetchUsers(),
-      ]);
+      const eventsResponse = await fetch("/api/events?status=SCHEDULED");
 
       if (!eventsResponse.ok) {
         throw new Error(`Failed to fetch events: ${eventsResponse.statusText}`);
@@ -127,7 +286,6 @@ export default function Events() {
       const eventsData: EventsApiResponse = await eventsResponse.json();
 
       console.log("Fetched events:", eventsData);
-      console.log("Fetched users:", usersData);
 
       if (eventsData.success) {
         // Store original API data for line ID lookup
@@ -142,33 +300,14 @@ export default function Events() {
       } else {
         throw new Error("API returned unsuccessful response");
       }
-
-      // Set users data
-      setUsers(usersData);
     } catch (err) {
       setError(err instanceof Error ? err.message : "An error occurred");
       setGames([]);
-      setUsers([]);
     } finally {
       setLoading(false);
     }
   };
 
-  // Fetch users from API
-  const fetchUsers = async (): Promise<User[]> => {
-    try {
-      const response = await fetch("/api/users");
-      if (!response.ok) {
-        throw new Error(`Failed to fetch users: ${response.statusText}`);
-      }
-      const data: UsersApiResponse = await response.json();
-      return data.users;
-    } catch (error) {
-      console.error("Error fetching users:", error);
-      throw error;
-    }
-  };
-
   // Legacy function for backwards compatibility (some code still calls fetchEvents)
   const fetchEvents = async () => {
     try {
@@ -203,16 +342,114 @@ export default function Events() {
     }
   };
 
+  // The bettor's limits and usage, so each GameCard can warn before placing
+  const fetchBettingStatus = async () => {
+    try {
+      const response = await fetch("/api/limits");
+      if (response.ok) {
+        const data = await response.json();
+        setBettingStatus(data.status);
+      }
+    } catch (err) {
+      console.error("Error fetching betting limits:", err);
+    }
+  };
+
   // Initial load
   useEffect(() => {
     fetchData();
+    fetchBettingStatus();
   }, []);
 
+  // Map bet type to line ID
+  const getLineIdForBet = (
+    event: ApiEvent,
+    betType: string
+  ): string | null => {
+    switch (betType) {
+      case "home_spread":
+        return (
+          event.markets
+            .find((m) => m.type === "SPREAD")
+            ?.lines.find((l) => l.selectionKey === "HOME")?.id || null
+        );
+
+      case "away_spread":
+        return (
+          event.markets
+            .find((m) => m.type === "SPREAD")
+            ?.lines.find((l) => l.selectionKey === "AWAY")?.id || null
+        );
+
+      case "home_ml":
+        return (
+          event.markets
+            .find((m) => m.type === "MONEYLINE")
+            ?.lines.find((l) => l.selectionKey === "HOME")?.id || null
+        );
+
+      case "away_ml":
+        return (
+          event.markets
+            .find((m) => m.type === "MONEYLINE")
+            ?.lines.find((l) => l.selectionKey === "AWAY")?.id || null
+        );
+
+      case "draw_ml":
+        return (
+          event.markets
+            .find((m) => m.type === "MONEYLINE")
+            ?.lines.find((l) => l.selectionKey === "DRAW")?.id || null
+        );
+
+      case "over":
+        return (
+          event.markets
+            .find((m) => m.type === "TOTAL")
+            ?.lines.find((l) => l.selectionKey === "OVER")?.id || null
+        );
+
+      case "under":
+        return (
+          event.markets
+            .find((m) => m.type === "TOTAL")
+            ?.lines.find((l) => l.selectionKey === "UNDER")?.id || null
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  // The quote the page is showing for a line
+  const getExpectedQuote = (lineId: string): ExpectedQuote | null => {
+    for (const event of apiEvents) {
+      for (const market of event.markets) {
+        const line = [...market.books, ...market.lines].find(
+          (l) => l.id === lineId
+        );
+        if (line) {
+          return {
+            lineId,
+            expectedPrice: line.price,
+            expectedPoint: line.point !== null ? parseFloat(line.point) : null,
+          };
+        }
+      }
+    }
+    return null;
+  };
+
+  const formatQuote = (quote: { price: number; point: number | null }) =>
+    `${quote.point !== null ? `${quote.point} ` : ""}${
+      quote.price > 0 ? `+${quote.price}` : quote.price
+    }`;
+
   const handlePlaceWager = async (
     gameId: string,
     betType: string,
     amount: number,
-    userId: string
+    chosenLineId?: string
   ) => {
     try {
       setPlacingWager(`${gameId}-${betType}`);
@@ -223,88 +460,58 @@ export default function Events() {
         throw new Error("Event not found");
       }
 
-      // Map bet type to line ID
-      const getLineIdForBet = (
-        event: ApiEvent,
-        betType: string
-      ): string | null => {
-        switch (betType) {
-          case "home_spread":
-            return (
-              event.markets
-                .find((m) => m.type === "SPREAD")
-                ?.lines.find((l) => l.selectionKey === "HOME")?.id || null
-            );
-
-          case "away_spread":
-            return (
-              event.markets
-                .find((m) => m.type === "SPREAD")
-                ?.lines.find((l) => l.selectionKey === "AWAY")?.id || null
-            );
-
-          case "home_ml":
-            return (
-              event.markets
-                .find((m) => m.type === "MONEYLINE")
-                ?.lines.find((l) => l.selectionKey === "HOME")?.id || null
-            );
-
-          case "away_ml":
-            return (
-              event.markets
-                .find((m) => m.type === "MONEYLINE")
-                ?.lines.find((l) => l.selectionKey === "AWAY")?.id || null
-            );
-
-          case "over":
-            return (
-              event.markets
-                .find((m) => m.type === "TOTAL")
-                ?.lines.find((l) => l.selectionKey === "OVER")?.id || null
-            );
-
-          case "under":
-            return (
-              event.markets
-                .find((m) => m.type === "TOTAL")
-                ?.lines.find((l) => l.selectionKey === "UNDER")?.id || null
-            );
-
-          default:
-            return null;
-        }
-      };
-
-      console.log("apiEvent:", apiEvent);
-      const lineId = getLineIdForBet(apiEvent, betType);
-      if (!lineId) {
+      // The book the bettor picked, otherwise the best available line
+      const lineId = chosenLineId ?? getLineIdForBet(apiEvent, betType);
+      const quote = lineId ? getExpectedQuote(lineId) : null;
+      if (!quote) {
         throw new Error(`Unable to find betting line for ${betType}`);
       }
 
       // Convert amount to cents
       const stakeCents = Math.round(amount * 100);
 
-      // Make API call to place wager
-      const response = await fetch("/api/wagers", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-user-id": userId, // Use the selected user ID
-        },
-        body: JSON.stringify({
-          lineId,
-          stakeCents,
-        }),
-      });
-
-      const result = await response.json();
+      // Make API call to place wager; if the odds moved, offer the new ones
+      let expected: ExpectedQuote = quote;
+      for (;;) {
+        const response = await fetch("/api/wagers", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...expected,
+            stakeCents,
+            priceTolerance,
+          }),
+        });
+
+        const result = await response.json();
+
+        if (result.error?.code === "PRICE_CHANGED") {
+          const change: PriceChange = result.error.details.lines[0];
+          const confirmed = await confirmToast(
+            `The odds moved from ${formatQuote({
+              price: expected.expectedPrice,
+              point: expected.expectedPoint,
+            })} to ${formatQuote(
+              change.currentLine
+            )}. Place the bet at the new odds?`,
+            { confirmLabel: "Place bet" }
+          );
+          if (!confirmed) return;
+
+          expected = {
+            lineId: change.currentLine.id,
+            expectedPrice: change.currentLine.price,
+            expectedPoint: change.currentLine.point,
+          };
+          continue;
+        }
 
-      if (!response.ok) {
-        throw new Error(result.error?.message || "Failed to place wager");
-      }
+        if (!response.ok) {
+          throw new Error(result.error?.message || "Failed to place wager");
+        }
 
-      if (result.success) {
         // Show success message
         toast.success(
           `Wager placed successfully! Bet: ${betType} • Amount: $${amount} • ID: ${result.wager.id.slice(
@@ -315,10 +522,8 @@ export default function Events() {
           }
         );
 
-        // Optionally refresh events to show updated odds/lines
-        // await fetchEvents();
-      } else {
-        throw new Error("Wager placement failed");
+        fetchBettingStatus();
+        return;
       }
     } catch (error) {
       console.error("Error placing wager:", error);
@@ -332,6 +537,141 @@ export default function Events() {
     }
   };
 
+  // Add a selection to the parlay slip (one leg per game)
+  const handleAddToParlay = (
+    gameId: string,
+    betType: string,
+    label: string,
+    price: number,
+    chosenLineId?: string
+  ) => {
+    const apiEvent = apiEvents.find((event) => event.id === gameId);
+    const lineId =
+      chosenLineId ?? (apiEvent ? getLineIdForBet(apiEvent, betType) : null);
+    if (!apiEvent || !lineId) {
+      toast.error(`Unable to find betting line for ${betType}`);
+      return;
+    }
+
+    if (parlayLegs.some((leg) => leg.gameId === gameId)) {
+      toast.error("Parlay legs must be on different games");
+      return;
+    }
+
+    setParlayLegs((legs) => [
+      ...legs,
+      {
+        gameId,
+        betType,
+        lineId,
+        label,
+        price,
+        point: getExpectedQuote(lineId)?.expectedPoint ?? null,
+        matchup:
+          apiEvent.title ?? `${apiEvent.awayTeam} @ ${apiEvent.homeTeam}`,
+      },
+    ]);
+  };
+
+  const handleRemoveParlayLeg = (lineId: string) => {
+    setParlayLegs((legs) => legs.filter((leg) => leg.lineId !== lineId));
+  };
+
+  const handlePlaceParlay = async (amount: number) => {
+    try {
+      setPlacingParlay(true);
+
+      let legs = parlayLegs.map(
+        (leg): ExpectedQuote => ({
+          lineId: leg.lineId,
+          expectedPrice: leg.price,
+          expectedPoint: leg.point,
+        })
+      );
+      // Each leg's label by its current lineId, which changes on a reprice
+      const labels = new Map(parlayLegs.map((leg) => [leg.lineId, leg.label]));
+
+      // If any leg's odds moved, offer the new ones for the whole slip
+      for (;;) {
+        const response = await fetch("/api/wagers", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            legs,
+            stakeCents: Math.round(amount * 100),
+            priceTolerance,
+          }),
+        });
+
+        const result = await response.json();
+
+        if (result.error?.code === "PRICE_CHANGED") {
+          const changes: PriceChange[] = result.error.details.lines;
+          const summary = changes
+            .map(
+              (change) =>
+                `${labels.get(change.lineId) ?? "A leg"}: now ${formatQuote(
+                  change.currentLine
+                )}`
+            )
+            .join("\n");
+          if (
+            !(await confirmToast(
+              `The odds moved on ${changes.length} leg${
+                changes.length !== 1 ? "s" : ""
+              }:\n${summary}\nPlace the parlay at the new odds?`,
+              { confirmLabel: "Place parlay" }
+            ))
+          ) {
+            return;
+          }
+
+          legs = legs.map((leg) => {
+            const change = changes.find((c) => c.lineId === leg.lineId);
+            const label = labels.get(leg.lineId);
+            if (change && label) labels.set(change.currentLine.id, label);
+            return change
+              ? {
+                  lineId: change.currentLine.id,
+                  expectedPrice: change.currentLine.price,
+                  expectedPoint: change.currentLine.point,
+                }
+              : leg;
+          });
+          continue;
+        }
+
+        if (!response.ok) {
+          throw new Error(result.error?.message || "Failed to place parlay");
+        }
+
+        toast.success(
+          `Parlay placed successfully! Legs: ${parlayLegs.length} • Amount: $${amount} • ID: ${result.wager.id.slice(
+            -8
+          )}`,
+          {
+            duration: 5000,
+          }
+        );
+
+        setParlayLegs([]);
+        fetchBettingStatus();
+        return;
+      }
+    } catch (error) {
+      console.error("Error placing parlay:", error);
+      toast.error(
+        `Failed to place parlay: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    } finally {
+      setPlacingParlay(false);
+    }
+  };
+
   const handleSyncOdds = async () => {
     try {
       setSyncing(true);
@@ -343,7 +683,16 @@ export default function Events() {
         },
         body: JSON.stringify({
           sport: selectedSport,
-          markets: "h2h,spreads,totals",
+          markets: buildMarketsString([
+            "MONEYLINE",
+            "SPREAD",
+            "TOTAL",
+            "ALT_SPREAD",
+            "ALT_TOTAL",
+            ...(selectedSport === POPULAR_SPORTS.NFL
+              ? (["PLAYER_PROPS"] as const)
+              : []),
+          ]),
           regions: "us",
           oddsFormat: "american",
         }),
@@ -359,12 +708,18 @@ export default function Events() {
 
       if (result.success) {
         toast.success(
-          `Sync completed! Events: ${result?.data?.eventsCreated} • Lines: ${result?.data?.linesCreated} • Games: ${result?.data?.totalGamesProcessed}`,
+          `Sync completed! Events: ${result?.data?.eventsCreated} • Lines: ${result?.data?.linesCreated} (${result?.data?.linesSkipped} unchanged) • Games: ${result?.data?.totalGamesProcessed}`,
           {
             duration: 6000,
           }
         );
 
+        if (result.data?.gamesFailed > 0) {
+          toast.error(
+            `${result.data.gamesFailed} game(s) failed to sync, see Odds Sync Runs on the admin page`
+          );
+        }
+
         // Refresh the events list to show new data
         await fetchEvents();
       } else {
@@ -434,6 +789,35 @@ export default function Events() {
       <div className="flex flex-col lg:flex-row gap-6 max-w-7xl mx-auto">
         {/* User Stats Column - Shows first on mobile (top), second on desktop (right) */}
         <div className="w-full lg:w-1/4 lg:min-w-[300px] lg:order-2">
+          {parlayLegs.length > 0 && (
+            <ParlaySlip
+              legs={parlayLegs}
+              onRemoveLeg={handleRemoveParlayLeg}
+              onClear={() => setParlayLegs([])}
+              onPlaceParlay={handlePlaceParlay}
+              isPlacing={placingParlay}
+            />
+          )}
+          <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
+            <label
+              htmlFor="price-tolerance"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              If the odds change before my bet is placed
+            </label>
+            <select
+              id="price-tolerance"
+              value={priceTolerance}
+              onChange={(e) =>
+                setPriceTolerance(e.target.value as PriceTolerance)
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="EXACT">Ask me first</option>
+              <option value="BETTER">Accept better odds only</option>
+              <option value="ANY">Accept any odds</option>
+            </select>
+          </div>
           <UserStats />
         </div>
 
@@ -452,6 +836,8 @@ export default function Events() {
                 <option value="americanfootball_nfl">NFL</option>
                 <option value="americanfootball_ncaaf">NCAAF</option>
                 <option value="baseball_mlb">MLB</option>
+                <option value="soccer_epl">EPL</option>
+                <option value="soccer_usa_mls">MLS</option>
               </select>
             </div>
 
@@ -690,9 +1076,10 @@ export default function Events() {
                         <GameCard
                           key={game.id}
                           game={game}
-                          users={users}
                           onPlaceWager={handlePlaceWager}
+                          onAddToParlay={handleAddToParlay}
                           isPlacingWager={isPlacingAnyWager}
+                          bettingStatus={bettingStatus}
                         />
                       );
                     })}
@@ -13,6 +13,7 @@ export default function Ledger() {
   const [error, setError] = useState<string | null>(null);
   const [selectedUserId, setSelectedUserId] = useState<string>("ALL");
   const [selectedType, setSelectedType] = useState<string>("ALL");
+  const [isAdmin, setIsAdmin] = useState(false);
 
   // Fetch all ledger entries from API
   const fetchLedgerEntries = async () => {
@@ -70,9 +71,23 @@ export default function Ledger() {
     }
   };
 
+  // Players only get their own entries, so only admins pick a user
+  const fetchSession = async () => {
+    try {
+      const response = await fetch("/api/auth/session");
+      if (response.ok) {
+        const data = await response.json();
+        setIsAdmin(data.user.role === "ADMIN");
+      }
+    } catch (err) {
+      console.error("Error fetching session:", err);
+    }
+  };
+
   // Fetch data on component mount and when filters change
   useEffect(() => {
     fetchUsers();
+    fetchSession();
   }, []);
 
   useEffect(() => {
@@ -92,6 +107,8 @@ export default function Ledger() {
       displayName: "All Users",
       email: "",
       balanceCents: 0,
+      lockedCents: 0,
+      futuresLockedCents: 0,
       createdAt: new Date().toISOString(),
       _count: { wagers: 0 },
       wagers: [],
@@ -115,16 +132,18 @@ export default function Ledger() {
           <h2 className="text-lg font-semibold text-gray-900 mb-4">Filters</h2>
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {/* User Filter */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                User
-              </label>
-              <UserSelector
-                users={usersWithAll}
-                selectedUserId={selectedUserId}
-                onUserSelect={handleUserSelect}
-              />
-            </div>
+            {isAdmin && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  User
+                </label>
+                <UserSelector
+                  users={usersWithAll}
+                  selectedUserId={selectedUserId}
+                  onUserSelect={handleUserSelect}
+                />
+              </div>
+            )}
 
             {/* Type Filter */}
             <div>
@@ -142,6 +161,11 @@ export default function Ledger() {
                 <option value="WAGER_REFUND">Wager Refund</option>
                 <option value="DEPOSIT">Deposit</option>
                 <option value="WITHDRAWAL">Withdrawal</option>
+                <option value="ADJUSTMENT">Adjustment</option>
+                <option value="SETTLEMENT_REVERSAL">Settlement Reversal</option>
+                <option value="ESCROW_STAKE">Peer Bet Escrow</option>
+                <option value="ESCROW_PAYOUT">Peer Bet Payout</option>
+                <option value="ESCROW_REFUND">Peer Bet Refund</option>
               </select>
             </div>
           </div>
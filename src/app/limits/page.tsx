@@ -0,0 +1,19 @@
+"use client";
+
+import BettingLimitsPanel from "@/components/BettingLimitsPanel";
+
+export default function LimitsPage() {
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Responsible Play</h1>
+      <p className="text-gray-600 mb-8">
+        Set your own betting limits or take a break. Group-wide limits always
+        apply; yours can only make them stricter.
+      </p>
+
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+        <BettingLimitsPanel />
+      </div>
+    </div>
+  );
+}
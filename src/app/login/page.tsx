@@ -0,0 +1,183 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+export default function Login() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSendingLink, setIsSendingLink] = useState(false);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(false);
+  const [nextPath, setNextPath] = useState("/games");
+
+  // Read ?next= and ?error= once on load
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const next = params.get("next");
+
+    // Only follow same-site paths
+    if (next && next.startsWith("/") && !next.startsWith("//")) {
+      setNextPath(next);
+    }
+
+    if (params.get("error") === "invalid_link") {
+      setMessage("That sign-in link is invalid or has expired");
+      setIsError(true);
+    }
+  }, []);
+
+  const showError = (data: {
+    error?: { message?: string; details?: Array<{ message: string }> };
+  }) => {
+    setMessage(
+      data.error?.details?.[0]?.message ||
+        data.error?.message ||
+        "Something went wrong"
+    );
+    setIsError(true);
+  };
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email, password }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        // Full navigation so every component picks up the new session
+        window.location.assign(nextPath);
+      } else {
+        showError(data);
+      }
+    } catch (error) {
+      console.error("Error signing in:", error);
+      setMessage("Network error: Failed to sign in");
+      setIsError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSendLink = async () => {
+    setIsSendingLink(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/auth/magic-link", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ email }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(data.message);
+        setIsError(false);
+      } else {
+        showError(data);
+      }
+    } catch (error) {
+      console.error("Error requesting sign-in link:", error);
+      setMessage("Network error: Failed to send sign-in link");
+      setIsError(true);
+    } finally {
+      setIsSendingLink(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-md mx-auto px-4">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-6">Sign in</h1>
+
+          <form onSubmit={handleLogin} className="space-y-4">
+            <div>
+              <label
+                htmlFor="email"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div>
+              <label
+                htmlFor="password"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Password
+              </label>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isLoading || !email || !password}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? "Signing in..." : "Sign in"}
+            </button>
+          </form>
+
+          <div className="my-4 text-center text-sm text-gray-500">or</div>
+
+          <button
+            onClick={handleSendLink}
+            disabled={isSendingLink || !email}
+            className="w-full border border-blue-600 text-blue-600 py-2 px-4 rounded-md hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isSendingLink ? "Sending..." : "Email me a sign-in link"}
+          </button>
+
+          {message && (
+            <div
+              className={`mt-4 p-3 rounded-md text-sm ${
+                isError
+                  ? "bg-red-50 text-red-700 border border-red-200"
+                  : "bg-green-50 text-green-700 border border-green-200"
+              }`}
+            >
+              {message}
+            </div>
+          )}
+
+          <p className="mt-6 text-sm text-gray-600 text-center">
+            Have an invite code?{" "}
+            <Link href="/signup" className="text-blue-600 hover:text-blue-800">
+              Create an account
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,490 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import toast from "react-hot-toast";
+import PeerBetCard from "@/components/PeerBetCard";
+import { PeerBet, PeerBetsApiResponse } from "@/types/peer-bet";
+import { confirmToast } from "@/lib/confirm-toast";
+import {
+  EVEN_MONEY_PRICE,
+  takerStakeFor,
+} from "../../../lib/peer-bets/rules";
+
+// Types for the events API response; only what the offer form needs
+interface EventLine {
+  id: string;
+  selectionKey: "HOME" | "AWAY" | "DRAW" | "OVER" | "UNDER"; // DRAW is dropped
+  point: string | null;
+  price: number;
+}
+
+interface EventMarket {
+  id: string;
+  type: "MONEYLINE" | "SPREAD" | "TOTAL"; // other markets are dropped
+  lines: EventLine[]; // best available line per selection
+}
+
+const PEER_BET_MARKET_TYPES: string[] = ["MONEYLINE", "SPREAD", "TOTAL"];
+
+interface ApiEvent {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  startsAt: string;
+  markets: EventMarket[];
+}
+
+export default function PeerBetsPage() {
+  const [events, setEvents] = useState<ApiEvent[]>([]);
+  const [openOffers, setOpenOffers] = useState<PeerBet[]>([]);
+  const [myBets, setMyBets] = useState<PeerBet[]>([]);
+  const [userId, setUserId] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [eventId, setEventId] = useState("");
+  const [marketId, setMarketId] = useState("");
+  const [lineId, setLineId] = useState("");
+  const [point, setPoint] = useState("");
+  const [price, setPrice] = useState(String(EVEN_MONEY_PRICE));
+  const [stake, setStake] = useState("");
+  const [isPosting, setIsPosting] = useState(false);
+
+  // Bumped after each change to reload offers and bets
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      try {
+        const [eventsResponse, sessionResponse] = await Promise.all([
+          fetch("/api/events?status=SCHEDULED"),
+          fetch("/api/auth/session"),
+        ]);
+
+        if (eventsResponse.ok) {
+          const data: { events: ApiEvent[] } = await eventsResponse.json();
+          // Specials, props, alternate lines and the draw can't be peer bet
+          setEvents(
+            data.events
+              .map((event) => ({
+                ...event,
+                markets: event.markets
+                  .filter((market) =>
+                    PEER_BET_MARKET_TYPES.includes(market.type)
+                  )
+                  .map((market) => ({
+                    ...market,
+                    lines: market.lines.filter(
+                      (line) => line.selectionKey !== "DRAW"
+                    ),
+                  })),
+              }))
+              .filter((event) => event.markets.length > 0)
+          );
+        } else {
+          console.error("Failed to fetch events");
+        }
+
+        if (sessionResponse.ok) {
+          const data = await sessionResponse.json();
+          setUserId(data.user?.id);
+        }
+      } catch (error) {
+        console.error("Error fetching events:", error);
+      }
+    };
+
+    fetchEvents();
+  }, []);
+
+  useEffect(() => {
+    const fetchPeerBets = async () => {
+      try {
+        const response = await fetch("/api/peer-bets");
+        const result: PeerBetsApiResponse = await response.json();
+
+        if (response.ok) {
+          setOpenOffers(result.openOffers);
+          setMyBets(result.myBets);
+        } else {
+          console.error("Failed to fetch peer bets:", result);
+        }
+      } catch (error) {
+        console.error("Error fetching peer bets:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchPeerBets();
+  }, [reloadKey]);
+
+  const selectedEvent = events.find((event) => event.id === eventId);
+  const selectedMarket = selectedEvent?.markets.find(
+    (market) => market.id === marketId
+  );
+  const selectedLine = selectedMarket?.lines.find((line) => line.id === lineId);
+
+  const stakeCents = Math.round((parseFloat(stake) || 0) * 100);
+  const priceValue = parseInt(price, 10);
+  const validPrice = Math.abs(priceValue) >= 100;
+  const takerStakeCents =
+    stakeCents > 0 && validPrice ? takerStakeFor(stakeCents, priceValue) : 0;
+
+  const formatCurrency = (cents: number): string => {
+    return `$${(cents / 100).toFixed(2)}`;
+  };
+
+  const describeLine = (market: EventMarket, line: EventLine): string => {
+    if (!selectedEvent) return line.selectionKey;
+    const team =
+      line.selectionKey === "HOME"
+        ? selectedEvent.homeTeam
+        : selectedEvent.awayTeam;
+
+    switch (market.type) {
+      case "MONEYLINE":
+        return team;
+      case "SPREAD":
+        return `${team} ${line.point ?? ""}`;
+      case "TOTAL":
+        return `${line.selectionKey} ${line.point ?? ""}`;
+    }
+  };
+
+  const getErrorMessage = (
+    result: { error?: { message?: string; details?: { message?: string }[] } },
+    fallback: string
+  ): string => {
+    return (
+      result.error?.details?.[0]?.message || result.error?.message || fallback
+    );
+  };
+
+  const handlePostOffer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMarket || !selectedLine) return;
+
+    setIsPosting(true);
+
+    try {
+      const response = await fetch("/api/peer-bets", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          lineId: selectedLine.id,
+          stakeCents,
+          price: priceValue,
+          // Leave the point off to use the line's own number
+          ...(selectedMarket.type !== "MONEYLINE" && point.trim()
+            ? { point: parseFloat(point) }
+            : {}),
+        }),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success(result.message);
+        setStake("");
+        setPoint("");
+        setReloadKey((key) => key + 1);
+      } else {
+        toast.error(getErrorMessage(result, "Failed to post offer"));
+      }
+    } catch (error) {
+      console.error("Error posting peer bet:", error);
+      toast.error("Network error: Failed to post offer");
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const updatePeerBet = async (
+    url: string,
+    method: "POST" | "DELETE",
+    peerBetId: string,
+    fallback: string
+  ) => {
+    setBusyId(peerBetId);
+
+    try {
+      const response = await fetch(url, { method });
+      const result = await response.json();
+
+      if (response.ok) {
+        toast.success(result.message);
+      } else {
+        toast.error(getErrorMessage(result, fallback));
+      }
+      setReloadKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error updating peer bet:", error);
+      toast.error(`Network error: ${fallback}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleAccept = async (peerBetId: string) => {
+    const offer = openOffers.find((peerBet) => peerBet.id === peerBetId);
+    if (
+      offer &&
+      !(await confirmToast(
+        `Take this bet? ${formatCurrency(
+          offer.takerStakeCents
+        )} will be held in escrow until it's settled.`,
+        { confirmLabel: "Take bet" }
+      ))
+    ) {
+      return;
+    }
+
+    updatePeerBet(
+      `/api/peer-bets/${peerBetId}/accept`,
+      "POST",
+      peerBetId,
+      "Failed to take bet"
+    );
+  };
+
+  const handleCancel = (peerBetId: string) => {
+    updatePeerBet(
+      `/api/peer-bets/${peerBetId}`,
+      "DELETE",
+      peerBetId,
+      "Failed to cancel offer"
+    );
+  };
+
+  const inputClasses =
+    "w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-teal-500";
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <h1 className="text-3xl font-bold text-gray-900 mb-2">Peer Bets</h1>
+      <p className="text-gray-600 mb-8">
+        Bet directly against other members. Both stakes are held in escrow and
+        the winner takes the pot when the game is graded.
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-md p-6 h-fit">
+          <div className="flex items-center mb-4">
+            <svg
+              className="w-5 h-5 text-teal-600 mr-2"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Post an offer
+            </h2>
+          </div>
+
+          <form onSubmit={handlePostOffer} className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Game
+              </label>
+              <select
+                value={eventId}
+                onChange={(e) => {
+                  setEventId(e.target.value);
+                  setMarketId("");
+                  setLineId("");
+                }}
+                className={inputClasses}
+                disabled={isPosting}
+              >
+                <option value="">Select a game</option>
+                {events.map((event) => (
+                  <option key={event.id} value={event.id}>
+                    {event.awayTeam} @ {event.homeTeam}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {selectedEvent && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Market
+                </label>
+                <select
+                  value={marketId}
+                  onChange={(e) => {
+                    setMarketId(e.target.value);
+                    setLineId("");
+                    setPoint("");
+                  }}
+                  className={inputClasses}
+                  disabled={isPosting}
+                >
+                  <option value="">Select a market</option>
+                  {selectedEvent.markets.map((market) => (
+                    <option key={market.id} value={market.id}>
+                      {market.type}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {selectedMarket && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Your side
+                </label>
+                <select
+                  value={lineId}
+                  onChange={(e) => setLineId(e.target.value)}
+                  className={inputClasses}
+                  disabled={isPosting}
+                >
+                  <option value="">Select a side</option>
+                  {selectedMarket.lines.map((line) => (
+                    <option key={line.id} value={line.id}>
+                      {describeLine(selectedMarket, line)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {selectedLine && (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  {selectedMarket?.type !== "MONEYLINE" && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Point
+                      </label>
+                      <input
+                        type="number"
+                        step="0.5"
+                        value={point}
+                        onChange={(e) => setPoint(e.target.value)}
+                        placeholder={selectedLine.point ?? ""}
+                        className={inputClasses}
+                        disabled={isPosting}
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Your odds
+                    </label>
+                    <input
+                      type="number"
+                      value={price}
+                      onChange={(e) => setPrice(e.target.value)}
+                      className={inputClasses}
+                      disabled={isPosting}
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Stake ($)
+                  </label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={stake}
+                    onChange={(e) => setStake(e.target.value)}
+                    className={inputClasses}
+                    disabled={isPosting}
+                  />
+                </div>
+
+                {takerStakeCents > 0 && (
+                  <p className="text-xs text-gray-500">
+                    The taker puts up {formatCurrency(takerStakeCents)}; the
+                    winner gets {formatCurrency(stakeCents + takerStakeCents)}.
+                  </p>
+                )}
+                {!validPrice && (
+                  <p className="text-xs text-red-600">
+                    Odds must be +100 or higher, or -100 or lower
+                  </p>
+                )}
+
+                <button
+                  type="submit"
+                  disabled={isPosting || stakeCents < 1 || !validPrice}
+                  className="w-full bg-teal-600 text-white py-2 px-4 rounded-md text-sm hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  {isPosting ? "Posting..." : "Post offer"}
+                </button>
+              </>
+            )}
+          </form>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              Open offers
+            </h2>
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+              </div>
+            ) : openOffers.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No open offers from other members right now.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {openOffers.map((peerBet) => (
+                  <PeerBetCard
+                    key={peerBet.id}
+                    peerBet={peerBet}
+                    currentUserId={userId}
+                    onAccept={handleAccept}
+                    busy={busyId === peerBet.id}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              My peer bets
+            </h2>
+            {!loading && myBets.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                You haven&apos;t offered or taken any peer bets yet.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {myBets.map((peerBet) => (
+                  <PeerBetCard
+                    key={peerBet.id}
+                    peerBet={peerBet}
+                    currentUserId={userId}
+                    onCancel={handleCancel}
+                    busy={busyId === peerBet.id}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
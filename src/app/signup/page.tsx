@@ -0,0 +1,166 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+export default function Signup() {
+  const [inviteCode, setInviteCode] = useState("");
+  const [email, setEmail] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [password, setPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(false);
+
+  // Invite links carry the code as ?code=
+  useEffect(() => {
+    const code = new URLSearchParams(window.location.search).get("code");
+    if (code) {
+      setInviteCode(code);
+    }
+  }, []);
+
+  const handleSignup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/auth/signup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          inviteCode: inviteCode.trim(),
+          email: email.trim(),
+          displayName: displayName.trim(),
+          // Leave blank to sign in with emailed links only
+          password: password || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        if (password) {
+          window.location.assign("/games");
+          return;
+        }
+        setMessage(data.message);
+        setIsError(false);
+      } else {
+        setMessage(
+          data.error?.details?.[0]?.message ||
+            data.error?.message ||
+            "Failed to create account"
+        );
+        setIsError(true);
+      }
+    } catch (error) {
+      console.error("Error signing up:", error);
+      setMessage("Network error: Failed to create account");
+      setIsError(true);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fields = [
+    {
+      id: "inviteCode",
+      label: "Invite code",
+      type: "text",
+      value: inviteCode,
+      onChange: setInviteCode,
+      required: true,
+    },
+    {
+      id: "email",
+      label: "Email",
+      type: "email",
+      value: email,
+      onChange: setEmail,
+      required: true,
+    },
+    {
+      id: "displayName",
+      label: "Display name",
+      type: "text",
+      value: displayName,
+      onChange: setDisplayName,
+      required: true,
+    },
+    {
+      id: "password",
+      label: "Password (optional)",
+      type: "password",
+      value: password,
+      onChange: setPassword,
+      required: false,
+    },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12">
+      <div className="max-w-md mx-auto px-4">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-6">
+            Join the group
+          </h1>
+
+          <form onSubmit={handleSignup} className="space-y-4">
+            {fields.map((field) => (
+              <div key={field.id}>
+                <label
+                  htmlFor={field.id}
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  {field.label}
+                </label>
+                <input
+                  id={field.id}
+                  type={field.type}
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  required={field.required}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            ))}
+            <p className="text-xs text-gray-500">
+              Without a password you sign in with a link sent to your email.
+            </p>
+
+            <button
+              type="submit"
+              disabled={isLoading || !inviteCode || !email || !displayName}
+              className="w-full bg-blue-600 text-white py-2 px-4 rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {isLoading ? "Creating account..." : "Create account"}
+            </button>
+          </form>
+
+          {message && (
+            <div
+              className={`mt-4 p-3 rounded-md text-sm ${
+                isError
+                  ? "bg-red-50 text-red-700 border border-red-200"
+                  : "bg-green-50 text-green-700 border border-green-200"
+              }`}
+            >
+              {message}
+            </div>
+          )}
+
+          <p className="mt-6 text-sm text-gray-600 text-center">
+            Already have an account?{" "}
+            <Link href="/login" className="text-blue-600 hover:text-blue-800">
+              Sign in
+            </Link>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  BettingLimits,
+  BettingStatus,
+  LIMIT_NAMES,
+  LimitName,
+} from "../../lib/limits/rules";
+import { confirmToast } from "@/lib/confirm-toast";
+
+interface LimitsApiResponse {
+  success: boolean;
+  status: BettingStatus;
+  userLimits: BettingLimits & { selfExcludedUntil: string | null };
+  groupLimits: BettingLimits;
+}
+
+interface BettingLimitsPanelProps {
+  // Set when an admin manages another user's limits; players manage their own
+  userId?: string;
+}
+
+const LIMIT_LABELS: Record<LimitName, string> = {
+  maxStakeCents: "Max stake per wager",
+  maxEventExposureCents: "Max pending per event",
+  dailyLossLimitCents: "Daily loss limit",
+  weeklyLossLimitCents: "Weekly loss limit",
+};
+
+const SELF_EXCLUSION_DAYS = [1, 7, 30, 90, 365];
+
+const emptyInputs = (): Record<LimitName, string> => ({
+  maxStakeCents: "",
+  maxEventExposureCents: "",
+  dailyLossLimitCents: "",
+  weeklyLossLimitCents: "",
+});
+
+export default function BettingLimitsPanel({
+  userId,
+}: BettingLimitsPanelProps) {
+  const [data, setData] = useState<LimitsApiResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [inputs, setInputs] = useState(emptyInputs);
+  const [excludeDays, setExcludeDays] = useState("7");
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(false);
+
+  const isAdmin = userId !== undefined;
+  const endpoint = isAdmin
+    ? `/api/admin/users/${userId}/limits`
+    : "/api/limits";
+
+  // Bumped after each save to load the new limits
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchLimits = async () => {
+      try {
+        const response = await fetch(endpoint);
+        const result: LimitsApiResponse = await response.json();
+
+        if (response.ok) {
+          setData(result);
+          const next = emptyInputs();
+          for (const name of LIMIT_NAMES) {
+            const cents = result.userLimits[name];
+            next[name] = cents !== null ? (cents / 100).toFixed(2) : "";
+          }
+          setInputs(next);
+        } else {
+          console.error("Failed to fetch betting limits:", result);
+        }
+      } catch (error) {
+        console.error("Error fetching betting limits:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLimits();
+  }, [endpoint, reloadKey]);
+
+  const saveLimits = async (body: Record<string, unknown>) => {
+    setIsSaving(true);
+    setMessage("");
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      const result = await response.json();
+
+      if (response.ok) {
+        setMessage(result.message);
+        setIsError(false);
+        setReloadKey((key) => key + 1);
+      } else {
+        setMessage(
+          result.error?.details?.[0]?.message ||
+            result.error?.message ||
+            "Failed to update limits"
+        );
+        setIsError(true);
+      }
+    } catch (error) {
+      console.error("Error updating betting limits:", error);
+      setMessage("Network error: Failed to update limits");
+      setIsError(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveLimits = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!data) return;
+
+    // Only send what changed; admins can clear a limit, players can't
+    const body: Record<string, number | null> = {};
+    for (const name of LIMIT_NAMES) {
+      const value = inputs[name].trim();
+      const cents = value ? Math.round(parseFloat(value) * 100) : null;
+      if (cents === data.userLimits[name]) continue;
+      if (cents === null && !isAdmin) continue;
+      body[name] = cents;
+    }
+
+    saveLimits(body);
+  };
+
+  const handleSelfExclude = async () => {
+    const days = parseInt(excludeDays, 10);
+    if (
+      !(await confirmToast(
+        `Block all betting for ${days} day${
+          days !== 1 ? "s" : ""
+        }? This can't be undone early without an admin.`,
+        { confirmLabel: "Block betting" }
+      ))
+    ) {
+      return;
+    }
+
+    saveLimits({ selfExcludeDays: days });
+  };
+
+  const formatCents = (cents: number | null) =>
+    cents !== null ? `$${(cents / 100).toFixed(2)}` : "None";
+
+  const getUsage = (name: LimitName, status: BettingStatus): string => {
+    switch (name) {
+      case "maxEventExposureCents": {
+        const exposures = Object.values(status.exposureByEvent);
+        return exposures.length > 0
+          ? `${formatCents(Math.max(...exposures))} on busiest event`
+          : "—";
+      }
+      case "dailyLossLimitCents":
+        return `${formatCents(status.lossTodayCents)} lost today`;
+      case "weeklyLossLimitCents":
+        return `${formatCents(status.lossThisWeekCents)} lost this week`;
+      default:
+        return "—";
+    }
+  };
+
+  const excludedUntil =
+    data?.status.selfExcludedUntil &&
+    new Date(data.status.selfExcludedUntil) > new Date()
+      ? new Date(data.status.selfExcludedUntil)
+      : null;
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <p className="text-sm text-red-600 py-2">Failed to load betting limits</p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSaveLimits}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "Limit",
+                  "Group",
+                  isAdmin ? "User ($)" : "Yours ($)",
+                  "Used",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {LIMIT_NAMES.map((name) => (
+                <tr key={name}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                    {LIMIT_LABELS[name]}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                    {formatCents(data.groupLimits[name])}
+                  </td>
+                  <td className="px-3 py-2">
+                    <input
+                      type="number"
+                      value={inputs[name]}
+                      onChange={(e) =>
+                        setInputs({ ...inputs, [name]: e.target.value })
+                      }
+                      placeholder="None"
+                      min="0.01"
+                      step="0.01"
+                      className="w-28 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      disabled={isSaving}
+                    />
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                    {getUsage(name, data.status)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center justify-between mt-3 gap-3">
+          <p className="text-xs text-gray-500">
+            {isAdmin
+              ? "Clear a field to remove that limit."
+              : "You can lower your limits at any time; raising one takes an admin."}
+          </p>
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="bg-indigo-600 text-white py-1.5 px-3 rounded-md text-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+          >
+            {isSaving ? "Saving..." : "Save limits"}
+          </button>
+        </div>
+      </form>
+
+      <div className="border-t border-gray-200 pt-4">
+        <h3 className="text-sm font-medium text-gray-900 mb-2">
+          Self-exclusion
+        </h3>
+        {excludedUntil && (
+          <p className="text-sm text-red-700 mb-2">
+            Betting is blocked until {excludedUntil.toLocaleString()}
+          </p>
+        )}
+        {isAdmin ? (
+          excludedUntil && (
+            <button
+              onClick={() => saveLimits({ selfExcludedUntil: null })}
+              disabled={isSaving}
+              className="text-red-600 hover:text-red-800 text-sm font-medium disabled:text-gray-400"
+            >
+              End self-exclusion
+            </button>
+          )
+        ) : (
+          <div className="flex gap-2">
+            <select
+              value={excludeDays}
+              onChange={(e) => setExcludeDays(e.target.value)}
+              className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              disabled={isSaving}
+            >
+              {SELF_EXCLUSION_DAYS.map((days) => (
+                <option key={days} value={days}>
+                  {days} day{days !== 1 ? "s" : ""}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={handleSelfExclude}
+              disabled={isSaving}
+              className="bg-red-600 text-white py-1.5 px-3 rounded-md text-sm hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+            >
+              Take a break
+            </button>
+          </div>
+        )}
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-md text-sm ${
+            isError
+              ? "bg-red-50 text-red-700 border border-red-200"
+              : "bg-green-50 text-green-700 border border-green-200"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
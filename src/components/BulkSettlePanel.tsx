@@ -0,0 +1,498 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+type SettlementResult = "WON" | "LOST" | "PUSH" | "VOID";
+
+interface SettleMarket {
+  id: string;
+  type: string;
+  name: string | null; // PLAYER_PROP markets only
+  selections: string[];
+  points: Record<string, number[]>; // per selection, on point markets
+  participants: string[]; // PLAYER_PROP markets only
+}
+
+interface SettleEvent {
+  id: string;
+  league: string;
+  homeTeam: string;
+  awayTeam: string;
+  title: string | null;
+  startsAt: string;
+  status: string;
+  markets: SettleMarket[];
+}
+
+interface BulkSettlementItem {
+  wagerId: string;
+  legId: string | null;
+  userId: string;
+  displayName: string;
+  selection: string;
+  stakeCents: number;
+  payoutCents: number | null;
+  wagerResult: SettlementResult | null;
+}
+
+interface BulkSettlement {
+  result: SettlementResult;
+  items: BulkSettlementItem[];
+  totalStakeCents: number;
+  totalPayoutCents: number;
+}
+
+interface SettleEventsApiResponse {
+  success: boolean;
+  events: SettleEvent[];
+}
+
+export default function BulkSettlePanel() {
+  const [events, setEvents] = useState<SettleEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [eventId, setEventId] = useState("");
+  const [marketId, setMarketId] = useState("");
+  const [selectionKey, setSelectionKey] = useState("");
+  const [point, setPoint] = useState("");
+  const [result, setResult] = useState<SettlementResult>("WON");
+  const [preview, setPreview] = useState<BulkSettlement | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isSettling, setIsSettling] = useState(false);
+  const [participant, setParticipant] = useState("");
+  const [statValue, setStatValue] = useState("");
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(false);
+
+  const fetchEvents = async () => {
+    try {
+      const response = await fetch("/api/admin/settle");
+      const data: SettleEventsApiResponse = await response.json();
+
+      if (response.ok) {
+        setEvents(data.events);
+      } else {
+        console.error("Failed to fetch events to settle:", data);
+      }
+    } catch (error) {
+      console.error("Error fetching events to settle:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  // Any change to the target invalidates the preview
+  useEffect(() => {
+    setPreview(null);
+  }, [eventId, marketId, selectionKey, point, result]);
+
+  const selectedEvent = events.find((event) => event.id === eventId);
+  const selectedMarket = selectedEvent?.markets.find(
+    (market) => market.id === marketId
+  );
+  const selectionPoints = selectedMarket?.points[selectionKey] ?? [];
+
+  const requestBody = (extra: Record<string, unknown>) =>
+    JSON.stringify({
+      eventId,
+      marketId: marketId || undefined,
+      selectionKey: selectionKey || undefined,
+      point: point !== "" ? parseFloat(point) : undefined,
+      result,
+      ...extra,
+    });
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPreviewing(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/admin/settle", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: requestBody({ preview: true }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setPreview(data.settlement);
+      } else {
+        setMessage(
+          data.error?.details?.[0]?.message ||
+            data.error?.message ||
+            "Failed to preview settlement"
+        );
+        setIsError(true);
+      }
+    } catch (error) {
+      console.error("Error previewing settlement:", error);
+      setMessage("Network error: Failed to preview settlement");
+      setIsError(true);
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!preview) return;
+
+    setIsSettling(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/admin/settle", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: requestBody({ expectedCount: preview.items.length }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(data.message);
+        setIsError(false);
+        setPreview(null);
+        setEventId("");
+        setMarketId("");
+        setSelectionKey("");
+        setPoint("");
+        fetchEvents();
+      } else {
+        setMessage(data.error?.message || "Failed to settle wagers");
+        setIsError(true);
+        if (data.error?.code === "BULK_SETTLEMENT_CHANGED") {
+          setPreview(null);
+        }
+      }
+    } catch (error) {
+      console.error("Error settling wagers:", error);
+      setMessage("Network error: Failed to settle wagers");
+      setIsError(true);
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  // Player props are graded from the player's stat rather than one result
+  const handleSettlePlayer = async (isVoid: boolean) => {
+    setIsSettling(true);
+    setMessage("");
+
+    try {
+      const response = await fetch(
+        `/api/admin/markets/${marketId}/settle-player`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(
+            isVoid
+              ? { participant, void: true }
+              : { participant, value: parseFloat(statValue) }
+          ),
+        }
+      );
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(data.message);
+        setIsError(false);
+        setParticipant("");
+        setStatValue("");
+        fetchEvents();
+      } else {
+        setMessage(
+          data.error?.details?.[0]?.message ||
+            data.error?.message ||
+            "Failed to settle player"
+        );
+        setIsError(true);
+      }
+    } catch (error) {
+      console.error("Error settling player prop:", error);
+      setMessage("Network error: Failed to settle player");
+      setIsError(true);
+    } finally {
+      setIsSettling(false);
+    }
+  };
+
+  const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center mb-4">
+        <div className="w-8 h-8 bg-rose-100 rounded-lg flex items-center justify-center mr-3">
+          <svg
+            className="w-5 h-5 text-rose-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+            />
+          </svg>
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">Bulk Settlement</h2>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-rose-600"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No events have pending wagers
+        </p>
+      ) : (
+        <form
+          onSubmit={handlePreview}
+          className="flex flex-col md:flex-row gap-3 mb-4"
+        >
+          <select
+            value={eventId}
+            onChange={(e) => {
+              setEventId(e.target.value);
+              setMarketId("");
+              setSelectionKey("");
+              setPoint("");
+              setParticipant("");
+            }}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            disabled={isPreviewing || isSettling}
+            required
+          >
+            <option value="">Select an event</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.league}:{" "}
+                {event.title ?? `${event.awayTeam} @ ${event.homeTeam}`} (
+                {new Date(event.startsAt).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+          <select
+            value={marketId}
+            onChange={(e) => {
+              setMarketId(e.target.value);
+              setSelectionKey("");
+              setPoint("");
+              setParticipant("");
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            disabled={!selectedEvent || isPreviewing || isSettling}
+          >
+            <option value="">All markets</option>
+            {selectedEvent?.markets.map((market) => (
+              <option key={market.id} value={market.id}>
+                {market.name ?? market.type}
+              </option>
+            ))}
+          </select>
+          <select
+            value={selectionKey}
+            onChange={(e) => {
+              setSelectionKey(e.target.value);
+              setPoint("");
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            disabled={!selectedMarket || isPreviewing || isSettling}
+          >
+            <option value="">All selections</option>
+            {selectedMarket?.selections.map((selection) => (
+              <option key={selection} value={selection}>
+                {selection}
+              </option>
+            ))}
+          </select>
+          {selectionPoints.length > 0 && (
+            <select
+              value={point}
+              onChange={(e) => setPoint(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+              disabled={isPreviewing || isSettling}
+            >
+              <option value="">All numbers</option>
+              {selectionPoints.map((value) => (
+                <option key={value} value={value}>
+                  {value}
+                </option>
+              ))}
+            </select>
+          )}
+          <select
+            value={result}
+            onChange={(e) => setResult(e.target.value as SettlementResult)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            disabled={isPreviewing || isSettling}
+          >
+            <option value="WON">Won</option>
+            <option value="LOST">Lost</option>
+            <option value="PUSH">Push</option>
+            <option value="VOID">Void</option>
+          </select>
+          <button
+            type="submit"
+            disabled={
+              !eventId ||
+              selectedMarket?.type === "PLAYER_PROP" ||
+              isPreviewing ||
+              isSettling
+            }
+            className="bg-rose-600 text-white py-2 px-4 rounded-md hover:bg-rose-700 focus:outline-none focus:ring-2 focus:ring-rose-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+          >
+            {isPreviewing ? "Loading..." : "Preview"}
+          </button>
+        </form>
+      )}
+
+      {selectedMarket && selectedMarket.participants.length > 0 && (
+        <div className="flex flex-col md:flex-row gap-3 mb-4 p-3 bg-rose-50 rounded-md">
+          <select
+            value={participant}
+            onChange={(e) => setParticipant(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            disabled={isSettling}
+          >
+            <option value="">Grade a player from their stat</option>
+            {selectedMarket.participants.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            step="0.5"
+            min="0"
+            value={statValue}
+            onChange={(e) => setStatValue(e.target.value)}
+            placeholder={selectedMarket.name ?? "Stat"}
+            className="md:w-40 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-rose-500"
+            disabled={!participant || isSettling}
+          />
+          <button
+            type="button"
+            onClick={() => handleSettlePlayer(false)}
+            disabled={!participant || statValue === "" || isSettling}
+            className="bg-rose-600 text-white py-2 px-4 rounded-md hover:bg-rose-700 focus:outline-none focus:ring-2 focus:ring-rose-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+          >
+            Grade player
+          </button>
+          <button
+            type="button"
+            onClick={() => handleSettlePlayer(true)}
+            disabled={!participant || isSettling}
+            className="text-gray-600 hover:text-gray-800 text-sm font-medium whitespace-nowrap"
+          >
+            Void player
+          </button>
+        </div>
+      )}
+
+      {preview &&
+        (preview.items.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">
+            Nothing pending matches this selection
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {["User", "Selection", "Stake", "Payout"].map((heading) => (
+                      <th
+                        key={heading}
+                        className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                      >
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {preview.items.map((item) => (
+                    <tr key={item.legId ?? item.wagerId}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                        {item.displayName}
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">
+                        {item.selection}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                        {formatCents(item.stakeCents)}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                        {item.payoutCents !== null
+                          ? formatCents(item.payoutCents)
+                          : item.wagerResult === null
+                          ? "Parlay stays open"
+                          : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50 font-medium">
+                  <tr>
+                    <td className="px-3 py-2 text-gray-900" colSpan={2}>
+                      {preview.items.length} to settle as {preview.result}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                      {formatCents(preview.totalStakeCents)}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                      {formatCents(preview.totalPayoutCents)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                onClick={() => setPreview(null)}
+                disabled={isSettling}
+                className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isSettling}
+                className="bg-rose-600 text-white py-2 px-4 rounded-md hover:bg-rose-700 focus:outline-none focus:ring-2 focus:ring-rose-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+              >
+                {isSettling ? "Settling..." : "Confirm settlement"}
+              </button>
+            </div>
+          </>
+        ))}
+
+      {message && (
+        <div
+          className={`mt-4 p-3 rounded-md text-sm ${
+            isError
+              ? "bg-red-50 text-red-700 border border-red-200"
+              : "bg-green-50 text-green-700 border border-green-200"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
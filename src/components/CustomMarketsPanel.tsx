@@ -0,0 +1,572 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { confirmToast } from "@/lib/confirm-toast";
+
+interface CustomSelection {
+  label: string;
+  price: number;
+  lineId: string;
+  pendingWagers: number;
+}
+
+interface CustomMarket {
+  id: string;
+  type: "CUSTOM" | "OUTRIGHT"; // futures are priced by the odds feed
+  name: string;
+  settledAt: string | null;
+  event: {
+    id: string;
+    homeTeam: string;
+    awayTeam: string;
+    title: string | null;
+    startsAt: string;
+    status: string;
+    league: string;
+  };
+  selections: CustomSelection[];
+}
+
+interface League {
+  id: string;
+  name: string;
+}
+
+interface CustomMarketsApiResponse {
+  success: boolean;
+  markets: CustomMarket[];
+  leagues: League[];
+}
+
+interface ScheduledEvent {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+  title: string | null;
+  startsAt: string;
+}
+
+interface SelectionInput {
+  label: string;
+  price: string;
+}
+
+const emptySelections = (): SelectionInput[] => [
+  { label: "", price: "" },
+  { label: "", price: "" },
+];
+
+const describeEvent = (event: {
+  homeTeam: string;
+  awayTeam: string;
+  title: string | null;
+}) => event.title ?? `${event.awayTeam} @ ${event.homeTeam}`;
+
+const formatOdds = (odds: number): string =>
+  odds > 0 ? `+${odds}` : odds.toString();
+
+export default function CustomMarketsPanel() {
+  const [markets, setMarkets] = useState<CustomMarket[]>([]);
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [events, setEvents] = useState<ScheduledEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // New market form
+  const [standalone, setStandalone] = useState(false);
+  const [eventId, setEventId] = useState("");
+  const [leagueId, setLeagueId] = useState("");
+  const [title, setTitle] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+  const [name, setName] = useState("");
+  const [selections, setSelections] = useState(emptySelections);
+  const [isCreating, setIsCreating] = useState(false);
+
+  // Edited prices and picked winners, keyed by market id then label
+  const [prices, setPrices] = useState<Record<string, Record<string, string>>>(
+    {}
+  );
+  const [winners, setWinners] = useState<Record<string, string[]>>({});
+
+  // Bumped after each change to reload the markets
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    const fetchMarkets = async () => {
+      try {
+        const [marketsResponse, eventsResponse] = await Promise.all([
+          fetch("/api/admin/markets"),
+          fetch("/api/events?status=SCHEDULED"),
+        ]);
+        const data: CustomMarketsApiResponse = await marketsResponse.json();
+
+        if (marketsResponse.ok) {
+          setMarkets(data.markets);
+          setLeagues(data.leagues);
+          setPrices({});
+          setWinners({});
+        } else {
+          console.error("Failed to fetch custom markets:", data);
+        }
+
+        if (eventsResponse.ok) {
+          const eventsData = await eventsResponse.json();
+          setEvents(eventsData.events);
+        }
+      } catch (error) {
+        console.error("Error fetching custom markets:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchMarkets();
+  }, [reloadKey]);
+
+  const showResult = (
+    ok: boolean,
+    data: {
+      message?: string;
+      error?: { message?: string; details?: { message?: string }[] };
+    },
+    fallback: string
+  ) => {
+    setMessage(
+      ok
+        ? data.message ?? ""
+        : data.error?.details?.[0]?.message || data.error?.message || fallback
+    );
+    setIsError(!ok);
+  };
+
+  const sendRequest = async (
+    url: string,
+    method: "POST" | "PUT",
+    body: unknown,
+    fallback: string
+  ): Promise<boolean> => {
+    setMessage("");
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body),
+      });
+
+      const data = await response.json();
+      showResult(response.ok, data, fallback);
+
+      if (response.ok) {
+        setReloadKey((key) => key + 1);
+      }
+      return response.ok;
+    } catch (error) {
+      console.error("Error updating custom market:", error);
+      setMessage(`Network error: ${fallback}`);
+      setIsError(true);
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    const created = await sendRequest(
+      "/api/admin/markets",
+      "POST",
+      {
+        ...(standalone
+          ? {
+              event: {
+                leagueId,
+                title,
+                startsAt: closesAt ? new Date(closesAt).toISOString() : "",
+              },
+            }
+          : { eventId }),
+        name,
+        selections: selections.map((selection) => ({
+          label: selection.label,
+          price: parseInt(selection.price, 10),
+        })),
+      },
+      "Failed to create market"
+    );
+
+    if (created) {
+      setName("");
+      setTitle("");
+      setSelections(emptySelections());
+    }
+    setIsCreating(false);
+  };
+
+  const handleReprice = async (market: CustomMarket) => {
+    const edited = Object.entries(prices[market.id] ?? {})
+      .filter(([, price]) => price.trim() !== "")
+      .map(([label, price]) => ({ label, price: parseInt(price, 10) }));
+    if (edited.length === 0) return;
+
+    setBusyId(market.id);
+    await sendRequest(
+      `/api/admin/markets/${market.id}`,
+      "PUT",
+      { selections: edited },
+      "Failed to update prices"
+    );
+    setBusyId(null);
+  };
+
+  const handleSettle = async (market: CustomMarket, isVoid: boolean) => {
+    const picked = winners[market.id] ?? [];
+    if (
+      !(await confirmToast(
+        isVoid
+          ? `Void "${market.name}" and refund every wager on it?`
+          : `Settle "${market.name}" with ${picked.join(
+              ", "
+            )} winning? Every other selection loses.`,
+        { confirmLabel: isVoid ? "Void" : "Settle" }
+      ))
+    ) {
+      return;
+    }
+
+    setBusyId(market.id);
+    await sendRequest(
+      `/api/admin/markets/${market.id}/settle`,
+      "POST",
+      isVoid ? { void: true } : { winners: picked },
+      "Failed to settle market"
+    );
+    setBusyId(null);
+  };
+
+  const toggleWinner = (marketId: string, label: string) => {
+    const picked = winners[marketId] ?? [];
+    setWinners({
+      ...winners,
+      [marketId]: picked.includes(label)
+        ? picked.filter((winner) => winner !== label)
+        : [...picked, label],
+    });
+  };
+
+  const updateSelection = (
+    index: number,
+    field: keyof SelectionInput,
+    value: string
+  ) => {
+    setSelections(
+      selections.map((selection, i) =>
+        i === index ? { ...selection, [field]: value } : selection
+      )
+    );
+  };
+
+  const inputClasses =
+    "px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-violet-500";
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center mb-4">
+        <div className="w-8 h-8 bg-violet-100 rounded-lg flex items-center justify-center mr-3">
+          <svg
+            className="w-5 h-5 text-violet-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z"
+            />
+          </svg>
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">
+          Custom Markets & Futures
+        </h2>
+      </div>
+
+      <form onSubmit={handleCreate} className="space-y-3 mb-6">
+        <div className="flex gap-4 text-sm">
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              checked={!standalone}
+              onChange={() => setStandalone(false)}
+            />
+            On a game
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="radio"
+              checked={standalone}
+              onChange={() => setStandalone(true)}
+            />
+            Standalone event
+          </label>
+        </div>
+
+        {standalone ? (
+          <div className="flex flex-col md:flex-row gap-3">
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Event, e.g. Halftime show"
+              className={`flex-1 ${inputClasses}`}
+              disabled={isCreating}
+              required
+            />
+            <select
+              value={leagueId}
+              onChange={(e) => setLeagueId(e.target.value)}
+              className={inputClasses}
+              disabled={isCreating}
+              required
+            >
+              <option value="">League</option>
+              {leagues.map((league) => (
+                <option key={league.id} value={league.id}>
+                  {league.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="datetime-local"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+              className={inputClasses}
+              disabled={isCreating}
+              title="Betting closes 5 minutes before this"
+              required
+            />
+          </div>
+        ) : (
+          <select
+            value={eventId}
+            onChange={(e) => setEventId(e.target.value)}
+            className={`w-full ${inputClasses}`}
+            disabled={isCreating}
+            required
+          >
+            <option value="">Select a game</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {describeEvent(event)} (
+                {new Date(event.startsAt).toLocaleDateString()})
+              </option>
+            ))}
+          </select>
+        )}
+
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Market, e.g. First TD scorer"
+          className={`w-full ${inputClasses}`}
+          disabled={isCreating}
+          required
+        />
+
+        {selections.map((selection, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={selection.label}
+              onChange={(e) => updateSelection(index, "label", e.target.value)}
+              placeholder={`Selection ${index + 1}`}
+              className={`flex-1 ${inputClasses}`}
+              disabled={isCreating}
+              required
+            />
+            <input
+              type="number"
+              value={selection.price}
+              onChange={(e) => updateSelection(index, "price", e.target.value)}
+              placeholder="+150"
+              className={`w-28 ${inputClasses}`}
+              disabled={isCreating}
+              required
+            />
+            {selections.length > 2 && (
+              <button
+                type="button"
+                onClick={() =>
+                  setSelections(selections.filter((_, i) => i !== index))
+                }
+                className="text-gray-400 hover:text-red-600 px-2"
+                title="Remove selection"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+
+        <div className="flex justify-between">
+          <button
+            type="button"
+            onClick={() =>
+              setSelections([...selections, { label: "", price: "" }])
+            }
+            className="text-violet-600 hover:text-violet-800 text-sm font-medium"
+          >
+            + Add selection
+          </button>
+          <button
+            type="submit"
+            disabled={isCreating}
+            className="bg-violet-600 text-white py-2 px-4 rounded-md text-sm hover:bg-violet-700 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+          >
+            {isCreating ? "Creating..." : "Create market"}
+          </button>
+        </div>
+      </form>
+
+      {message && (
+        <div
+          className={`p-3 rounded-md text-sm mb-4 ${
+            isError
+              ? "bg-red-50 text-red-700 border border-red-200"
+              : "bg-green-50 text-green-700 border border-green-200"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-violet-600"></div>
+        </div>
+      ) : markets.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No custom markets or futures yet
+        </p>
+      ) : (
+        <div className="space-y-4">
+          {markets.map((market) => {
+            const isBusy = busyId === market.id;
+            const picked = winners[market.id] ?? [];
+
+            return (
+              <div
+                key={market.id}
+                className="border border-gray-200 rounded-lg p-4"
+              >
+                <div className="flex justify-between items-start gap-3 mb-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{market.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {market.event.league}: {describeEvent(market.event)} ·{" "}
+                      {new Date(market.event.startsAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {market.settledAt ? (
+                    <span className="px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-600 whitespace-nowrap">
+                      Settled {new Date(market.settledAt).toLocaleDateString()}
+                    </span>
+                  ) : (
+                    market.type === "OUTRIGHT" && (
+                      <span className="px-2 py-1 text-xs font-medium rounded-full bg-violet-100 text-violet-700 whitespace-nowrap">
+                        Future
+                      </span>
+                    )
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  {market.selections.map((selection) => (
+                    <div
+                      key={selection.label}
+                      className="flex items-center gap-3 text-sm"
+                    >
+                      {!market.settledAt && (
+                        <input
+                          type="checkbox"
+                          checked={picked.includes(selection.label)}
+                          onChange={() =>
+                            toggleWinner(market.id, selection.label)
+                          }
+                          disabled={isBusy}
+                          title="Winner"
+                        />
+                      )}
+                      <span className="flex-1 text-gray-900">
+                        {selection.label}
+                      </span>
+                      <span className="text-xs text-gray-500">
+                        {selection.pendingWagers} pending
+                      </span>
+                      {market.settledAt || market.type === "OUTRIGHT" ? (
+                        <span className="w-24 text-right text-gray-600">
+                          {formatOdds(selection.price)}
+                        </span>
+                      ) : (
+                        <input
+                          type="number"
+                          value={prices[market.id]?.[selection.label] ?? ""}
+                          onChange={(e) =>
+                            setPrices({
+                              ...prices,
+                              [market.id]: {
+                                ...prices[market.id],
+                                [selection.label]: e.target.value,
+                              },
+                            })
+                          }
+                          placeholder={formatOdds(selection.price)}
+                          className={`w-24 ${inputClasses}`}
+                          disabled={isBusy}
+                        />
+                      )}
+                    </div>
+                  ))}
+                </div>
+
+                {!market.settledAt && (
+                  <div className="flex flex-wrap justify-end gap-2 mt-3">
+                    {market.type === "CUSTOM" && (
+                      <button
+                        onClick={() => handleReprice(market)}
+                        disabled={isBusy}
+                        className="px-3 py-1.5 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:text-gray-400"
+                      >
+                        Update prices
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleSettle(market, true)}
+                      disabled={isBusy}
+                      className="px-3 py-1.5 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-100 disabled:text-gray-400"
+                    >
+                      Void
+                    </button>
+                    <button
+                      onClick={() => handleSettle(market, false)}
+                      disabled={isBusy || picked.length === 0}
+                      className="px-3 py-1.5 text-sm rounded-md bg-violet-600 text-white hover:bg-violet-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                      {isBusy ? "Working..." : "Settle winners"}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
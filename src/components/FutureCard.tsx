@@ -0,0 +1,220 @@
+"use client";
+
+import { useState } from "react";
+import { BookQuote } from "@/components/GameCard";
+import { formatSource } from "../../lib/odds/best-price";
+import { BettingStatus, checkWagerLimits } from "../../lib/limits/rules";
+
+// A futures market, e.g. "NFL Super Bowl Winner", with its selections best
+// price first
+export interface Future {
+  id: string; // market id
+  eventId: string;
+  title: string;
+  name: string;
+  settlesAt: string; // betting closes shortly before
+  selections: {
+    label: string;
+    price: number; // the best book's price
+    books: BookQuote[]; // every book's quote, best first
+  }[];
+}
+
+// Long lists start collapsed to the favourites
+const COLLAPSED_SELECTIONS = 9;
+
+interface FutureCardProps {
+  future: Future;
+  onPlaceWager: (
+    future: Future,
+    label: string,
+    lineId: string,
+    amount: number
+  ) => void;
+  isPlacingWager?: boolean;
+  // The bettor's limits, to warn before submitting a wager that breaks one
+  bettingStatus?: BettingStatus | null;
+}
+
+export default function FutureCard({
+  future,
+  onPlaceWager,
+  isPlacingWager = false,
+  bettingStatus = null,
+}: FutureCardProps) {
+  const [wagerAmount, setWagerAmount] = useState<string>("");
+  const [selectedLabel, setSelectedLabel] = useState<string>("");
+  const [selectedLineId, setSelectedLineId] = useState<string>("");
+  const [showAll, setShowAll] = useState(false);
+
+  const formatOdds = (odds: number): string => {
+    return odds > 0 ? `+${odds}` : odds.toString();
+  };
+
+  const selectLabel = (label: string) => {
+    setSelectedLabel(label);
+    setSelectedLineId("");
+  };
+
+  const listedSelections = showAll
+    ? future.selections
+    : future.selections.slice(0, COLLAPSED_SELECTIONS);
+  const selected = future.selections.find(
+    (selection) => selection.label === selectedLabel
+  );
+  const selectedBooks = selected?.books ?? [];
+  // The bettor's chosen book, defaulting to the best price
+  const selectedQuote =
+    selectedBooks.find((quote) => quote.lineId === selectedLineId) ??
+    selectedBooks[0];
+
+  const stakeCents = Math.round((parseFloat(wagerAmount) || 0) * 100);
+  const limitViolation =
+    bettingStatus && stakeCents > 0
+      ? checkWagerLimits(bettingStatus, {
+          stakeCents,
+          eventIds: [future.eventId],
+        })
+      : null;
+
+  const handlePlaceWager = () => {
+    const amount = parseFloat(wagerAmount);
+    if (selectedQuote && amount > 0) {
+      onPlaceWager(future, selectedLabel, selectedQuote.lineId, amount);
+      setWagerAmount("");
+      selectLabel("");
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-4">
+      {/* Header */}
+      <div className="mb-4">
+        <div className="text-lg font-semibold text-gray-900">
+          {future.title}
+        </div>
+        <div className="text-sm text-gray-500">
+          {future.name} · settles{" "}
+          {new Date(future.settlesAt).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+            year: "numeric",
+          })}
+        </div>
+      </div>
+
+      {/* Selections */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-2">
+        {listedSelections.map((selection) => (
+          <button
+            key={selection.label}
+            onClick={() => selectLabel(selection.label)}
+            className={`p-3 rounded-md border text-sm font-medium transition-colors ${
+              selectedLabel === selection.label
+                ? "bg-blue-100 border-blue-500 text-blue-700"
+                : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
+            }`}
+          >
+            <div>{selection.label}</div>
+            <div className="text-xs text-gray-500">
+              {formatOdds(selection.price)}
+            </div>
+          </button>
+        ))}
+      </div>
+      {future.selections.length > COLLAPSED_SELECTIONS && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-sm text-blue-600 hover:text-blue-800 mb-4"
+        >
+          {showAll
+            ? "Show favourites only"
+            : `Show all ${future.selections.length} selections`}
+        </button>
+      )}
+
+      {/* Book Selection */}
+      {selectedBooks.length > 1 && (
+        <div className="mb-4 mt-2">
+          <div className="text-xs font-medium text-gray-500 mb-1">
+            Choose a book
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {selectedBooks.map((quote, index) => (
+              <button
+                key={quote.lineId}
+                onClick={() => setSelectedLineId(quote.lineId)}
+                className={`px-3 py-1.5 rounded-md border text-xs font-medium transition-colors ${
+                  selectedQuote?.lineId === quote.lineId
+                    ? "bg-blue-100 border-blue-500 text-blue-700"
+                    : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                <span>{formatSource(quote.source)}</span>
+                <span className="ml-1 text-gray-500">
+                  {formatOdds(quote.price)}
+                </span>
+                {index === 0 && (
+                  <span className="ml-1 text-green-600">Best</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Wager Input */}
+      <div className="flex gap-2 items-end justify-end mt-2">
+        <div className="w-32 lg:w-64">
+          <label
+            htmlFor={`wager-${future.id}`}
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Wager Amount ($)
+          </label>
+          <input
+            id={`wager-${future.id}`}
+            type="number"
+            value={wagerAmount}
+            onChange={(e) => setWagerAmount(e.target.value)}
+            placeholder="0.00"
+            min="0"
+            step="0.01"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+        <button
+          onClick={handlePlaceWager}
+          disabled={
+            !selectedQuote ||
+            !wagerAmount ||
+            parseFloat(wagerAmount) <= 0 ||
+            !!limitViolation ||
+            isPlacingWager
+          }
+          className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2 whitespace-nowrap"
+        >
+          {isPlacingWager && (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+          )}
+          {isPlacingWager ? "Placing..." : "Place Bet"}
+        </button>
+      </div>
+
+      {/* Betting Limit Warning */}
+      {limitViolation && (
+        <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {limitViolation.message}
+        </div>
+      )}
+
+      {/* Selected Bet Display */}
+      {selectedQuote && (
+        <div className="mt-3 p-2 bg-blue-50 rounded-md text-sm text-blue-700">
+          Selected: {selectedLabel} ({formatOdds(selectedQuote.price)}) @{" "}
+          {formatSource(selectedQuote.source)}
+        </div>
+      )}
+    </div>
+  );
+}
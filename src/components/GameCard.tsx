@@ -1,13 +1,37 @@
 "use client";
 
 import { useState } from "react";
-import UserSelector from "@/components/UserSelector";
-import { User } from "@/types/user";
+import LineMovementChart from "@/components/LineMovementChart";
+import { formatSource } from "../../lib/odds/best-price";
+import { BettingStatus, checkWagerLimits } from "../../lib/limits/rules";
+
+// One bookmaker's current quote for a bet option
+export interface BookQuote {
+  lineId: string;
+  source: string;
+  price: number;
+  point: number | null;
+}
+
+// A market listed option by option: an admin-created special (e.g. "First
+// TD scorer"), a player prop or alternate spreads/totals
+export interface OptionMarket {
+  id: string;
+  name: string;
+  options: {
+    key: string; // bet option key into Game.books
+    label: string; // without the number, e.g. "Patrick Mahomes Over"
+    point: number | null; // the best quote's number
+    signed?: boolean; // show the number as a spread
+    price: number;
+  }[];
+}
 
 export interface Game {
   id: string;
   homeTeam: string;
   awayTeam: string;
+  title?: string | null; // standalone events have no teams or game markets
   startTime: string;
   leagueName: string;
   spread: {
@@ -19,35 +43,61 @@ export interface Game {
   moneyline: {
     homeOdds: number;
     awayOdds: number;
+    drawOdds?: number; // three-way (soccer) moneylines only
   };
   total: {
     points: number;
     overOdds: number;
     underOdds: number;
   };
+  // Market IDs for line history, keyed by market type
+  marketIds?: {
+    spread?: string;
+    moneyline?: string;
+    total?: string;
+  };
+  // Every book's quote per bet option key (e.g. "home_spread"), best first.
+  // Option market keys come from OptionMarket.options.
+  books?: Record<string, BookQuote[]>;
+  specials?: OptionMarket[];
+  extraMarkets?: OptionMarket[]; // player props and alternate lines
 }
 
 interface GameCardProps {
   game: Game;
-  users: User[];
   onPlaceWager: (
     gameId: string,
     betType: string,
     amount: number,
-    userId: string
+    lineId?: string
+  ) => void;
+  onAddToParlay?: (
+    gameId: string,
+    betType: string,
+    label: string,
+    price: number,
+    lineId?: string
   ) => void;
   isPlacingWager?: boolean;
+  // The bettor's limits, to warn before submitting a wager that breaks one
+  bettingStatus?: BettingStatus | null;
 }
 
 export default function GameCard({
   game,
-  users,
   onPlaceWager,
+  onAddToParlay,
   isPlacingWager = false,
+  bettingStatus = null,
 }: GameCardProps) {
   const [wagerAmount, setWagerAmount] = useState<string>("");
   const [selectedBet, setSelectedBet] = useState<string>("");
-  const [selectedUserId, setSelectedUserId] = useState<string>("");
+  const [selectedLineId, setSelectedLineId] = useState<string>("");
+  const [showMovement, setShowMovement] = useState(false);
+  const [showExtraMarkets, setShowExtraMarkets] = useState(false);
+  const [movementMarket, setMovementMarket] = useState<
+    "spread" | "moneyline" | "total"
+  >("spread");
 
   const formatOdds = (odds: number): string => {
     return odds > 0 ? `+${odds}` : odds.toString();
@@ -64,94 +114,330 @@ export default function GameCard({
     });
   };
 
-  const handlePlaceWager = () => {
-    const amount = parseFloat(wagerAmount);
-    if (selectedBet && amount > 0 && selectedUserId) {
-      onPlaceWager(game.id, selectedBet, amount, selectedUserId);
-      setWagerAmount("");
-      setSelectedBet("");
+  const formatSpread = (point: number): string => {
+    return `${point > 0 ? "+" : ""}${point}`;
+  };
+
+  const listedOptions = [
+    ...(game.specials ?? []),
+    ...(game.extraMarkets ?? []),
+  ].flatMap((market) =>
+    market.options.map((option) => ({ ...option, marketName: market.name }))
+  );
+
+  const formatOptionPoint = (point: number | null, signed?: boolean) =>
+    point === null ? "" : ` ${signed ? formatSpread(point) : point}`;
+
+  // Label for a bet option at a given number (books can hang different ones)
+  const getBetLabel = (key: string, point: number | null): string => {
+    switch (key) {
+      case "home_spread":
+        return `${game.homeTeam} ${formatSpread(point ?? 0)}`;
+      case "away_spread":
+        return `${game.awayTeam} ${formatSpread(point ?? 0)}`;
+      case "home_ml":
+        return `${game.homeTeam} ML`;
+      case "away_ml":
+        return `${game.awayTeam} ML`;
+      case "draw_ml":
+        return "Draw";
+      case "over":
+        return `Over ${point ?? 0}`;
+      case "under":
+        return `Under ${point ?? 0}`;
+      default: {
+        const option = listedOptions.find((option) => option.key === key);
+        return option
+          ? `${option.marketName}: ${option.label}${formatOptionPoint(
+              point,
+              option.signed
+            )}`
+          : key;
+      }
     }
   };
 
-  const betOptions = [
+  const selectBet = (key: string) => {
+    setSelectedBet(key);
+    setSelectedLineId("");
+  };
+
+  // Soccer moneylines are three-way: home, draw or away
+  const isThreeWay = game.moneyline.drawOdds !== undefined;
+  const moneylineOptions = [
+    { key: "home_ml", point: null, price: game.moneyline.homeOdds },
+    ...(game.moneyline.drawOdds !== undefined
+      ? [{ key: "draw_ml", point: null, price: game.moneyline.drawOdds }]
+      : []),
+    { key: "away_ml", point: null, price: game.moneyline.awayOdds },
+  ];
+
+  // Standalone events only have specials
+  const gameOptions = [
     {
       key: "home_spread",
-      label: `${game.homeTeam} ${game.spread.home > 0 ? "+" : ""}${
-        game.spread.home
-      }`,
-      odds: formatOdds(game.spread.homeOdds),
+      point: game.spread.home,
+      price: game.spread.homeOdds,
     },
     {
       key: "away_spread",
-      label: `${game.awayTeam} ${game.spread.away > 0 ? "+" : ""}${
-        game.spread.away
-      }`,
-      odds: formatOdds(game.spread.awayOdds),
-    },
-    {
-      key: "home_ml",
-      label: `${game.homeTeam} ML`,
-      odds: formatOdds(game.moneyline.homeOdds),
-    },
-    {
-      key: "away_ml",
-      label: `${game.awayTeam} ML`,
-      odds: formatOdds(game.moneyline.awayOdds),
-    },
-    {
-      key: "over",
-      label: `Over ${game.total.points}`,
-      odds: formatOdds(game.total.overOdds),
-    },
-    {
-      key: "under",
-      label: `Under ${game.total.points}`,
-      odds: formatOdds(game.total.underOdds),
+      point: game.spread.away,
+      price: game.spread.awayOdds,
     },
+    ...moneylineOptions,
+    { key: "over", point: game.total.points, price: game.total.overOdds },
+    { key: "under", point: game.total.points, price: game.total.underOdds },
+  ].map((option) => ({
+    ...option,
+    label: getBetLabel(option.key, option.point),
+    odds: formatOdds(option.price),
+  }));
+  const betOptions = [
+    ...(game.title ? [] : gameOptions),
+    ...listedOptions.map((option) => ({
+      key: option.key,
+      point: option.point,
+      price: option.price,
+      label: getBetLabel(option.key, option.point),
+      odds: formatOdds(option.price),
+    })),
   ];
 
-  return (
-    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-4">
-      {/* Game Header */}
-      <div className="flex justify-between items-center mb-4 gap-4">
-        <div className="text-lg font-semibold">
-          <span className="text-gray-600">{game.awayTeam}</span>
-          <span className="mx-2 text-gray-400">@</span>
-          <span className="text-gray-900">{game.homeTeam}</span>
-        </div>
-        <div className="text-sm text-gray-500">
-          {formatTime(game.startTime)}
-        </div>
-      </div>
+  const selectedOption = betOptions.find((opt) => opt.key === selectedBet);
+  const selectedBooks = (selectedBet && game.books?.[selectedBet]) || [];
+  const showsSignedPoint =
+    selectedBet.endsWith("_spread") ||
+    !!listedOptions.find((option) => option.key === selectedBet)?.signed;
+  // The bettor's chosen book, defaulting to the best price
+  const selectedQuote =
+    selectedBooks.find((quote) => quote.lineId === selectedLineId) ??
+    selectedBooks[0];
+  const selectedLabel = selectedQuote
+    ? getBetLabel(selectedBet, selectedQuote.point)
+    : selectedOption?.label;
+  const selectedPrice = selectedQuote?.price ?? selectedOption?.price;
 
-      {/* Betting Options */}
-      <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
-        {betOptions.map((option) => (
+  const stakeCents = Math.round((parseFloat(wagerAmount) || 0) * 100);
+  const limitViolation =
+    bettingStatus && stakeCents > 0
+      ? checkWagerLimits(bettingStatus, { stakeCents, eventIds: [game.id] })
+      : null;
+
+  const handlePlaceWager = () => {
+    const amount = parseFloat(wagerAmount);
+    if (selectedBet && amount > 0) {
+      onPlaceWager(game.id, selectedBet, amount, selectedQuote?.lineId);
+      setWagerAmount("");
+      selectBet("");
+    }
+  };
+
+  const handleAddToParlay = () => {
+    if (
+      selectedOption &&
+      selectedLabel &&
+      selectedPrice !== undefined &&
+      onAddToParlay
+    ) {
+      onAddToParlay(
+        game.id,
+        selectedOption.key,
+        selectedLabel,
+        selectedPrice,
+        selectedQuote?.lineId
+      );
+      selectBet("");
+    }
+  };
+
+  const availableMovementMarkets = (
+    ["spread", "moneyline", "total"] as const
+  ).filter((market) => game.marketIds?.[market]);
+  const selectedMovementMarket = availableMovementMarkets.includes(
+    movementMarket
+  )
+    ? movementMarket
+    : availableMovementMarkets[0];
+  const selectedMovementMarketId = selectedMovementMarket
+    ? game.marketIds?.[selectedMovementMarket]
+    : undefined;
+
+  const renderGameOption = (option: (typeof gameOptions)[number]) => (
+    <button
+      key={option.key}
+      onClick={() => selectBet(option.key)}
+      className={`p-3 rounded-md border text-sm font-medium transition-colors ${
+        selectedBet === option.key
+          ? "bg-blue-100 border-blue-500 text-blue-700"
+          : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
+      }`}
+    >
+      <div>{option.label}</div>
+      <div className="text-xs text-gray-500">{option.odds}</div>
+    </button>
+  );
+
+  const renderOptionMarket = (market: OptionMarket) => (
+    <div key={market.id} className="mb-4">
+      <div className="text-xs font-medium text-gray-500 mb-1">
+        {market.name}
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+        {market.options.map((option) => (
           <button
             key={option.key}
-            onClick={() => setSelectedBet(option.key)}
+            onClick={() => selectBet(option.key)}
             className={`p-3 rounded-md border text-sm font-medium transition-colors ${
               selectedBet === option.key
                 ? "bg-blue-100 border-blue-500 text-blue-700"
                 : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
             }`}
           >
-            <div>{option.label}</div>
-            <div className="text-xs text-gray-500">{option.odds}</div>
+            <div>
+              {option.label}
+              {formatOptionPoint(option.point, option.signed)}
+            </div>
+            <div className="text-xs text-gray-500">
+              {formatOdds(option.price)}
+            </div>
           </button>
         ))}
       </div>
-      {/* Wager Input - Responsive Layout */}
-      <div className="flex flex-col lg:flex-row gap-2 lg:items-end">
-        {/* User Selector - Full width on mobile, part of row on desktop */}
-        <div className="w-full lg:flex-1">
-          <UserSelector
-            users={users}
-            selectedUserId={selectedUserId}
-            onUserSelect={setSelectedUserId}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-4">
+      {/* Game Header */}
+      <div className="flex justify-between items-center mb-4 gap-4">
+        {game.title ? (
+          <div className="text-lg font-semibold text-gray-900">
+            {game.title}
+          </div>
+        ) : (
+          <div className="text-lg font-semibold">
+            <span className="text-gray-600">{game.awayTeam}</span>
+            <span className="mx-2 text-gray-400">@</span>
+            <span className="text-gray-900">{game.homeTeam}</span>
+          </div>
+        )}
+        <div className="flex items-center gap-3">
+          <div className="text-sm text-gray-500">
+            {formatTime(game.startTime)}
+          </div>
+          {availableMovementMarkets.length > 0 && (
+            <button
+              onClick={() => setShowMovement(!showMovement)}
+              className="text-sm text-blue-600 hover:text-blue-800 whitespace-nowrap"
+            >
+              {showMovement ? "Hide movement" : "Line movement"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Line Movement */}
+      {showMovement && selectedMovementMarketId && (
+        <div className="mb-4">
+          <div className="flex gap-2 mb-2">
+            {availableMovementMarkets.map((market) => (
+              <button
+                key={market}
+                onClick={() => setMovementMarket(market)}
+                className={`px-3 py-1 rounded-md border text-xs font-medium capitalize ${
+                  selectedMovementMarket === market
+                    ? "bg-blue-100 border-blue-500 text-blue-700"
+                    : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                {market}
+              </button>
+            ))}
+          </div>
+          <LineMovementChart
+            key={selectedMovementMarketId}
+            marketId={selectedMovementMarketId}
           />
         </div>
+      )}
 
+      {/* Betting Options */}
+      {!game.title && !isThreeWay && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-4">
+          {gameOptions.map(renderGameOption)}
+        </div>
+      )}
+
+      {/* Three-way: home / draw / away on their own row */}
+      {!game.title && isThreeWay && (
+        <div className="mb-4">
+          <div className="grid grid-cols-3 gap-2 mb-2">
+            {gameOptions
+              .filter((option) => option.key.endsWith("_ml"))
+              .map(renderGameOption)}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            {gameOptions
+              .filter((option) => !option.key.endsWith("_ml"))
+              .map(renderGameOption)}
+          </div>
+        </div>
+      )}
+
+      {/* Specials */}
+      {game.specials?.map(renderOptionMarket)}
+
+      {/* Player Props and Alternate Lines */}
+      {game.extraMarkets && game.extraMarkets.length > 0 && (
+        <div className="mb-4">
+          <button
+            onClick={() => setShowExtraMarkets(!showExtraMarkets)}
+            className="text-sm text-blue-600 hover:text-blue-800 mb-2"
+          >
+            {showExtraMarkets
+              ? "Hide props & alternate lines"
+              : `Props & alternate lines (${game.extraMarkets.length})`}
+          </button>
+          {showExtraMarkets && game.extraMarkets.map(renderOptionMarket)}
+        </div>
+      )}
+
+      {/* Book Selection */}
+      {selectedBooks.length > 1 && (
+        <div className="mb-4">
+          <div className="text-xs font-medium text-gray-500 mb-1">
+            Choose a book
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {selectedBooks.map((quote, index) => (
+              <button
+                key={quote.lineId}
+                onClick={() => setSelectedLineId(quote.lineId)}
+                className={`px-3 py-1.5 rounded-md border text-xs font-medium transition-colors ${
+                  selectedQuote?.lineId === quote.lineId
+                    ? "bg-blue-100 border-blue-500 text-blue-700"
+                    : "bg-gray-50 border-gray-200 text-gray-700 hover:bg-gray-100"
+                }`}
+              >
+                <span>{formatSource(quote.source)}</span>
+                {quote.point !== null && !selectedBet.endsWith("_ml") && (
+                  <span className="ml-1">
+                    {showsSignedPoint ? formatSpread(quote.point) : quote.point}
+                  </span>
+                )}
+                <span className="ml-1 text-gray-500">
+                  {formatOdds(quote.price)}
+                </span>
+                {index === 0 && (
+                  <span className="ml-1 text-green-600">Best</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      {/* Wager Input - Responsive Layout */}
+      <div className="flex flex-col lg:flex-row gap-2 lg:items-end lg:justify-end">
         {/* Wager Amount and Place Bet Button Row */}
         <div className="flex gap-2 items-end">
           <div className="w-32 lg:w-64">
@@ -178,7 +464,7 @@ export default function GameCard({
               !selectedBet ||
               !wagerAmount ||
               parseFloat(wagerAmount) <= 0 ||
-              !selectedUserId ||
+              !!limitViolation ||
               isPlacingWager
             }
             className="px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center gap-2 whitespace-nowrap"
@@ -188,14 +474,31 @@ export default function GameCard({
             )}
             {isPlacingWager ? "Placing..." : "Place Bet"}
           </button>
+          {onAddToParlay && (
+            <button
+              onClick={handleAddToParlay}
+              disabled={!selectedBet}
+              className="px-4 py-2 border border-blue-600 text-blue-600 rounded-md font-medium hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:border-gray-300 disabled:text-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+            >
+              Add to Parlay
+            </button>
+          )}
         </div>
       </div>
 
+      {/* Betting Limit Warning */}
+      {limitViolation && (
+        <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+          {limitViolation.message}
+        </div>
+      )}
+
       {/* Selected Bet Display */}
       {selectedBet && (
         <div className="mt-3 p-2 bg-blue-50 rounded-md text-sm text-blue-700">
-          Selected: {betOptions.find((opt) => opt.key === selectedBet)?.label}(
-          {betOptions.find((opt) => opt.key === selectedBet)?.odds})
+          Selected: {selectedLabel} (
+          {selectedPrice !== undefined ? formatOdds(selectedPrice) : ""})
+          {selectedQuote && ` @ ${formatSource(selectedQuote.source)}`}
         </div>
       )}
     </div>
@@ -0,0 +1,308 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { confirmToast } from "@/lib/confirm-toast";
+
+type InviteStatus = "PENDING" | "USED" | "REVOKED" | "EXPIRED";
+
+interface Invite {
+  id: string;
+  code: string;
+  email: string | null;
+  createdAt: string;
+  expiresAt: string;
+  usedAt: string | null;
+  revokedAt: string | null;
+  status: InviteStatus;
+  link: string;
+  createdBy: { displayName: string };
+  usedBy: { displayName: string } | null;
+}
+
+interface InvitesApiResponse {
+  success: boolean;
+  invites: Invite[];
+}
+
+export default function InvitesPanel() {
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [email, setEmail] = useState("");
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(false);
+
+  const fetchInvites = async () => {
+    try {
+      const response = await fetch("/api/admin/invites");
+      const data: InvitesApiResponse = await response.json();
+
+      if (response.ok) {
+        setInvites(data.invites);
+      } else {
+        console.error("Failed to fetch invites:", data);
+      }
+    } catch (error) {
+      console.error("Error fetching invites:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchInvites();
+  }, []);
+
+  const handleCreateInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setMessage("");
+
+    try {
+      const response = await fetch("/api/admin/invites", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          email: email.trim() || undefined,
+          expiresInDays: parseInt(expiresInDays, 10),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(`${data.message}: ${data.invite.code}`);
+        setIsError(false);
+        setEmail("");
+        fetchInvites();
+      } else {
+        setMessage(
+          data.error?.details?.[0]?.message ||
+            data.error?.message ||
+            "Failed to create invite"
+        );
+        setIsError(true);
+      }
+    } catch (error) {
+      console.error("Error creating invite:", error);
+      setMessage("Network error: Failed to create invite");
+      setIsError(true);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevokeInvite = async (invite: Invite) => {
+    if (
+      !(await confirmToast(`Revoke invite ${invite.code}?`, {
+        confirmLabel: "Revoke",
+      }))
+    ) {
+      return;
+    }
+
+    setRevokingId(invite.id);
+    setMessage("");
+
+    try {
+      const response = await fetch(`/api/admin/invites/${invite.id}`, {
+        method: "DELETE",
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(data.message);
+        setIsError(false);
+        fetchInvites();
+      } else {
+        setMessage(data.error?.message || "Failed to revoke invite");
+        setIsError(true);
+      }
+    } catch (error) {
+      console.error("Error revoking invite:", error);
+      setMessage("Network error: Failed to revoke invite");
+      setIsError(true);
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopyLink = async (invite: Invite) => {
+    try {
+      await navigator.clipboard.writeText(invite.link);
+      setMessage(`Copied signup link for ${invite.code}`);
+      setIsError(false);
+    } catch (error) {
+      console.error("Error copying invite link:", error);
+    }
+  };
+
+  const formatDate = (dateString: string): string => {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const getStatusColor = (status: InviteStatus): string => {
+    switch (status) {
+      case "PENDING":
+        return "bg-yellow-100 text-yellow-800";
+      case "USED":
+        return "bg-green-100 text-green-800";
+      case "REVOKED":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center mb-4">
+        <div className="w-8 h-8 bg-teal-100 rounded-lg flex items-center justify-center mr-3">
+          <svg
+            className="w-5 h-5 text-teal-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M18 9v3m0 0v3m0-3h3m-3 0h-3m-2-5a4 4 0 11-8 0 4 4 0 018 0zM3 20a6 6 0 0112 0v1H3v-1z"
+            />
+          </svg>
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">Invites</h2>
+      </div>
+
+      <form
+        onSubmit={handleCreateInvite}
+        className="flex flex-col md:flex-row gap-3 mb-4"
+      >
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email (optional, mails the invite)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+          disabled={isCreating}
+        />
+        <select
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-teal-500"
+          disabled={isCreating}
+        >
+          <option value="1">Expires in 1 day</option>
+          <option value="7">Expires in 7 days</option>
+          <option value="30">Expires in 30 days</option>
+        </select>
+        <button
+          type="submit"
+          disabled={isCreating}
+          className="bg-teal-600 text-white py-2 px-4 rounded-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+        >
+          {isCreating ? "Creating..." : "Create Invite"}
+        </button>
+      </form>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+        </div>
+      ) : invites.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No invites created yet
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {["Code", "For", "Status", "Created", "Expires", ""].map(
+                  (heading) => (
+                    <th
+                      key={heading}
+                      className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                    >
+                      {heading}
+                    </th>
+                  )
+                )}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {invites.map((invite) => (
+                <tr key={invite.id}>
+                  <td className="px-3 py-2 whitespace-nowrap font-mono text-gray-900">
+                    {invite.code}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                    {invite.usedBy?.displayName ?? invite.email ?? "Anyone"}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                        invite.status
+                      )}`}
+                    >
+                      {invite.status}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                    {formatDate(invite.createdAt)}
+                    <span className="ml-1 text-xs text-gray-400">
+                      by {invite.createdBy.displayName}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                    {formatDate(invite.expiresAt)}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    {invite.status === "PENDING" && (
+                      <div className="flex justify-end gap-2">
+                        <button
+                          onClick={() => handleCopyLink(invite)}
+                          className="text-teal-600 hover:text-teal-800 text-xs font-medium"
+                        >
+                          Copy link
+                        </button>
+                        <button
+                          onClick={() => handleRevokeInvite(invite)}
+                          disabled={revokingId === invite.id}
+                          className="text-red-600 hover:text-red-800 text-xs font-medium disabled:text-gray-400"
+                        >
+                          {revokingId === invite.id ? "Revoking..." : "Revoke"}
+                        </button>
+                      </div>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`mt-4 p-3 rounded-md text-sm ${
+            isError
+              ? "bg-red-50 text-red-700 border border-red-200"
+              : "bg-green-50 text-green-700 border border-green-200"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
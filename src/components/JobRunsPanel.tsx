@@ -0,0 +1,210 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+interface JobRun {
+  id: string;
+  job: string;
+  status: "RUNNING" | "SUCCEEDED" | "FAILED";
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  error: string | null;
+}
+
+interface WorkerJob {
+  name: string;
+  description: string;
+  schedule: string;
+  lastRun: JobRun | null;
+  lastSuccessAt: string | null;
+}
+
+interface JobsApiResponse {
+  success: boolean;
+  jobs: WorkerJob[];
+  recentRuns: JobRun[];
+}
+
+export default function JobRunsPanel() {
+  const [jobs, setJobs] = useState<WorkerJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+  const [isError, setIsError] = useState(false);
+
+  const fetchJobs = async () => {
+    try {
+      const response = await fetch("/api/admin/jobs");
+      const data: JobsApiResponse = await response.json();
+
+      if (response.ok) {
+        setJobs(data.jobs);
+      } else {
+        console.error("Failed to fetch jobs:", data);
+      }
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  const handleRunJob = async (job: string) => {
+    setRunningJob(job);
+    setMessage("");
+    setIsError(false);
+
+    try {
+      const response = await fetch("/api/admin/jobs", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ job }),
+      });
+
+      const data = await response.json();
+
+      if (response.ok) {
+        setMessage(data.message);
+        setIsError(false);
+      } else {
+        setMessage(
+          `${data.error?.message || "Failed to run job"}${
+            data.error?.details ? `: ${data.error.details}` : ""
+          }`
+        );
+        setIsError(true);
+      }
+    } catch (error) {
+      console.error("Error running job:", error);
+      setMessage("Network error: Failed to run job");
+      setIsError(true);
+    } finally {
+      setRunningJob(null);
+      fetchJobs();
+    }
+  };
+
+  const formatDateTime = (dateString: string): string => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  const getStatusColor = (status: JobRun["status"]): string => {
+    switch (status) {
+      case "SUCCEEDED":
+        return "bg-green-100 text-green-800";
+      case "FAILED":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-yellow-100 text-yellow-800";
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center mb-4">
+        <div className="w-8 h-8 bg-purple-100 rounded-lg flex items-center justify-center mr-3">
+          <svg
+            className="w-5 h-5 text-purple-600"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"
+            />
+          </svg>
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">Background Jobs</h2>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Scheduled by the worker (<code>npm run worker</code>). Runs started
+        here are recorded the same way.
+      </p>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {jobs.map((job) => (
+            <div
+              key={job.name}
+              className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-gray-900">{job.name}</span>
+                  <code className="text-xs text-gray-500">{job.schedule}</code>
+                  {job.lastRun && (
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                        job.lastRun.status
+                      )}`}
+                    >
+                      {job.lastRun.status}
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">{job.description}</p>
+                <p className="text-xs text-gray-500">
+                  {job.lastRun
+                    ? `Last run ${formatDateTime(job.lastRun.startedAt)}${
+                        job.lastRun.durationMs !== null
+                          ? ` (${job.lastRun.durationMs}ms)`
+                          : ""
+                      }`
+                    : "Never run"}
+                  {job.lastSuccessAt &&
+                    job.lastRun?.status !== "SUCCEEDED" &&
+                    ` • last success ${formatDateTime(job.lastSuccessAt)}`}
+                </p>
+                {job.lastRun?.status === "FAILED" && job.lastRun.error && (
+                  <p className="text-xs text-red-600 break-words">
+                    {job.lastRun.error}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={() => handleRunJob(job.name)}
+                disabled={runningJob !== null}
+                className="bg-purple-600 text-white py-1.5 px-3 rounded-md text-sm hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+              >
+                {runningJob === job.name ? "Running..." : "Run now"}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {message && (
+        <div
+          className={`mt-4 p-3 rounded-md text-sm ${
+            isError
+              ? "bg-red-50 text-red-700 border border-red-200"
+              : "bg-green-50 text-green-700 border border-green-200"
+          }`}
+        >
+          {message}
+        </div>
+      )}
+    </div>
+  );
+}
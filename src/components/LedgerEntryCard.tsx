@@ -32,6 +32,16 @@ export default function LedgerEntryCard({ entry }: LedgerEntryProps) {
         return { label: "Deposit", color: "text-green-600" };
       case "WITHDRAWAL":
         return { label: "Withdrawal", color: "text-red-600" };
+      case "ADJUSTMENT":
+        return { label: "Adjustment", color: "text-purple-600" };
+      case "SETTLEMENT_REVERSAL":
+        return { label: "Settlement Reversal", color: "text-orange-600" };
+      case "ESCROW_STAKE":
+        return { label: "Peer Bet Escrow", color: "text-red-600" };
+      case "ESCROW_PAYOUT":
+        return { label: "Peer Bet Payout", color: "text-green-600" };
+      case "ESCROW_REFUND":
+        return { label: "Peer Bet Refund", color: "text-blue-600" };
       default:
         return { label: type, color: "text-gray-600" };
     }
@@ -101,7 +111,9 @@ export default function LedgerEntryCard({ entry }: LedgerEntryProps) {
                 <div>
                   <span className="text-gray-500">Line:</span>
                   <span className="ml-2 font-medium">
-                    {entry.wager.line.selectionKey}{" "}
+                    {entry.wager.line.participant &&
+                      `${entry.wager.line.participant} `}
+                    {entry.wager.line.label ?? entry.wager.line.selectionKey}{" "}
                     {entry.wager.line.point ? `${entry.wager.line.point}` : ""}
                   </span>
                 </div>
@@ -116,11 +128,12 @@ export default function LedgerEntryCard({ entry }: LedgerEntryProps) {
                   <div className="md:col-span-2">
                     <span className="text-gray-500">Game:</span>
                     <span className="ml-2 font-medium">
-                      {entry.wager.line.market.event.awayTeam} @{" "}
-                      {entry.wager.line.market.event.homeTeam}
+                      {entry.wager.line.market.event.title ??
+                        `${entry.wager.line.market.event.awayTeam} @ ${entry.wager.line.market.event.homeTeam}`}
                     </span>
                     <span className="ml-2 text-gray-500">
-                      ({entry.wager.line.market.type})
+                      ({entry.wager.line.market.name ??
+                        entry.wager.line.market.type})
                     </span>
                   </div>
                 )}
@@ -0,0 +1,355 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceDot,
+  ReferenceLine,
+} from "recharts";
+import {
+  LineHistoryApiResponse,
+  LineSnapshot,
+  SelectionHistory,
+} from "@/types/market";
+import { formatSource, isAlternateMarket } from "../../lib/odds/best-price";
+
+interface LineMovementChartProps {
+  marketId: string;
+}
+
+interface MovementDataPoint {
+  timestamp: number;
+  [seriesKey: string]: number | undefined;
+}
+
+// Colors per selection
+const SELECTION_COLORS: Record<string, string> = {
+  HOME: "#3B82F6", // Blue
+  AWAY: "#EF4444", // Red
+  OVER: "#10B981", // Green
+  UNDER: "#F59E0B", // Yellow
+};
+
+export default function LineMovementChart({
+  marketId,
+}: LineMovementChartProps) {
+  const [history, setHistory] = useState<LineHistoryApiResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [metric, setMetric] = useState<"price" | "point">("price");
+  // Bookmaker to chart; mixing books on one line makes it jump between them
+  const [source, setSource] = useState<string>("");
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(
+          `/api/markets/${marketId}/lines${
+            source ? `?source=${encodeURIComponent(source)}` : ""
+          }`
+        );
+
+        if (!response.ok) {
+          throw new Error(
+            `Failed to fetch line history: ${response.statusText}`
+          );
+        }
+
+        const data: LineHistoryApiResponse = await response.json();
+
+        // Several books quote this market: chart the first one (refetches)
+        if (!source && data.sources.length > 1) {
+          setSource(data.sources[0]);
+          return;
+        }
+
+        setHistory(data);
+        // Spreads and totals move mostly on the number, moneylines on price
+        setMetric(data.market.type === "MONEYLINE" ? "price" : "point");
+        setLoading(false);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "An error occurred");
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [marketId, source]);
+
+  const formatOdds = (odds: number): string => {
+    return odds > 0 ? `+${odds}` : odds.toString();
+  };
+
+  const formatSnapshot = (snapshot: LineSnapshot): string => {
+    return snapshot.point !== null
+      ? `${snapshot.point} (${formatOdds(snapshot.price)})`
+      : formatOdds(snapshot.price);
+  };
+
+  // The player, the selection's name and, on alternate lines, the number
+  const selectionName = (selection: SelectionHistory): string =>
+    [
+      selection.participant,
+      selection.label ?? selection.selectionKey,
+      history && isAlternateMarket(history.market.type)
+        ? selection.opening.point
+        : null,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+  const valueOf = (price: number, point: string | null): number | undefined => {
+    if (metric === "price") return price;
+    return point !== null ? parseFloat(point) : undefined;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !history) {
+    return (
+      <div className="bg-red-50 rounded-lg p-4 text-center text-sm text-red-600">
+        {error || "No line history available"}
+      </div>
+    );
+  }
+
+  if (history.selections.length === 0) {
+    return (
+      <div className="bg-gray-50 rounded-lg p-6 text-center">
+        <p className="text-gray-500">No line history available</p>
+      </div>
+    );
+  }
+
+  // Merge every selection's snapshots onto one timeline; each selection keeps
+  // its last known value until it moves again
+  const buildMovementData = (
+    selections: SelectionHistory[]
+  ): MovementDataPoint[] => {
+    const timestamps = Array.from(
+      new Set(
+        selections.flatMap((selection) =>
+          selection.snapshots.map((s) => new Date(s.capturedAt).getTime())
+        )
+      )
+    ).sort((a, b) => a - b);
+
+    return timestamps.map((timestamp) => {
+      const dataPoint: MovementDataPoint = { timestamp };
+
+      selections.forEach((selection) => {
+        for (let i = selection.snapshots.length - 1; i >= 0; i--) {
+          const snapshot = selection.snapshots[i];
+          if (new Date(snapshot.capturedAt).getTime() <= timestamp) {
+            dataPoint[selection.key] = valueOf(snapshot.price, snapshot.point);
+            break;
+          }
+        }
+      });
+
+      return dataPoint;
+    });
+  };
+
+  const movementData = buildMovementData(history.selections);
+  const hasPoints = history.market.type !== "MONEYLINE";
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-2">
+          <h3 className="font-semibold text-gray-900">
+            Line Movement - {history.market.type}
+          </h3>
+          {history.sources.length > 1 && (
+            <select
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              className="text-xs border border-gray-300 rounded px-1 py-0.5 bg-white"
+            >
+              {history.sources.map((option) => (
+                <option key={option} value={option}>
+                  {formatSource(option)}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        {hasPoints && (
+          <div className="flex gap-1 text-xs">
+            {(["point", "price"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => setMetric(option)}
+                className={`px-2 py-1 rounded border ${
+                  metric === option
+                    ? "bg-blue-100 border-blue-500 text-blue-700"
+                    : "bg-white border-gray-200 text-gray-600 hover:bg-gray-100"
+                }`}
+              >
+                {option === "point" ? "Line" : "Price"}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 mb-4 text-xs">
+        {history.selections.map((selection) => (
+          <div key={selection.key} className="flex items-center gap-1">
+            <div
+              className="w-3 h-3 rounded-full"
+              style={{
+                backgroundColor: SELECTION_COLORS[selection.selectionKey],
+              }}
+            ></div>
+            <span>{selectionName(selection)}</span>
+          </div>
+        ))}
+        {history.wagers.length > 0 && (
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-3 rounded-full border-2 border-gray-900 bg-white"></div>
+            <span>Our wagers</span>
+          </div>
+        )}
+      </div>
+
+      {/* Chart */}
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={movementData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+            <XAxis
+              dataKey="timestamp"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tick={{ fontSize: 12 }}
+              tickFormatter={(value) => {
+                const date = new Date(value);
+                return `${date.getMonth() + 1}/${date.getDate()}`;
+              }}
+            />
+            <YAxis
+              tick={{ fontSize: 12 }}
+              domain={["auto", "auto"]}
+              tickFormatter={(value) =>
+                metric === "price" ? formatOdds(value) : `${value}`
+              }
+            />
+            <Tooltip
+              labelFormatter={(value) => new Date(value).toLocaleString()}
+              formatter={(value: number, name: string) => [
+                metric === "price" ? formatOdds(value) : value,
+                name,
+              ]}
+            />
+
+            {/* Opening line for each selection */}
+            {history.selections.map((selection) => {
+              const opening = valueOf(
+                selection.opening.price,
+                selection.opening.point
+              );
+              return opening === undefined ? null : (
+                <ReferenceLine
+                  key={`opening-${selection.key}`}
+                  y={opening}
+                  stroke={SELECTION_COLORS[selection.selectionKey]}
+                  strokeDasharray="5 5"
+                  strokeOpacity={0.5}
+                />
+              );
+            })}
+
+            {history.selections.map((selection) => (
+              <Line
+                key={selection.key}
+                type="stepAfter"
+                dataKey={selection.key}
+                name={selectionName(selection)}
+                stroke={SELECTION_COLORS[selection.selectionKey]}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            ))}
+
+            {/* Where the group's wagers were placed */}
+            {history.wagers.map((wager) => {
+              const y = valueOf(wager.acceptedPrice, wager.acceptedPoint);
+              return y === undefined ? null : (
+                <ReferenceDot
+                  key={`${wager.wagerId}-${wager.selectionKey}`}
+                  x={Math.max(
+                    new Date(wager.placedAt).getTime(),
+                    movementData[0].timestamp
+                  )}
+                  y={y}
+                  r={5}
+                  fill="white"
+                  stroke={SELECTION_COLORS[wager.selectionKey] || "#111827"}
+                  strokeWidth={2}
+                  ifOverflow="extendDomain"
+                />
+              );
+            })}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Opening vs current */}
+      <div className="grid grid-cols-2 gap-4 mt-4 text-sm">
+        {history.selections.map((selection) => (
+          <div key={selection.key} className="text-center">
+            <div className="font-medium text-gray-900">
+              {formatSnapshot(selection.opening)} →{" "}
+              {formatSnapshot(selection.current)}
+            </div>
+            <div className="text-xs text-gray-500">
+              {selectionName(selection)} open → current
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* Wagers placed */}
+      {history.wagers.length > 0 && (
+        <div className="mt-4 space-y-1 text-xs text-gray-600">
+          {history.wagers.map((wager) => (
+            <div
+              key={`${wager.wagerId}-${wager.selectionKey}`}
+              className="flex justify-between"
+            >
+              <span>
+                {wager.displayName} • {wager.selectionKey}{" "}
+                {wager.acceptedPoint !== null ? `${wager.acceptedPoint} ` : ""}
+                ({formatOdds(wager.acceptedPrice)})
+                {wager.type === "PARLAY" ? " • parlay leg" : ""}
+              </span>
+              <span>{new Date(wager.placedAt).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,11 +2,57 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { useState } from "react";
+import { useState, useEffect } from "react";
+
+interface SessionUser {
+  id: string;
+  displayName: string;
+  balanceCents: number;
+  lockedCents: number; // stakes on open bets, on top of the balance
+  futuresLockedCents: number;
+  role: "ADMIN" | "PLAYER";
+}
+
+// Pages that don't need (or have) a session
+const AUTH_PAGES = ["/login", "/signup"];
 
 export default function Navbar() {
   const pathname = usePathname();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const [sessionUser, setSessionUser] = useState<SessionUser | null>(null);
+
+  useEffect(() => {
+    if (AUTH_PAGES.includes(pathname)) {
+      setSessionUser(null);
+      return;
+    }
+
+    const fetchSession = async () => {
+      try {
+        const response = await fetch("/api/auth/session");
+        if (response.ok) {
+          const data = await response.json();
+          setSessionUser(data.user);
+        } else {
+          setSessionUser(null);
+        }
+      } catch (error) {
+        console.error("Error fetching session:", error);
+      }
+    };
+
+    fetchSession();
+  }, [pathname]);
+
+  const handleSignOut = async () => {
+    try {
+      await fetch("/api/auth/logout", { method: "POST" });
+    } catch (error) {
+      console.error("Error signing out:", error);
+    } finally {
+      window.location.assign("/login");
+    }
+  };
 
   if (pathname === "/") {
     if (typeof window !== "undefined") {
@@ -17,10 +63,16 @@ export default function Navbar() {
 
   const links = [
     { href: "/games", label: "Games" },
+    { href: "/futures", label: "Futures" },
     { href: "/bet-history", label: "Bet History" },
     { href: "/ledger", label: "Financial Ledger" },
     { href: "/statistics", label: "Statistics" },
-    { href: "/admin", label: "Admin" },
+    { href: "/peer-bets", label: "Peer Bets" },
+    { href: "/limits", label: "Limits" },
+    // Players would only get a 403 there
+    ...(sessionUser?.role === "ADMIN"
+      ? [{ href: "/admin", label: "Admin" }]
+      : []),
   ];
 
   return (
@@ -53,6 +105,33 @@ export default function Navbar() {
             ))}
           </div>
 
+          {sessionUser && (
+            <div className="hidden md:flex items-center gap-3 text-sm">
+              <span className="text-gray-300">
+                {sessionUser.displayName}
+                <span className="ml-2 text-gray-400">
+                  ${(sessionUser.balanceCents / 100).toFixed(2)}
+                </span>
+                {sessionUser.lockedCents > 0 && (
+                  <span
+                    className="ml-2 text-gray-500"
+                    title={`$${(sessionUser.futuresLockedCents / 100).toFixed(
+                      2
+                    )} of it on futures`}
+                  >
+                    + ${(sessionUser.lockedCents / 100).toFixed(2)} in play
+                  </span>
+                )}
+              </span>
+              <button
+                onClick={handleSignOut}
+                className="px-3 py-2 rounded-md text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+              >
+                Sign out
+              </button>
+            </div>
+          )}
+
           {/* Mobile menu button */}
           <div className="md:hidden">
             <button
@@ -104,6 +183,14 @@ export default function Navbar() {
                   {link.label}
                 </Link>
               ))}
+              {sessionUser && (
+                <button
+                  onClick={handleSignOut}
+                  className="block w-full text-left px-3 py-2 rounded-md text-base font-medium text-gray-300 hover:bg-gray-700 hover:text-white transition-colors"
+                >
+                  Sign out ({sessionUser.displayName})
+                </button>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,160 @@
+"use client";
+
+import { useState } from "react";
+import { combineAmericanPrices } from "../../lib/grading/parlay";
+
+export interface ParlaySlipLeg {
+  gameId: string;
+  betType: string;
+  lineId: string;
+  label: string;
+  price: number;
+  point: number | null; // sent as the expected point when placing
+  matchup: string;
+}
+
+interface ParlaySlipProps {
+  legs: ParlaySlipLeg[];
+  onRemoveLeg: (lineId: string) => void;
+  onClear: () => void;
+  onPlaceParlay: (amount: number) => void;
+  isPlacing?: boolean;
+}
+
+export default function ParlaySlip({
+  legs,
+  onRemoveLeg,
+  onClear,
+  onPlaceParlay,
+  isPlacing = false,
+}: ParlaySlipProps) {
+  const [wagerAmount, setWagerAmount] = useState<string>("");
+
+  const formatOdds = (odds: number): string => {
+    return odds > 0 ? `+${odds}` : odds.toString();
+  };
+
+  const formatCurrency = (amount: number): string => {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: "USD",
+    }).format(amount);
+  };
+
+  // A parlay needs at least two legs before it has a combined price
+  const combinedPrice =
+    legs.length >= 2 ? combineAmericanPrices(legs.map((leg) => leg.price)) : null;
+
+  const amount = parseFloat(wagerAmount);
+
+  const potentialPayout = (): number | null => {
+    if (combinedPrice === null || !(amount > 0)) return null;
+    return combinedPrice > 0
+      ? amount + (amount * combinedPrice) / 100
+      : amount + (amount * 100) / Math.abs(combinedPrice);
+  };
+
+  const handlePlaceParlay = () => {
+    if (combinedPrice !== null && amount > 0) {
+      onPlaceParlay(amount);
+      setWagerAmount("");
+    }
+  };
+
+  const payout = potentialPayout();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
+      <div className="flex justify-between items-center mb-3">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Parlay Slip ({legs.length})
+        </h2>
+        <button
+          onClick={onClear}
+          className="text-sm text-gray-500 hover:text-gray-700"
+        >
+          Clear
+        </button>
+      </div>
+
+      {/* Legs */}
+      <div className="space-y-2 mb-4">
+        {legs.map((leg) => (
+          <div
+            key={leg.lineId}
+            className="flex justify-between items-start gap-2 p-2 bg-gray-50 rounded-md"
+          >
+            <div className="min-w-0">
+              <div className="text-sm font-medium text-gray-900">
+                {leg.label}{" "}
+                <span className="text-gray-500">{formatOdds(leg.price)}</span>
+              </div>
+              <div className="text-xs text-gray-500 truncate">
+                {leg.matchup}
+              </div>
+            </div>
+            <button
+              onClick={() => onRemoveLeg(leg.lineId)}
+              className="text-gray-400 hover:text-red-600 text-sm"
+              title="Remove leg"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {combinedPrice === null ? (
+        <div className="text-sm text-gray-500 mb-4">
+          Add at least one more selection from a different game.
+        </div>
+      ) : (
+        <div className="flex justify-between text-sm mb-4">
+          <span className="text-gray-600">Combined odds</span>
+          <span className="font-semibold">{formatOdds(combinedPrice)}</span>
+        </div>
+      )}
+
+      <label
+        htmlFor="parlay-wager"
+        className="block text-sm font-medium text-gray-700 mb-1"
+      >
+        Wager Amount ($)
+      </label>
+      <input
+        id="parlay-wager"
+        type="number"
+        value={wagerAmount}
+        onChange={(e) => setWagerAmount(e.target.value)}
+        placeholder="0.00"
+        min="0"
+        step="0.01"
+        className="w-full px-3 py-2 mb-3 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+      />
+
+      {payout !== null && (
+        <div className="flex justify-between text-sm mb-3">
+          <span className="text-gray-600">Potential payout</span>
+          <span className="font-semibold text-green-600">
+            {formatCurrency(payout)}
+          </span>
+        </div>
+      )}
+
+      <button
+        onClick={handlePlaceParlay}
+        disabled={
+          combinedPrice === null ||
+          !(amount > 0) ||
+          isPlacing
+        }
+        className="w-full px-4 py-2 bg-blue-600 text-white rounded-md font-medium hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
+      >
+        {isPlacing && (
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+        )}
+        {isPlacing ? "Placing..." : "Place Parlay"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use client";
+
+import { PeerBet, PeerBetSide } from "@/types/peer-bet";
+
+interface PeerBetCardProps {
+  peerBet: PeerBet;
+  currentUserId?: string;
+  onAccept?: (peerBetId: string) => void;
+  onCancel?: (peerBetId: string) => void;
+  busy?: boolean;
+}
+
+export default function PeerBetCard({
+  peerBet,
+  currentUserId,
+  onAccept,
+  onCancel,
+  busy = false,
+}: PeerBetCardProps) {
+  const formatCurrency = (cents: number): string => {
+    return `$${(cents / 100).toFixed(2)}`;
+  };
+
+  const formatOdds = (odds: number): string => {
+    return odds > 0 ? `+${odds}` : odds.toString();
+  };
+
+  const formatPoint = (point: number): string => {
+    return point > 0 ? `+${point}` : point.toString();
+  };
+
+  const formatDateTime = (dateString: string): string => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      hour12: true,
+    });
+  };
+
+  const describeSide = ({ selection, point }: PeerBetSide): string => {
+    const { event, market } = peerBet;
+    const team = selection === "HOME" ? event.homeTeam : event.awayTeam;
+
+    switch (market.type) {
+      case "MONEYLINE":
+        return team;
+      case "SPREAD":
+        return point !== null ? `${team} ${formatPoint(point)}` : team;
+      case "TOTAL":
+        return point !== null ? `${selection} ${point}` : selection;
+      default:
+        return selection;
+    }
+  };
+
+  const isProposer = peerBet.proposer.id === currentUserId;
+  const isTaker = peerBet.taker?.id === currentUserId;
+
+  // Everything is shown from the viewer's side; outsiders see the taker's
+  // side since that's what they'd be taking
+  const mySide = isProposer ? peerBet.proposerSide : peerBet.takerSide;
+  const myStakeCents = isProposer
+    ? peerBet.proposerStakeCents
+    : peerBet.takerStakeCents;
+  const theirStakeCents = isProposer
+    ? peerBet.takerStakeCents
+    : peerBet.proposerStakeCents;
+  const opponent = isProposer ? peerBet.taker : peerBet.proposer;
+
+  const getStatusText = (): string => {
+    if (peerBet.status !== "SETTLED" || !peerBet.result) {
+      return peerBet.status;
+    }
+    if (peerBet.result === "PUSH" || peerBet.result === "VOID") {
+      return peerBet.result;
+    }
+    if (!isProposer && !isTaker) return peerBet.result;
+    return (peerBet.result === "WON") === isProposer ? "WON" : "LOST";
+  };
+
+  const getStatusColor = (status: string): string => {
+    switch (status) {
+      case "OPEN":
+        return "bg-blue-100 text-blue-800";
+      case "MATCHED":
+        return "bg-yellow-100 text-yellow-800";
+      case "WON":
+        return "bg-green-100 text-green-800";
+      case "LOST":
+        return "bg-red-100 text-red-800";
+      case "PUSH":
+        return "bg-gray-100 text-gray-800";
+      case "VOID":
+        return "bg-purple-100 text-purple-800";
+      case "CANCELLED":
+        return "bg-gray-100 text-gray-500 line-through";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  const statusText = getStatusText();
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-xs text-gray-500">
+            {peerBet.event.league} · {formatDateTime(peerBet.event.startsAt)}
+          </p>
+          <p className="text-sm font-medium text-gray-900">
+            {peerBet.event.awayTeam} @ {peerBet.event.homeTeam}
+          </p>
+          <p className="text-base font-semibold text-gray-900 mt-1">
+            {describeSide(mySide)}
+          </p>
+          <p className="text-xs text-gray-500 mt-1">
+            {isProposer
+              ? peerBet.taker
+                ? `Taken by ${peerBet.taker.displayName}`
+                : `Your offer at ${formatOdds(peerBet.price)}`
+              : `${peerBet.proposer.displayName} has ${describeSide(
+                  peerBet.proposerSide
+                )} at ${formatOdds(peerBet.price)}`}
+          </p>
+        </div>
+        <span
+          className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${getStatusColor(
+            statusText
+          )}`}
+        >
+          {statusText}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between mt-3 gap-3">
+        <p className="text-sm text-gray-600">
+          Risk {formatCurrency(myStakeCents)} to win{" "}
+          {formatCurrency(theirStakeCents)}
+          {opponent && !onAccept && (
+            <span className="text-gray-400"> · vs {opponent.displayName}</span>
+          )}
+        </p>
+        {onAccept && peerBet.status === "OPEN" && !isProposer && (
+          <button
+            onClick={() => onAccept(peerBet.id)}
+            disabled={busy}
+            className="bg-teal-600 text-white py-1.5 px-3 rounded-md text-sm hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+          >
+            {busy ? "Taking..." : "Take bet"}
+          </button>
+        )}
+        {onCancel && peerBet.status === "OPEN" && isProposer && (
+          <button
+            onClick={() => onCancel(peerBet.id)}
+            disabled={busy}
+            className="text-red-600 hover:text-red-800 text-sm font-medium disabled:text-gray-400 whitespace-nowrap"
+          >
+            {busy ? "Cancelling..." : "Cancel offer"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
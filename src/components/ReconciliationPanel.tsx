@@ -0,0 +1,248 @@
+"use client";
+
+import { useState, useEffect } from "react";
+
+type DiscrepancyKind =
+  | "BALANCE_MISMATCH"
+  | "MISSING_STAKE"
+  | "DUPLICATE_PAYOUT";
+
+interface ProposedEntry {
+  userId: string;
+  wagerId: string | null;
+  type: string;
+  amountCents: number;
+  description: string;
+  movesBalance: boolean;
+}
+
+interface LedgerDiscrepancy {
+  kind: DiscrepancyKind;
+  userId: string;
+  displayName: string;
+  wagerId: string | null;
+  message: string;
+  proposedEntry: ProposedEntry;
+}
+
+interface ReconciliationReport {
+  checkedAt: string;
+  usersChecked: number;
+  wagersChecked: number;
+  discrepancies: LedgerDiscrepancy[];
+}
+
+interface ReconciliationApiResponse {
+  success: boolean;
+  report: ReconciliationReport;
+}
+
+export default function ReconciliationPanel() {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [applyingIndex, setApplyingIndex] = useState<number | null>(null);
+
+  const fetchReport = async () => {
+    try {
+      setLoading(true);
+      setErrorMessage("");
+      const response = await fetch("/api/admin/ledger/reconciliation");
+      const data: ReconciliationApiResponse = await response.json();
+
+      if (response.ok) {
+        setReport(data.report);
+      } else {
+        console.error("Failed to reconcile ledger:", data);
+        setErrorMessage("Failed to reconcile ledger");
+      }
+    } catch (error) {
+      console.error("Error reconciling ledger:", error);
+      setErrorMessage("Network error: Failed to reconcile ledger");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  // Post one proposed entry; the server checks it's still needed first
+  const handleApply = async (discrepancy: LedgerDiscrepancy, index: number) => {
+    try {
+      setApplyingIndex(index);
+      setErrorMessage("");
+      const response = await fetch("/api/admin/ledger/reconciliation", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          kind: discrepancy.kind,
+          userId: discrepancy.userId,
+          wagerId: discrepancy.wagerId,
+        }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        await fetchReport();
+      } else {
+        setErrorMessage(data.error?.message || "Failed to apply entry");
+      }
+    } catch (error) {
+      console.error("Error applying entry:", error);
+      setErrorMessage("Network error: Failed to apply entry");
+    } finally {
+      setApplyingIndex(null);
+    }
+  };
+
+  const formatAmount = (amountCents: number) => {
+    const amount = Math.abs(amountCents) / 100;
+    const sign = amountCents >= 0 ? "+" : "-";
+    return `${sign}$${amount.toFixed(2)}`;
+  };
+
+  const getKindLabel = (kind: DiscrepancyKind): string => {
+    switch (kind) {
+      case "BALANCE_MISMATCH":
+        return "Balance mismatch";
+      case "MISSING_STAKE":
+        return "Missing stake";
+      case "DUPLICATE_PAYOUT":
+        return "Duplicate payout";
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <div className="w-8 h-8 bg-amber-100 rounded-lg flex items-center justify-center mr-3">
+            <svg
+              className="w-5 h-5 text-amber-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M3 6l3 1m0 0l-3 9a5.002 5.002 0 006.001 0M6 7l3 9M6 7l6-2m6 2l3-1m-3 1l-3 9a5.002 5.002 0 006.001 0M18 7l3 9m-3-9l-6-2m0-2v2m0 16V5m0 16H9m3 0h3"
+              />
+            </svg>
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900">
+            Ledger Reconciliation
+          </h2>
+        </div>
+        <button
+          onClick={fetchReport}
+          disabled={loading}
+          className="bg-amber-600 text-white py-1.5 px-3 rounded-md text-sm hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+        >
+          {loading ? "Checking..." : "Run check"}
+        </button>
+      </div>
+
+      {errorMessage && (
+        <div className="p-3 rounded-md text-sm bg-red-50 text-red-700 border border-red-200">
+          {errorMessage}
+        </div>
+      )}
+
+      {loading && !report ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-600"></div>
+        </div>
+      ) : (
+        report && (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              Checked {report.usersChecked} users and {report.wagersChecked}{" "}
+              wagers at {new Date(report.checkedAt).toLocaleString()}.
+            </p>
+
+            {report.discrepancies.length === 0 ? (
+              <p className="text-sm text-green-700 text-center py-6">
+                Every ledger adds up to its balance
+              </p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {["User", "Issue", "Proposed entry", ""].map(
+                        (heading) => (
+                          <th
+                            key={heading}
+                            className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                          >
+                            {heading}
+                          </th>
+                        )
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {report.discrepancies.map((discrepancy, index) => (
+                      <tr
+                        key={`${discrepancy.kind}:${discrepancy.userId}:${index}`}
+                      >
+                        <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                          {discrepancy.displayName}
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 mr-2">
+                            {getKindLabel(discrepancy.kind)}
+                          </span>
+                          <span className="break-words">
+                            {discrepancy.message}
+                          </span>
+                        </td>
+                        <td className="px-3 py-2 text-gray-600">
+                          <span
+                            className={`font-medium ${
+                              discrepancy.proposedEntry.amountCents >= 0
+                                ? "text-green-600"
+                                : "text-red-600"
+                            }`}
+                          >
+                            {formatAmount(
+                              discrepancy.proposedEntry.amountCents
+                            )}
+                          </span>
+                          <span className="ml-2 text-xs text-gray-500">
+                            {discrepancy.proposedEntry.type}
+                          </span>
+                          <p className="text-xs text-gray-500">
+                            {discrepancy.proposedEntry.description}
+                            {discrepancy.proposedEntry.movesBalance
+                              ? " (moves the balance)"
+                              : " (ledger only)"}
+                          </p>
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            onClick={() => handleApply(discrepancy, index)}
+                            disabled={loading || applyingIndex !== null}
+                            className="text-sm font-medium text-amber-600 hover:text-amber-800 disabled:text-gray-400 disabled:cursor-not-allowed whitespace-nowrap"
+                          >
+                            {applyingIndex === index ? "Applying..." : "Apply"}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )
+      )}
+    </div>
+  );
+}
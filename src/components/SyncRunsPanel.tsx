@@ -0,0 +1,295 @@
+"use client";
+
+import { Fragment, useState, useEffect } from "react";
+
+type SyncRunStatus = "RUNNING" | "SUCCEEDED" | "PARTIAL" | "FAILED";
+
+interface SyncRun {
+  id: string;
+  sport: string;
+  provider: string;
+  status: SyncRunStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  eventsCreated: number;
+  eventsUpdated: number;
+  linesCreated: number;
+  linesSkipped: number;
+  gamesProcessed: number;
+  gamesFailed: number;
+  apiRemainingRequests: string | null;
+  apiUsedRequests: string | null;
+  error: string | null;
+}
+
+interface SyncGameError {
+  externalId: string;
+  matchup: string;
+  message: string;
+}
+
+interface SyncRunsApiResponse {
+  success: boolean;
+  syncRuns: SyncRun[];
+}
+
+interface SyncRunApiResponse {
+  success: boolean;
+  syncRun: SyncRun & { errors: SyncGameError[] };
+}
+
+export default function SyncRunsPanel() {
+  const [syncRuns, setSyncRuns] = useState<SyncRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>("");
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+  const [gameErrors, setGameErrors] = useState<SyncGameError[]>([]);
+  const [loadingErrors, setLoadingErrors] = useState(false);
+
+  useEffect(() => {
+    const fetchSyncRuns = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(
+          `/api/admin/sync-runs${statusFilter ? `?status=${statusFilter}` : ""}`
+        );
+        const data: SyncRunsApiResponse = await response.json();
+
+        if (response.ok) {
+          setSyncRuns(data.syncRuns);
+        } else {
+          console.error("Failed to fetch sync runs:", data);
+        }
+      } catch (error) {
+        console.error("Error fetching sync runs:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchSyncRuns();
+  }, [statusFilter]);
+
+  const handleToggleRun = async (syncRun: SyncRun) => {
+    if (expandedRunId === syncRun.id) {
+      setExpandedRunId(null);
+      return;
+    }
+
+    setExpandedRunId(syncRun.id);
+    setGameErrors([]);
+
+    if (syncRun.gamesFailed === 0) return;
+
+    try {
+      setLoadingErrors(true);
+      const response = await fetch(`/api/admin/sync-runs/${syncRun.id}`);
+      const data: SyncRunApiResponse = await response.json();
+
+      if (response.ok) {
+        setGameErrors(data.syncRun.errors);
+      } else {
+        console.error("Failed to fetch sync run:", data);
+      }
+    } catch (error) {
+      console.error("Error fetching sync run:", error);
+    } finally {
+      setLoadingErrors(false);
+    }
+  };
+
+  const formatDateTime = (dateString: string): string => {
+    return new Date(dateString).toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  };
+
+  const formatDuration = (syncRun: SyncRun): string => {
+    if (!syncRun.finishedAt) return "-";
+    const ms =
+      new Date(syncRun.finishedAt).getTime() -
+      new Date(syncRun.startedAt).getTime();
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  };
+
+  const getStatusColor = (status: SyncRunStatus): string => {
+    switch (status) {
+      case "SUCCEEDED":
+        return "bg-green-100 text-green-800";
+      case "PARTIAL":
+        return "bg-orange-100 text-orange-800";
+      case "FAILED":
+        return "bg-red-100 text-red-800";
+      default:
+        return "bg-yellow-100 text-yellow-800";
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <div className="w-8 h-8 bg-indigo-100 rounded-lg flex items-center justify-center mr-3">
+            <svg
+              className="w-5 h-5 text-indigo-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+              />
+            </svg>
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900">Odds Sync Runs</h2>
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="">All runs</option>
+          <option value="PARTIAL">Partial</option>
+          <option value="FAILED">Failed</option>
+          <option value="SUCCEEDED">Succeeded</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : syncRuns.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">
+          No sync runs recorded yet
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                {[
+                  "Started",
+                  "Sport",
+                  "Status",
+                  "Games",
+                  "Events",
+                  "Lines",
+                  "Quota left",
+                  "Duration",
+                ].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {syncRuns.map((syncRun) => (
+                <Fragment key={syncRun.id}>
+                  <tr
+                    onClick={() => handleToggleRun(syncRun)}
+                    className="cursor-pointer hover:bg-gray-50"
+                  >
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                      {formatDateTime(syncRun.startedAt)}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {syncRun.sport}
+                      <span className="ml-1 text-xs text-gray-400">
+                        ({syncRun.provider})
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                          syncRun.status
+                        )}`}
+                      >
+                        {syncRun.status}
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {syncRun.gamesProcessed}
+                      {syncRun.gamesFailed > 0 && (
+                        <span className="ml-1 text-red-600">
+                          / {syncRun.gamesFailed} failed
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      +{syncRun.eventsCreated} / ~{syncRun.eventsUpdated}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      +{syncRun.linesCreated}
+                      <span className="ml-1 text-xs text-gray-400">
+                        ({syncRun.linesSkipped} unchanged)
+                      </span>
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {syncRun.apiRemainingRequests ?? "-"}
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap text-gray-600">
+                      {formatDuration(syncRun)}
+                    </td>
+                  </tr>
+                  {expandedRunId === syncRun.id && (
+                    <tr>
+                      <td colSpan={8} className="px-3 py-3 bg-gray-50">
+                        {syncRun.error && (
+                          <p className="text-sm text-red-600 break-words">
+                            {syncRun.error}
+                          </p>
+                        )}
+                        {loadingErrors ? (
+                          <p className="text-sm text-gray-500">
+                            Loading errors...
+                          </p>
+                        ) : gameErrors.length > 0 ? (
+                          <ul className="space-y-1">
+                            {gameErrors.map((gameError) => (
+                              <li
+                                key={gameError.externalId}
+                                className="text-sm"
+                              >
+                                <span className="font-medium text-gray-900">
+                                  {gameError.matchup}
+                                </span>
+                                <span className="ml-2 text-xs text-gray-400">
+                                  {gameError.externalId}
+                                </span>
+                                <p className="text-red-600 break-words">
+                                  {gameError.message}
+                                </p>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          !syncRun.error && (
+                            <p className="text-sm text-gray-500">
+                              No errors in this run
+                            </p>
+                          )
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
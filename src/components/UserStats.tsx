@@ -69,18 +69,21 @@ export default function UserStats({}) {
 
   // Calculate betting statistics for a user
   const calculateBettingStats = (user: User) => {
-    const settledWagers = user.wagers.filter((w) =>
+    // Cancelled wagers were refunded and never really bet
+    const wagers = user.wagers.filter((w) => w.status !== "CANCELLED");
+
+    const settledWagers = wagers.filter((w) =>
       ["WON", "LOST", "PUSH", "VOID"].includes(w.status)
     );
 
     const record = {
-      wins: user.wagers.filter((w) => w.status === "WON").length,
-      losses: user.wagers.filter((w) => w.status === "LOST").length,
-      pushes: user.wagers.filter((w) => w.status === "PUSH").length,
-      voids: user.wagers.filter((w) => w.status === "VOID").length,
+      wins: wagers.filter((w) => w.status === "WON").length,
+      losses: wagers.filter((w) => w.status === "LOST").length,
+      pushes: wagers.filter((w) => w.status === "PUSH").length,
+      voids: wagers.filter((w) => w.status === "VOID").length,
     };
 
-    const totalWagered = user.wagers.reduce((sum, w) => sum + w.stakeCents, 0);
+    const totalWagered = wagers.reduce((sum, w) => sum + w.stakeCents, 0);
 
     // Calculate total winnings from payout ledger entries
     const totalWinnings = user.ledgerEntries
@@ -90,8 +93,7 @@ export default function UserStats({}) {
     const winRate =
       settledWagers.length > 0 ? (record.wins / settledWagers.length) * 100 : 0;
 
-    const averageBet =
-      user.wagers.length > 0 ? totalWagered / user.wagers.length : 0;
+    const averageBet = wagers.length > 0 ? totalWagered / wagers.length : 0;
 
     // Find biggest win and loss from payout amounts
     const payouts = user.ledgerEntries.filter(
@@ -100,11 +102,11 @@ export default function UserStats({}) {
     const biggestWin =
       payouts.length > 0 ? Math.max(...payouts.map((p) => p.amountCents)) : 0;
 
-    const stakes = user.wagers.map((w) => w.stakeCents);
+    const stakes = wagers.map((w) => w.stakeCents);
     const biggestLoss = stakes.length > 0 ? Math.max(...stakes) : 0;
 
     // Recent form (last 8 wagers)
-    const recentWagers = user.wagers.slice(0, 8);
+    const recentWagers = wagers.slice(0, 8);
     const recentForm = recentWagers.map((w) => {
       switch (w.status) {
         case "WON":
@@ -121,7 +123,11 @@ export default function UserStats({}) {
     });
 
     // Find favorite team (most bet on)
-    const teamBets = user.wagers.reduce((acc, wager) => {
+    const teamBets = wagers.reduce((acc, wager) => {
+      // Parlays span several games and specials aren't on a team, so
+      // neither counts toward a favorite
+      if (!wager.line || wager.line.selectionKey === "CUSTOM") return acc;
+
       const homeTeam = wager.line.market.event.homeTeam;
       const awayTeam = wager.line.market.event.awayTeam;
 
@@ -132,7 +138,7 @@ export default function UserStats({}) {
       } else if (wager.line.selectionKey === "AWAY") {
         betTeam = awayTeam;
       } else {
-        // For OVER/UNDER, we'll count both teams
+        // For OVER/UNDER and DRAW, we'll count both teams
         betTeam = `${homeTeam} vs ${awayTeam}`;
       }
 
@@ -145,6 +151,34 @@ export default function UserStats({}) {
         ? Object.entries(teamBets).sort(([, a], [, b]) => b - a)[0][0]
         : "None";
 
+    // Closing line value across straight wagers and parlay legs
+    const clvSamples = wagers.flatMap((wager) =>
+      wager.type === "PARLAY" ? wager.legs : [wager]
+    );
+    const clvCents = clvSamples
+      .filter((sample) => sample.clvCents !== null)
+      .map((sample) => Number(sample.clvCents));
+    const clvPoints = clvSamples
+      .filter((sample) => sample.clvPoints !== null)
+      .map((sample) => Number(sample.clvPoints));
+
+    const clv = {
+      count: clvCents.length,
+      averageCents:
+        clvCents.length > 0
+          ? clvCents.reduce((sum, value) => sum + value, 0) / clvCents.length
+          : 0,
+      beatCloseRate:
+        clvCents.length > 0
+          ? (clvCents.filter((value) => value > 0).length / clvCents.length) *
+            100
+          : 0,
+      averagePoints:
+        clvPoints.length > 0
+          ? clvPoints.reduce((sum, value) => sum + value, 0) / clvPoints.length
+          : null,
+    };
+
     return {
       record,
       totalWagered,
@@ -155,6 +189,7 @@ export default function UserStats({}) {
       biggestLoss,
       recentForm,
       favoriteTeam,
+      clv,
     };
   };
 
@@ -213,6 +248,15 @@ export default function UserStats({}) {
         <div className="text-3xl font-bold text-green-600 mb-1">
           {formatCurrency(selectedUser.balanceCents)}
         </div>
+        {selectedUser.lockedCents > 0 && (
+          <div className="text-sm text-gray-500">
+            {formatCurrency(selectedUser.lockedCents)} in play
+            {selectedUser.futuresLockedCents > 0 &&
+              ` (${formatCurrency(
+                selectedUser.futuresLockedCents
+              )} on futures)`}
+          </div>
+        )}
       </div>
       {/* Recent Form */}
       <div>
@@ -319,6 +363,52 @@ export default function UserStats({}) {
             </span>
           </div>
         </div>
+
+        {/* Closing Line Value */}
+        {stats.clv.count > 0 && (
+          <div className="space-y-3">
+            <h3 className="font-semibold text-gray-900">
+              Closing Line Value ({stats.clv.count} bets)
+            </h3>
+
+            <div className="flex justify-between">
+              <span className="text-sm text-gray-600">Avg CLV:</span>
+              <span
+                className={`text-sm font-medium ${
+                  stats.clv.averageCents >= 0
+                    ? "text-green-600"
+                    : "text-red-600"
+                }`}
+              >
+                {stats.clv.averageCents > 0 ? "+" : ""}
+                {stats.clv.averageCents.toFixed(2)}¢
+              </span>
+            </div>
+
+            {stats.clv.averagePoints !== null && (
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-600">Avg Points vs Close:</span>
+                <span
+                  className={`text-sm font-medium ${
+                    stats.clv.averagePoints >= 0
+                      ? "text-green-600"
+                      : "text-red-600"
+                  }`}
+                >
+                  {stats.clv.averagePoints > 0 ? "+" : ""}
+                  {stats.clv.averagePoints.toFixed(2)}
+                </span>
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <span className="text-sm text-gray-600">Beat the Close:</span>
+              <span className="text-sm font-medium">
+                {stats.clv.beatCloseRate.toFixed(1)}%
+              </span>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
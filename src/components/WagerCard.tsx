@@ -1,26 +1,48 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
-import { Wager } from "@/types/wager";
+import { Wager, WagerClv, WagerLeg } from "@/types/wager";
 
 interface WagerCardProps {
   wager: Wager;
+  onMarkLeg?: (
+    wagerId: string,
+    legId: string,
+    result: "WON" | "LOST" | "PUSH" | "VOID"
+  ) => void;
   onMarkWin?: (wagerId: string) => void;
   onMarkLoss?: (wagerId: string) => void;
   onMarkPush?: (wagerId: string) => void;
   onMarkVoid?: (wagerId: string) => void;
   onCancel?: (wagerId: string) => void;
+  onRegrade?: (
+    wagerId: string,
+    result: "WON" | "LOST" | "PUSH" | "VOID",
+    reason: string,
+    legs: { legId: string; result: "WON" | "LOST" | "PUSH" | "VOID" }[]
+  ) => void;
 }
 
 export default function WagerCard({
   wager,
+  onMarkLeg,
   onMarkWin,
   onMarkLoss,
   onMarkPush,
   onMarkVoid,
   onCancel,
+  onRegrade,
 }: WagerCardProps) {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
+  const [isRegrading, setIsRegrading] = useState(false);
+  const [regradeResult, setRegradeResult] = useState<
+    "WON" | "LOST" | "PUSH" | "VOID" | ""
+  >("");
+  const [regradeReason, setRegradeReason] = useState("");
+  // Corrected leg results when regrading a parlay, by leg id
+  const [regradeLegs, setRegradeLegs] = useState<
+    Record<string, "WON" | "LOST" | "PUSH" | "VOID">
+  >({});
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
@@ -44,6 +66,26 @@ export default function WagerCard({
     return `$${(cents / 100).toFixed(2)}`;
   };
 
+  // e.g. "+2.15¢ / +0.5 pts vs -3 (-110)"
+  const formatClv = (clv: WagerClv): string => {
+    const sign = (value: number) => (value > 0 ? "+" : "");
+    const points =
+      clv.clvPoints !== null
+        ? ` / ${sign(clv.clvPoints)}${clv.clvPoints} pts`
+        : "";
+    const closing =
+      clv.closingPoint !== null
+        ? `${clv.closingPoint} (${formatOdds(clv.closingPrice)})`
+        : formatOdds(clv.closingPrice);
+    return `${sign(clv.clvCents)}${clv.clvCents.toFixed(2)}¢${points} vs ${closing}`;
+  };
+
+  const getClvColor = (clv: WagerClv): string => {
+    if (clv.clvCents > 0) return "text-green-600";
+    if (clv.clvCents < 0) return "text-red-600";
+    return "text-gray-600";
+  };
+
   const formatOdds = (odds: number): string => {
     return odds > 0 ? `+${odds}` : odds.toString();
   };
@@ -71,31 +113,68 @@ export default function WagerCard({
         return "bg-gray-100 text-gray-800";
       case "VOID":
         return "bg-purple-100 text-purple-800";
+      case "CANCELLED":
+        return "bg-gray-100 text-gray-500 line-through";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
-  const getSelectionText = (): string => {
-    const { selection, market, event, acceptedPoint } = wager;
-
+  const isParlay = wager.type === "PARLAY";
+
+  const describeSelection = ({
+    selection,
+    market,
+    event,
+    acceptedPoint,
+    label,
+    participant,
+  }: Pick<
+    WagerLeg,
+    "selection" | "market" | "event" | "acceptedPoint" | "label" | "participant"
+  >): string => {
     switch (market.type) {
       case "SPREAD":
+      case "ALT_SPREAD":
         if (selection === "HOME") {
           return `${event.homeTeam} ${acceptedPoint}`;
         } else {
           return `${event.awayTeam} ${acceptedPoint}`;
         }
       case "MONEYLINE":
+        if (selection === "DRAW") return "Draw";
         return selection === "HOME" ? event.homeTeam : event.awayTeam;
       case "TOTAL":
+      case "ALT_TOTAL":
         return `${selection} ${acceptedPoint}`;
+      case "PLAYER_PROP":
+        return `${participant} ${selection} ${acceptedPoint}`;
+      case "CUSTOM":
+      case "OUTRIGHT":
+        return `${label}`;
       default:
         return `${selection}`;
     }
   };
 
+  const getSelectionText = (): string => {
+    if (isParlay || !wager.market || !wager.event || !wager.selection) {
+      return `${wager.legs.length}-Leg Parlay`;
+    }
+
+    return describeSelection({
+      selection: wager.selection,
+      market: wager.market,
+      event: wager.event,
+      acceptedPoint: wager.acceptedPoint,
+      label: wager.label,
+      participant: wager.participant,
+    });
+  };
+
   const getMarketTypeDisplay = (): string => {
+    if (isParlay || !wager.market) return "Parlay";
+
     switch (wager.market.type) {
       case "SPREAD":
         return "Point Spread";
@@ -103,20 +182,45 @@ export default function WagerCard({
         return "Moneyline";
       case "TOTAL":
         return "Total Points";
+      case "ALT_SPREAD":
+        return "Alternate Spread";
+      case "ALT_TOTAL":
+        return "Alternate Total";
+      case "PLAYER_PROP":
+        return wager.market.name ?? "Player Prop";
+      case "CUSTOM":
+        return wager.market.name ?? "Special";
+      case "OUTRIGHT":
+        return wager.market.name ?? "Future";
       default:
         return wager.market.type;
     }
   };
 
+  const hasStarted = (startsAt: string): boolean => {
+    return new Date() >= new Date(startsAt);
+  };
+
+  // Parlays count as started once their earliest leg has started
   const isEventStarted = (): boolean => {
-    const currentTime = new Date();
-    const eventStartTime = new Date(wager.event.startsAt);
-    return currentTime >= eventStartTime;
+    if (wager.event) return hasStarted(wager.event.startsAt);
+    return wager.legs.some((leg) => hasStarted(leg.event.startsAt));
+  };
+
+  const getTeamsText = (): { away: string; home: string } => {
+    if (wager.event?.title) {
+      return { away: wager.event.title, home: "" };
+    }
+    if (wager.event) {
+      return { away: wager.event.awayTeam, home: `@ ${wager.event.homeTeam}` };
+    }
+    return { away: "Parlay", home: `${wager.legs.length} legs` };
   };
 
   // Helper function to render Win button
   const renderWinButton = (isMobile: boolean = false) => {
-    if (!onMarkWin) return null;
+    // Parlays are won through their legs, not directly
+    if (!onMarkWin || isParlay) return null;
 
     const buttonClasses = isMobile
       ? "px-2 py-1 text-white text-xs font-medium rounded transition-colors"
@@ -140,7 +244,7 @@ export default function WagerCard({
 
   // Helper function to render Loss button
   const renderLossButton = (isMobile: boolean = false) => {
-    if (!onMarkLoss) return null;
+    if (!onMarkLoss || isParlay) return null;
 
     const buttonClasses = isMobile
       ? "px-2 py-1 text-white text-xs font-medium rounded transition-colors"
@@ -297,6 +401,191 @@ export default function WagerCard({
     );
   };
 
+  // Helper function to render the legs of a parlay with per-leg grading
+  const renderLegs = () => {
+    if (!isParlay) return null;
+
+    return (
+      <div className="mt-3 border-t border-gray-100 pt-3 space-y-2">
+        {wager.legs.map((leg) => {
+          const canMarkLeg =
+            onMarkLeg &&
+            wager.status === "PENDING" &&
+            leg.status === "PENDING" &&
+            hasStarted(leg.event.startsAt);
+
+          return (
+            <div
+              key={leg.id}
+              className="flex flex-wrap items-center justify-between gap-2 text-sm"
+            >
+              <div className="min-w-0">
+                <span className="font-medium">{describeSelection(leg)}</span>
+                <span className="text-gray-500 ml-2">
+                  {formatOdds(leg.acceptedPrice)}
+                </span>
+                <span className="text-gray-400 text-xs ml-2">
+                  {leg.event.title ??
+                    `${leg.event.awayTeam} @ ${leg.event.homeTeam}`}
+                </span>
+                {leg.clv && (
+                  <span className={`text-xs ml-2 ${getClvColor(leg.clv)}`}>
+                    CLV {formatClv(leg.clv)}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <span
+                  className={`px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(
+                    leg.status
+                  )}`}
+                >
+                  {leg.status}
+                </span>
+                {canMarkLeg &&
+                  (["WON", "LOST", "PUSH", "VOID"] as const).map((result) => (
+                    <button
+                      key={result}
+                      onClick={() => onMarkLeg(wager.id, leg.id, result)}
+                      className="px-2 py-0.5 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors"
+                      title={`Mark leg as ${result}`}
+                    >
+                      {result.charAt(0)}
+                    </button>
+                  ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const isSettled = ["WON", "LOST", "PUSH", "VOID"].includes(wager.status);
+
+  // Grade change history, plus the regrade form for admins
+  const renderRegrade = () => {
+    const canRegrade = !!onRegrade && isSettled;
+    if (wager.gradeChanges.length === 0 && !canRegrade) return null;
+
+    return (
+      <div className="mt-3 pt-3 border-t border-gray-100 text-sm">
+        {wager.gradeChanges.map((change) => (
+          <p key={change.id} className="text-xs text-gray-500">
+            Regraded {change.fromStatus} → {change.toStatus} by{" "}
+            {change.changedBy} on {formatDateTime(change.createdAt)}:{" "}
+            <span className="text-gray-700">{change.reason}</span>
+          </p>
+        ))}
+        {canRegrade &&
+          (isRegrading ? (
+            <div className="mt-2 space-y-2">
+              {/* A parlay's result follows from its legs; correct them too */}
+              {isParlay &&
+                wager.legs.map((leg) => (
+                  <div
+                    key={leg.id}
+                    className="flex items-center justify-between gap-2 text-xs"
+                  >
+                    <span className="text-gray-700">
+                      {describeSelection(leg)}
+                    </span>
+                    <select
+                      value={regradeLegs[leg.id] ?? leg.status}
+                      onChange={(e) =>
+                        setRegradeLegs({
+                          ...regradeLegs,
+                          [leg.id]: e.target
+                            .value as (typeof regradeLegs)[string],
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded text-xs"
+                    >
+                      {leg.status === "PENDING" && (
+                        <option value="PENDING" disabled>
+                          PENDING
+                        </option>
+                      )}
+                      {(["WON", "LOST", "PUSH", "VOID"] as const).map(
+                        (result) => (
+                          <option key={result} value={result}>
+                            {result}
+                          </option>
+                        )
+                      )}
+                    </select>
+                  </div>
+                ))}
+              <div className="flex flex-col md:flex-row gap-2">
+                <select
+                  value={regradeResult}
+                  onChange={(e) =>
+                    setRegradeResult(e.target.value as typeof regradeResult)
+                  }
+                  className="px-2 py-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="">New result</option>
+                  {(["WON", "LOST", "PUSH", "VOID"] as const)
+                    .filter((result) => result !== wager.status)
+                    .map((result) => (
+                      <option key={result} value={result}>
+                        {result}
+                      </option>
+                    ))}
+                </select>
+                <input
+                  type="text"
+                  value={regradeReason}
+                  onChange={(e) => setRegradeReason(e.target.value)}
+                  placeholder="Reason"
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+                />
+                <button
+                  onClick={() => {
+                    if (!regradeResult) return;
+                    onRegrade(
+                      wager.id,
+                      regradeResult,
+                      regradeReason.trim(),
+                      Object.entries(regradeLegs).map(([legId, result]) => ({
+                        legId,
+                        result,
+                      }))
+                    );
+                    setIsRegrading(false);
+                  }}
+                  disabled={!regradeResult || !regradeReason.trim()}
+                  className="px-3 py-1 bg-blue-600 text-white text-sm font-medium rounded hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+                >
+                  Apply
+                </button>
+                <button
+                  onClick={() => setIsRegrading(false)}
+                  className="px-3 py-1 text-sm text-gray-600 hover:text-gray-800"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => {
+                setRegradeResult("");
+                setRegradeReason("");
+                setRegradeLegs({});
+                setIsRegrading(true);
+              }}
+              className="mt-1 text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              Regrade
+            </button>
+          ))}
+      </div>
+    );
+  };
+
+  const teams = getTeamsText();
+
   return (
     <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 hover:shadow-lg transition-shadow">
       {/* Mobile Layout (vertical) */}
@@ -305,8 +594,8 @@ export default function WagerCard({
         <div className="flex items-start justify-between mb-3">
           <div className="flex-1">
             <div className="text-base font-semibold text-gray-900 leading-tight">
-              <div>{wager.event.awayTeam}</div>
-              <div>@ {wager.event.homeTeam}</div>
+              <div>{teams.away}</div>
+              <div>{teams.home}</div>
             </div>
           </div>
           <span
@@ -344,6 +633,14 @@ export default function WagerCard({
               {formatCurrency(wager.potentialPayoutCents)}
             </p>
           </div>
+          {wager.clv && (
+            <div className="col-span-2 text-center bg-gray-50 p-2 rounded">
+              <p className="text-gray-600 text-xs mb-1">CLV</p>
+              <p className={`font-medium text-sm ${getClvColor(wager.clv)}`}>
+                {formatClv(wager.clv)}
+              </p>
+            </div>
+          )}
         </div>
 
         {/* User Info and Actions */}
@@ -358,6 +655,8 @@ export default function WagerCard({
           {/* Action Buttons - Mobile */}
           {renderActionButtons(true)}
         </div>
+
+        {renderLegs()}
       </div>
 
       {/* Desktop Layout (horizontal) */}
@@ -367,8 +666,8 @@ export default function WagerCard({
           <div className="flex items-center gap-2 mb-1">
             <div className="flex-1">
               <div className="text-lg font-semibold text-gray-900">
-                <div>{wager.event.awayTeam}</div>
-                <div>@ {wager.event.homeTeam}</div>
+                <div>{teams.away}</div>
+                <div>{teams.home}</div>
               </div>
             </div>
             <span
@@ -401,6 +700,18 @@ export default function WagerCard({
               {formatCurrency(wager.potentialPayoutCents)}
             </p>
           </div>
+          {wager.clv && (
+            <div className="text-center">
+              <p className="text-gray-600 mb-1">CLV</p>
+              <p
+                className={`font-medium ${getClvColor(wager.clv)}`}
+                title={formatClv(wager.clv)}
+              >
+                {wager.clv.clvCents > 0 ? "+" : ""}
+                {wager.clv.clvCents.toFixed(2)}¢
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Right Section - Actions */}
@@ -416,6 +727,11 @@ export default function WagerCard({
           {renderActionButtons(false)}
         </div>
       </div>
+
+      {/* Parlay Legs - Desktop */}
+      <div className="hidden md:block">{renderLegs()}</div>
+
+      {renderRegrade()}
     </div>
   );
 }
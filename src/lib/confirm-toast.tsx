@@ -0,0 +1,48 @@
+"use client";
+
+import toast from "react-hot-toast";
+
+interface ConfirmToastOptions {
+  confirmLabel?: string;
+  cancelLabel?: string;
+}
+
+// Ask for confirmation in a toast rather than the browser's blocking
+// confirm() dialog. Resolves true when accepted, false when declined.
+export function confirmToast(
+  message: string,
+  { confirmLabel = "Confirm", cancelLabel = "Cancel" }: ConfirmToastOptions = {}
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    toast(
+      (t) => {
+        const answer = (accepted: boolean) => {
+          toast.dismiss(t.id);
+          resolve(accepted);
+        };
+
+        return (
+          <div className="space-y-2">
+            <p className="text-sm whitespace-pre-line">{message}</p>
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => answer(false)}
+                className="px-3 py-1 text-sm rounded border border-gray-400 hover:bg-gray-600"
+              >
+                {cancelLabel}
+              </button>
+              <button
+                onClick={() => answer(true)}
+                className="px-3 py-1 text-sm rounded bg-blue-600 hover:bg-blue-700"
+              >
+                {confirmLabel}
+              </button>
+            </div>
+          </div>
+        );
+      },
+      // Stays up until answered
+      { duration: Infinity }
+    );
+  });
+}
@@ -19,11 +19,43 @@ export interface SyncOddsResponse {
   success: true;
   message: string;
   data: {
+    syncRunId: string;
+    status: "SUCCEEDED" | "PARTIAL";
+    provider: "http" | "mock";
     eventsCreated: number;
+    eventsUpdated: number;
     linesCreated: number;
+    linesSkipped: number; // unchanged since the last capture
     totalGamesProcessed: number;
-    apiRemainingRequests?: string;
-    apiUsedRequests?: string;
+    gamesFailed: number;
+    errors: Array<{ externalId: string; matchup: string; message: string }>;
+    apiRemainingRequests: string | null;
+    apiUsedRequests: string | null;
+  };
+}
+
+export const SyncScoresRequestSchema = z.object({
+  sport: z.string().default("americanfootball_nfl"),
+  daysFrom: z.number().int().min(1).max(3).default(3),
+  fixture: z.string().optional(),
+  grade: z.boolean().default(true),
+});
+
+export type SyncScoresRequest = z.infer<typeof SyncScoresRequestSchema>;
+
+export interface SyncScoresResponse {
+  success: true;
+  message: string;
+  data: {
+    provider: "http" | "mock";
+    gamesReceived: number;
+    eventsMatched: number;
+    eventsLive: number;
+    eventsFinalized: number;
+    unmatchedGames: string[];
+    wagersGraded: number;
+    apiRemainingRequests: string | null;
+    apiUsedRequests: string | null;
   };
 }
 
@@ -35,6 +67,7 @@ export interface SyncStatsResponse {
     recentEvents: number;
     recentLines: number;
   };
+  provider: "http" | "mock";
   apiKeyConfigured: boolean;
 }
 
@@ -50,6 +83,7 @@ export interface ApiErrorResponse {
 // Odds API raw response types
 export interface OddsApiOutcome {
   name: string;
+  description?: string; // the player, on player prop markets
   price: number;
   point?: number;
 }
@@ -72,8 +106,8 @@ export interface OddsApiGame {
   sport_key: string;
   sport_title: string;
   commence_time: string;
-  home_team: string;
-  away_team: string;
+  home_team: string | null; // null on futures
+  away_team: string | null;
   bookmakers: OddsApiBookmaker[];
 }
 
@@ -102,12 +136,26 @@ export const POPULAR_SPORTS = {
   WTA: "tennis_wta",
 } as const;
 
+// Futures sport keys; these only offer the outrights market
+export const FUTURES_SPORTS = {
+  SUPER_BOWL: "americanfootball_nfl_super_bowl_winner",
+  NBA_CHAMPIONSHIP: "basketball_nba_championship_winner",
+  WORLD_SERIES: "baseball_mlb_world_series_winner",
+  STANLEY_CUP: "icehockey_nhl_championship_winner",
+  EPL_WINNER: "soccer_epl_winner",
+} as const;
+
 // Market type constants
 export const MARKET_TYPES = {
   MONEYLINE: "h2h",
   SPREAD: "spreads",
   TOTAL: "totals",
-  PLAYER_PROPS: "player_props",
+  ALT_SPREAD: "alternate_spreads",
+  ALT_TOTAL: "alternate_totals",
+  // One feed market per stat; these are the NFL ones
+  PLAYER_PROPS:
+    "player_pass_yds,player_rush_yds,player_reception_yds,player_receptions",
+  OUTRIGHTS: "outrights", // FUTURES_SPORTS only
 } as const;
 
 // Helper functions
@@ -115,6 +163,7 @@ export function isValidSport(sport: string): boolean {
   return (
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     Object.values(POPULAR_SPORTS).includes(sport as any) ||
+    (Object.values(FUTURES_SPORTS) as string[]).includes(sport) ||
     sport === "americanfootball_nfl"
   );
 }
@@ -147,6 +196,20 @@ export class OddsApiClient {
     return response.json();
   }
 
+  async syncScores(
+    request: Partial<SyncScoresRequest>
+  ): Promise<SyncScoresResponse | ApiErrorResponse> {
+    const response = await fetch(`${this.baseUrl}/scores`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(request),
+    });
+
+    return response.json();
+  }
+
   async getStats(): Promise<SyncStatsResponse | ApiErrorResponse> {
     const response = await fetch(`${this.baseUrl}/sync?stats=true`);
     return response.json();
@@ -154,6 +217,7 @@ export class OddsApiClient {
 
   async checkStatus(): Promise<{
     success: boolean;
+    provider: "http" | "mock";
     apiKeyConfigured: boolean;
   }> {
     const response = await fetch(`${this.baseUrl}/sync`);
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "../lib/auth/cookie";
+
+// Reachable without a session
+const PUBLIC_PATHS = ["/login", "/signup", "/api/auth"];
+
+// First line of defence only: it checks that a session cookie is present.
+// Route handlers validate the session itself via lib/auth/session.ts.
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  const isPublic = PUBLIC_PATHS.some(
+    (path) => pathname === path || pathname.startsWith(`${path}/`)
+  );
+
+  if (isPublic || request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(
+      {
+        error: {
+          code: "UNAUTHENTICATED",
+          message: "You must be signed in",
+        },
+      },
+      { status: 401 }
+    );
+  }
+
+  const loginUrl = new URL("/login", request.url);
+  loginUrl.searchParams.set("next", `${pathname}${search}`);
+  return NextResponse.redirect(loginUrl);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
@@ -8,7 +8,12 @@ export interface LedgerEntry {
     | "WAGER_PAYOUT"
     | "WAGER_REFUND"
     | "DEPOSIT"
-    | "WITHDRAWAL";
+    | "WITHDRAWAL"
+    | "ADJUSTMENT"
+    | "SETTLEMENT_REVERSAL"
+    | "ESCROW_STAKE"
+    | "ESCROW_PAYOUT"
+    | "ESCROW_REFUND";
   amountCents: number;
   description: string;
   createdAt: string;
@@ -23,21 +28,39 @@ export interface LedgerEntry {
     acceptedPoint: string | null;
     acceptedPrice: number;
     placedAt: string;
-    status: "PENDING" | "WON" | "LOST" | "PUSH" | "VOID";
+    status:
+      | "PENDING"
+      | "WON"
+      | "LOST"
+      | "PUSH"
+      | "VOID"
+      | "CANCELLED";
     line: {
       id: string;
-      selectionKey: "HOME" | "AWAY" | "OVER" | "UNDER";
+      selectionKey: "HOME" | "AWAY" | "DRAW" | "OVER" | "UNDER" | "CUSTOM";
+      label: string | null; // CUSTOM and OUTRIGHT selections only
+      participant: string | null; // PLAYER_PROP selections only
       point: string | null;
       price: number;
       source: string;
       capturedAt: string;
       market: {
         id: string;
-        type: "MONEYLINE" | "SPREAD" | "TOTAL";
+        type:
+          | "MONEYLINE"
+          | "SPREAD"
+          | "TOTAL"
+          | "CUSTOM"
+          | "PLAYER_PROP"
+          | "ALT_SPREAD"
+          | "ALT_TOTAL"
+          | "OUTRIGHT";
+        name: string | null;
         event: {
           id: string;
           homeTeam: string;
           awayTeam: string;
+          title: string | null;
           startsAt: string;
           status: "SCHEDULED" | "LIVE" | "FINAL";
           league: {
@@ -66,7 +89,12 @@ export interface LedgerEntryFilters {
     | "WAGER_PAYOUT"
     | "WAGER_REFUND"
     | "DEPOSIT"
-    | "WITHDRAWAL";
+    | "WITHDRAWAL"
+    | "ADJUSTMENT"
+    | "SETTLEMENT_REVERSAL"
+    | "ESCROW_STAKE"
+    | "ESCROW_PAYOUT"
+    | "ESCROW_REFUND";
   wagerId?: string;
   limit?: number;
 }
@@ -0,0 +1,61 @@
+// Type definitions for Market line-history API responses
+import { WagerSelection } from "./wager";
+
+export type MarketType =
+  | "MONEYLINE"
+  | "SPREAD"
+  | "TOTAL"
+  | "CUSTOM"
+  | "PLAYER_PROP"
+  | "ALT_SPREAD"
+  | "ALT_TOTAL"
+  | "OUTRIGHT";
+
+export interface LineSnapshot {
+  lineId: string;
+  price: number;
+  point: string | null;
+  source: string;
+  capturedAt: string;
+}
+
+// Full time series for one option as quoted by one book, oldest first
+export interface SelectionHistory {
+  key: string; // the option (selection, name, player, alternate number) + book
+  selectionKey: WagerSelection;
+  label: string | null;
+  participant: string | null;
+  source: string;
+  opening: LineSnapshot;
+  current: LineSnapshot;
+  snapshots: LineSnapshot[];
+}
+
+// A wager (or parlay leg) placed on this market
+export interface MarketWagerMarker {
+  wagerId: string;
+  type: "STRAIGHT" | "PARLAY";
+  userId: string;
+  displayName: string;
+  selectionKey: WagerSelection;
+  acceptedPrice: number;
+  acceptedPoint: string | null;
+  placedAt: string;
+}
+
+export interface LineHistoryApiResponse {
+  success: boolean;
+  market: {
+    id: string;
+    type: MarketType;
+    event: {
+      id: string;
+      homeTeam: string;
+      awayTeam: string;
+      startsAt: string;
+    };
+  };
+  sources: string[]; // every bookmaker that has quoted the market
+  selections: SelectionHistory[];
+  wagers: MarketWagerMarker[];
+}
@@ -0,0 +1,38 @@
+// Type definitions for Peer Bet API responses
+import { WagerEvent, WagerMarket, WagerSelection, WagerStatus } from "./wager";
+
+export type PeerBetStatus = "OPEN" | "MATCHED" | "SETTLED" | "CANCELLED";
+
+export interface PeerBetUser {
+  id: string;
+  displayName: string;
+}
+
+export interface PeerBetSide {
+  selection: WagerSelection;
+  point: number | null;
+}
+
+export interface PeerBet {
+  id: string;
+  status: PeerBetStatus;
+  result: WagerStatus | null; // from the proposer's side; set once settled
+  price: number; // the proposer's odds
+  proposerStakeCents: number;
+  takerStakeCents: number;
+  proposer: PeerBetUser;
+  taker: PeerBetUser | null;
+  event: WagerEvent;
+  market: WagerMarket;
+  proposerSide: PeerBetSide;
+  takerSide: PeerBetSide;
+  createdAt: string;
+  matchedAt: string | null;
+  settledAt: string | null;
+}
+
+export interface PeerBetsApiResponse {
+  success: boolean;
+  openOffers: PeerBet[]; // other members' offers the user can take
+  myBets: PeerBet[];
+}
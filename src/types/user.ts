@@ -3,6 +3,10 @@ export interface User {
   id: string;
   displayName: string;
   balanceCents: number;
+  // Stakes on bets that haven't settled (not part of balanceCents), and the
+  // part of them on futures
+  lockedCents: number;
+  futuresLockedCents: number;
   createdAt: string;
   _count: {
     wagers: number;
@@ -15,19 +19,34 @@ export interface User {
 // Wager type for user data
 export interface Wager {
   id: string;
+  type: "STRAIGHT" | "PARLAY";
   stakeCents: number;
   acceptedPoint: number | null;
   acceptedPrice: number;
   placedAt: string;
-  status: "PENDING" | "WON" | "LOST" | "PUSH" | "VOID";
+  status:
+    | "PENDING"
+    | "WON"
+    | "LOST"
+    | "PUSH"
+    | "VOID"
+    | "CANCELLED";
   line: {
     id: string;
-    selectionKey: "HOME" | "AWAY" | "OVER" | "UNDER";
+    selectionKey: "HOME" | "AWAY" | "DRAW" | "OVER" | "UNDER" | "CUSTOM";
     point: number | null;
     price: number;
     market: {
       id: string;
-      type: "MONEYLINE" | "SPREAD" | "TOTAL";
+      type:
+        | "MONEYLINE"
+        | "SPREAD"
+        | "TOTAL"
+        | "CUSTOM"
+        | "PLAYER_PROP"
+        | "ALT_SPREAD"
+        | "ALT_TOTAL"
+        | "OUTRIGHT";
       event: {
         id: string;
         homeTeam: string;
@@ -36,7 +55,14 @@ export interface Wager {
         status: "SCHEDULED" | "LIVE" | "FINAL";
       };
     };
-  };
+  } | null; // null for parlays
+  // Closing line value (Decimal strings), null until recorded at kickoff
+  clvCents: string | null;
+  clvPoints: string | null;
+  legs: {
+    clvCents: string | null;
+    clvPoints: string | null;
+  }[];
   ledgerEntries: LedgerEntry[];
 }
 
@@ -48,7 +74,12 @@ export interface LedgerEntry {
     | "WAGER_PAYOUT"
     | "WAGER_REFUND"
     | "DEPOSIT"
-    | "WITHDRAWAL";
+    | "WITHDRAWAL"
+    | "ADJUSTMENT"
+    | "SETTLEMENT_REVERSAL"
+    | "ESCROW_STAKE"
+    | "ESCROW_PAYOUT"
+    | "ESCROW_REFUND";
   amountCents: number;
   description: string;
   createdAt: string;
@@ -8,13 +8,23 @@ export interface WagerEvent {
   id: string;
   homeTeam: string;
   awayTeam: string;
+  title: string | null; // standalone events have a title instead of teams
   startsAt: string;
   status: "SCHEDULED" | "LIVE" | "FINAL";
   league: string;
 }
 
 export interface WagerMarket {
-  type: "MONEYLINE" | "SPREAD" | "TOTAL";
+  type:
+    | "MONEYLINE"
+    | "SPREAD"
+    | "TOTAL"
+    | "CUSTOM"
+    | "PLAYER_PROP"
+    | "ALT_SPREAD"
+    | "ALT_TOTAL"
+    | "OUTRIGHT";
+  name: string | null; // CUSTOM, PLAYER_PROP and OUTRIGHT markets only
 }
 
 export interface WagerLine {
@@ -25,20 +35,75 @@ export interface WagerLine {
   capturedAt: string;
 }
 
+// Closing line value; positive means the bet beat the closing line
+export interface WagerClv {
+  closingPrice: number;
+  closingPoint: string | null;
+  clvCents: number; // cents of implied probability
+  clvPoints: number | null; // spread/total only
+}
+
+export type WagerStatus =
+  | "PENDING"
+  | "WON"
+  | "LOST"
+  | "PUSH"
+  | "VOID"
+  | "CANCELLED";
+
+export type WagerSelection =
+  | "HOME"
+  | "AWAY"
+  | "DRAW"
+  | "OVER"
+  | "UNDER"
+  | "CUSTOM";
+
+// One leg of a parlay, with its own odds snapshot and result
+export interface WagerLeg {
+  id: string;
+  status: WagerStatus;
+  acceptedPrice: number;
+  acceptedPoint: string | null;
+  event: WagerEvent;
+  market: WagerMarket;
+  selection: WagerSelection;
+  label: string | null; // the named selection on a CUSTOM or OUTRIGHT market
+  participant: string | null; // the player on a PLAYER_PROP market
+  clv: WagerClv | null;
+}
+
+// An admin correcting the result of a settled wager
+export interface WagerGradeChange {
+  id: string;
+  fromStatus: WagerStatus;
+  toStatus: WagerStatus;
+  reason: string;
+  changedBy: string; // display name
+  createdAt: string;
+}
+
 export interface Wager {
   id: string;
   userId: string;
   user: WagerUser;
+  type: "STRAIGHT" | "PARLAY";
   stakeCents: number;
-  acceptedPrice: number;
+  acceptedPrice: number; // combined price for parlays
   acceptedPoint: string | null;
-  status: "PENDING" | "WON" | "LOST" | "PUSH" | "VOID";
+  status: WagerStatus;
   placedAt: string;
   potentialPayoutCents: number;
-  event: WagerEvent;
-  market: WagerMarket;
-  selection: "HOME" | "AWAY" | "OVER" | "UNDER";
-  line: WagerLine;
+  // event/market/selection/line are null for parlays; see legs
+  event: WagerEvent | null;
+  market: WagerMarket | null;
+  selection: WagerSelection | null;
+  label: string | null;
+  participant: string | null;
+  line: WagerLine | null;
+  clv: WagerClv | null; // null until the event starts, and for parlays
+  legs: WagerLeg[];
+  gradeChanges: WagerGradeChange[];
 }
 
 export interface WagersApiResponse {
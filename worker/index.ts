@@ -0,0 +1,65 @@
+// worker/index.ts
+// Standalone background worker: runs the jobs in lib/jobs on cron schedules.
+//   npm run worker            # schedule every job
+//   npm run worker -- --once  # run every job once and exit
+import cron, { ScheduledTask } from "node-cron";
+import { prisma } from "../lib/db";
+import { getJobSchedule, JOBS } from "../lib/jobs/definitions";
+import { runJob } from "../lib/jobs/run";
+
+async function runAllOnce() {
+  let failed = false;
+
+  for (const job of JOBS) {
+    const { status } = await runJob(job.name, job.run);
+    failed = failed || status === "FAILED";
+  }
+
+  await prisma.$disconnect();
+  process.exit(failed ? 1 : 0);
+}
+
+function scheduleAll() {
+  const tasks: ScheduledTask[] = [];
+
+  for (const job of JOBS) {
+    const schedule = getJobSchedule(job);
+
+    if (!cron.validate(schedule)) {
+      throw new Error(`Invalid cron schedule for ${job.name}: ${schedule}`);
+    }
+
+    tasks.push(
+      cron.schedule(
+        schedule,
+        async () => {
+          await runJob(job.name, job.run);
+        },
+        // Skip a tick rather than run the same job twice at once
+        { name: job.name, noOverlap: true }
+      )
+    );
+
+    console.log(`Scheduled ${job.name} (${schedule}): ${job.description}`);
+  }
+
+  const shutdown = async (signal: string) => {
+    console.log(`Received ${signal}, stopping worker...`);
+    await Promise.all(tasks.map((task) => task.stop()));
+    await prisma.$disconnect();
+    process.exit(0);
+  };
+
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
+}
+
+if (process.argv.includes("--once")) {
+  runAllOnce().catch(async (error) => {
+    console.error("Worker run failed:", error);
+    await prisma.$disconnect();
+    process.exit(1);
+  });
+} else {
+  scheduleAll();
+}